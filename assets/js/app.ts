@@ -3,63 +3,44 @@ import "phoenix_html";
 import { Socket } from "phoenix";
 import { LiveSocket } from "phoenix_live_view";
 import topbar from "../vendor/topbar";
-import { createApp, h, shallowRef, defineComponent } from "vue";
+import {
+  createApp,
+  h,
+  reactive,
+  defineComponent,
+  provide,
+  toHandlerKey,
+} from "vue";
 import Sortable from "sortablejs";
-
-// Sound system for hook notifications
-const SOUND_FILES: Record<string, string> = {
-  ding: "/sounds/ding.wav",
-  bell: "/sounds/bell.wav",
-  chime: "/sounds/chime.wav",
-  success: "/sounds/success.wav",
-  notification: "/sounds/notification.wav",
-  woof: "/sounds/woof.mp3",
-  bark1: "/sounds/bark1.mp3",
-  bark2: "/sounds/bark2.mp3",
-  bark3: "/sounds/bark3.mp3",
-  bark4: "/sounds/bark4.mp3",
-  bark5: "/sounds/bark5.mp3",
-  bark6: "/sounds/bark6.mp3",
-};
-
-const audioCache = new Map<string, HTMLAudioElement>();
-let audioInitialized = false;
-
+import { keyBetweenNeighbours } from "./lib/ordering";
+import { liveViewKey, type LiveViewBridge } from "./vue/liveView";
+import { shortcuts } from "./lib/shortcuts";
+import { applyPatch, type PropsPatch } from "./lib/propsPatch";
+import { checkPayload, isLiveEvent, toEventName } from "./lib/liveEvents";
+import { PendingReplies, type AsyncReply } from "./lib/liveReplies";
+import { desktopNotifier } from "./lib/desktopNotifier";
+import {
+  effectNotification,
+  eventNotification,
+  loadNotificationSettings,
+  type BoardEvent,
+  type TaskNotification,
+} from "./lib/notifications";
+import { soundEngine } from "./lib/soundEngine";
+import { isSoundEvent } from "./lib/sounds";
+import { tabs } from "./lib/tabCoordinator";
+
+// Sounds play through the Web Audio engine, see lib/soundEngine.ts. A tab
+// that can play them is preferred as the board's leader, so it tells the
+// others.
 export function initializeAudio(): boolean {
-  if (audioInitialized) return true;
-
-  for (const [type, path] of Object.entries(SOUND_FILES)) {
-    const audio = new Audio(path);
-    audio.preload = "auto";
-    audioCache.set(type, audio);
-  }
-
-  audioInitialized = true;
-  return true;
+  const unlocked = soundEngine.unlock();
+  tabs.announce();
+  return unlocked;
 }
 
-export function playSound(type: string): HTMLAudioElement | null {
-  if (!audioInitialized) {
-    console.log("[Sounds] Audio not initialized, skipping sound:", type);
-    return null;
-  }
-
-  let audio = audioCache.get(type);
-  if (!audio) {
-    const path = SOUND_FILES[type];
-    if (!path) {
-      console.warn("[Sounds] Unknown sound type:", type);
-      return null;
-    }
-    audio = new Audio(path);
-    audioCache.set(type, audio);
-  }
-
-  const clone = audio.cloneNode() as HTMLAudioElement;
-  clone.play().catch((err) => {
-    console.warn("[Sounds] Failed to play sound:", err);
-  });
-  return clone;
+export function playSound(type: string): Promise<boolean> {
+  return soundEngine.play(type);
 }
 
 // Initialize audio on first user interaction
@@ -78,6 +59,11 @@ for (const path in components) {
   componentRegistry[name] = components[path].default;
 }
 
+// Component events that are handled in the browser instead of the LiveView
+const browserEvents: Record<string, (hook: any, payload: any) => void> = {
+  navigate: (hook, data: { href: string }) => hook.js().navigate(data.href),
+};
+
 // Vue Hook for LiveView integration
 const VueHook = {
   mounted(this: any) {
@@ -90,84 +76,118 @@ const VueHook = {
       return;
     }
 
-    // Parse initial props from data attribute
-    const propsStr = this.el.dataset.props || "{}";
-    const initialProps = JSON.parse(propsStr);
+    // Components rendered with `live_props` get their props as patches over
+    // the `vue:patch` channel; the others from the data-props attribute
+    this.liveProps = this.el.hasAttribute("data-live-props");
+    this.synced = false;
+
+    // Patches are applied in place, so only what reads a changed value
+    // re-renders
+    const props = reactive<Record<string, unknown>>(
+      this.liveProps ? {} : JSON.parse(this.el.dataset.props || "{}"),
+    );
 
-    // Create reactive props ref
-    const props = shallowRef(initialProps);
+    // Events whose server reply the component needs go through the bridge.
+    // Their promises fail when no reply can come, see lib/liveReplies.ts.
+    this.replies = new PendingReplies();
+    this.handleEvent("vue:reply", ({ ref, reply }: AsyncReply) =>
+      this.replies.receive(ref, reply),
+    );
+    const liveView: LiveViewBridge = {
+      pushEvent: (event, payload) => {
+        checkPayload(event, payload);
+        return hook.replies.track(event, (reply: (reply: any) => void) =>
+          hook.pushEvent(event, payload, reply),
+        );
+      },
+    };
+
+    // Each event the component declares goes to the LiveView event of the
+    // same name in snake_case, see lib/liveEvents.ts
+    const declared: string[] = Array.isArray(component.emits)
+      ? component.emits
+      : Object.keys(component.emits ?? {});
+    const listeners: Record<string, (payload?: any) => void> = {};
+    for (const emit of declared) {
+      const event = toEventName(emit);
+      if (isLiveEvent(event)) {
+        listeners[toHandlerKey(emit)] = (payload) =>
+          hook.pushEvent(event, payload ?? {});
+      } else if (emit in browserEvents) {
+        listeners[toHandlerKey(emit)] = (payload) =>
+          browserEvents[emit](hook, payload);
+      } else {
+        console.warn(`[LiveVue] ${componentName} emits unknown "${emit}"`);
+      }
+    }
 
     // Create wrapper component with event handlers that forward to LiveView
     const WrapperComponent = defineComponent({
       setup() {
-        return () =>
-          h(component, {
-            ...props.value,
-            // Forward all events to LiveView
-            onMoveTask: (data: any) => hook.pushEvent("move_task", data),
-            onCreateTask: (data: any) =>
-              hook.pushEvent("show_create_task_modal", data),
-            onSelectTask: (data: any) => hook.pushEvent("select_task", data),
-            onCloseTaskDetails: () => hook.pushEvent("close_task_details", {}),
-            onUpdateTask: (data: any) => hook.pushEvent("update_task", data),
-            onDeleteTask: (data: any) => hook.pushEvent("delete_task", data),
-            onOpenSettings: (data: any) =>
-              hook.pushEvent("open_column_settings", data),
-            onCloseSettings: () => hook.pushEvent("close_settings", {}),
-            onStartAuth: () => hook.pushEvent("start_auth", {}),
-            onShowCreateModal: () => hook.pushEvent("show_create_modal", {}),
-            onHideCreateModal: () => hook.pushEvent("hide_create_modal", {}),
-            onCreateBoard: (data: any) => hook.pushEvent("create_board", data),
-            // TaskDetailsPanel events
-            onClose: () => hook.pushEvent("close_task_details", {}),
-            onToggleFullscreen: () => hook.pushEvent("toggle_fullscreen", {}),
-            onToggleHideDetails: () =>
-              hook.pushEvent("toggle_hide_details", {}),
-            onOpenFolder: (data: any) =>
-              hook.pushEvent("open_folder", { "task-id": data.taskId }),
-            onOpenInEditor: (data: any) =>
-              hook.pushEvent("open_in_editor", { "task-id": data.taskId }),
-            onShowCreatePrModal: (data: any) =>
-              hook.pushEvent("show_create_pr_modal", {
-                "task-id": data.taskId,
-              }),
-            onSendMessage: (data: any) =>
-              hook.pushEvent("send_message", {
-                task_id: data.taskId,
-                message: data.message,
-              }),
-            onClearError: (data: any) =>
-              hook.pushEvent("clear_error", { taskId: data.taskId }),
-            onCreateWorktree: (data: any) =>
-              hook.pushEvent("create_worktree", { task_id: data.taskId }),
-          });
+        provide(liveViewKey, liveView);
+
+        return () => h(component, { ...props, ...listeners });
       },
     });
 
-    // Mount Vue app
-    const app = createApp(WrapperComponent);
-    app.mount(this.el);
-
     // Store references for updates
-    this.vueApp = app;
+    this.vueApp = createApp(WrapperComponent);
     this.props = props;
 
-    // Handle hook events from server
-    this.handleEvent("hook_executed", (payload: any) => {
-      if (payload.effects?.play_sound) {
-        playSound(payload.effects.play_sound.sound);
-      }
-    });
+    if (this.liveProps) {
+      this.handleEvent("vue:patch", (patch: PropsPatch) => {
+        // Patches sent before the snapshot are already part of it
+        if (patch.id !== this.el.id || !this.synced) return;
+
+        try {
+          applyPatch(this.props, patch.ops);
+        } catch (err) {
+          console.warn(`[LiveVue] Resyncing ${this.el.id}:`, err);
+          this.resync();
+        }
+      });
+
+      // Mount once the first snapshot is in, components expect their props
+      this.resync(() => this.vueApp.mount(this.el));
+    } else {
+      this.vueApp.mount(this.el);
+    }
   },
 
   updated(this: any) {
+    if (this.liveProps) return;
+
     // Update props when LiveView assigns change
     const propsStr = this.el.dataset.props || "{}";
-    const newProps = JSON.parse(propsStr);
-    this.props.value = newProps;
+    applyPatch(this.props, [
+      { op: "replace", path: [], value: JSON.parse(propsStr) },
+    ]);
+  },
+
+  disconnected(this: any) {
+    this.replies?.disconnected();
+  },
+
+  // The server process is new after a reconnect and has sent nothing yet
+  reconnected(this: any) {
+    this.replies?.reconnected();
+    if (this.liveProps) this.resync();
+  },
+
+  // Replaces the props with a full snapshot from the server
+  resync(this: any, onSynced?: () => void) {
+    this.synced = false;
+    this.pushEvent("vue:resync", { id: this.el.id }, (reply: any) => {
+      // The component may be gone by the time the reply arrives
+      if (!reply?.props || !this.el.isConnected) return;
+      applyPatch(this.props, [{ op: "replace", path: [], value: reply.props }]);
+      this.synced = true;
+      onSynced?.();
+    });
   },
 
   destroyed(this: any) {
+    this.replies?.failAll();
     this.vueApp?.unmount();
   },
 };
@@ -209,17 +229,13 @@ const ColumnReorderHook = {
         const prevPos = prevColumn?.dataset.position || "";
         const nextPos = nextColumn?.dataset.position || "";
 
-        // Calculate new position between adjacent columns
-        let newPosition: string;
-        if (!prevPos) {
-          // Moved to the beginning
-          newPosition = generatePositionBefore(nextPos || "a0");
-        } else if (!nextPos) {
-          // Moved to the end
-          newPosition = generatePositionAfter(prevPos);
-        } else {
-          // Moved between two columns
-          newPosition = generatePositionBetween(prevPos, nextPos);
+        const newPosition = keyBetweenNeighbours(prevPos, nextPos);
+        if (!newPosition) {
+          // Put the column back; the server never hears of the move
+          const reference =
+            el.children[evt.oldIndex + (evt.oldIndex > movedIndex ? 1 : 0)];
+          el.insertBefore(evt.item, reference ?? null);
+          return;
         }
 
         // Store position data for server
@@ -254,50 +270,138 @@ const ColumnReorderHook = {
   },
 };
 
-// Position generation helpers
-function generatePositionBefore(position: string): string {
-  const firstChar = position.charAt(0);
-  if (firstChar > "a") {
-    return String.fromCharCode(firstChar.charCodeAt(0) - 1) + "5";
-  }
-  return "0" + position;
-}
-
-function generatePositionAfter(position: string): string {
-  const lastChar = position.charAt(position.length - 1);
-  if (lastChar >= "0" && lastChar <= "8") {
-    return (
-      position.slice(0, -1) + String.fromCharCode(lastChar.charCodeAt(0) + 1)
-    );
-  } else if (lastChar === "9") {
-    return position + "0";
-  } else if (lastChar >= "a" && lastChar <= "y") {
-    return (
-      position.slice(0, -1) + String.fromCharCode(lastChar.charCodeAt(0) + 1)
+// Marks server-rendered overlays (modals, settings panels) as a shortcut
+// context, e.g. `phx-hook="ShortcutContext" data-shortcut-context="modal"`
+const ShortcutContextHook = {
+  mounted(this: any) {
+    this.leaveContext = shortcuts.enterContext(
+      this.el.dataset.shortcutContext,
     );
-  } else if (lastChar === "z") {
-    return position + "a";
-  }
-  return position + "0";
-}
+  },
+
+  destroyed(this: any) {
+    this.leaveContext?.();
+  },
+};
 
-function generatePositionBetween(before: string, after: string): string {
-  const maxLen = Math.max(before.length, after.length);
-  const beforePadded = before.padEnd(maxLen, "0");
-  const afterPadded = after.padEnd(maxLen, "0");
+// This tab's part among the tabs that have the board open, see
+// lib/tabCoordinator.ts. Mounted once per board page.
+//
+// The leader tab plays the board's sounds and shows its desktop
+// notifications: for the effects of hooks (`play_sound`, `notify`), and for
+// each `board_event` with what the board settings picked for it (see
+// lib/sounds.ts and lib/notifications.ts). With tab sync on, the open task,
+// panel fullscreen and filter follow the other tabs; the hook element carries
+// them as data attributes.
+const BoardTabHook = {
+  mounted(this: any) {
+    const boardId: string = this.el.dataset.boardId;
+    const openTask = (taskId: string) =>
+      this.pushEvent("select_task", { taskId });
+    const notify = (notification: TaskNotification | null) => {
+      // The user is looking at the board in another tab
+      if (!notification || tabs.peerFocused()) return;
+      desktopNotifier.notify(notification, () => openTask(notification.taskId));
+    };
 
-  let result = "";
-  for (let i = 0; i < maxLen; i++) {
-    const b = beforePadded.charCodeAt(i);
-    const a = afterPadded.charCodeAt(i);
-    result += String.fromCharCode(Math.floor((b + a) / 2));
-  }
+    tabs.join(boardId);
+    this.state = this.readState();
 
-  if (result === before || result === after) {
-    return before + "5";
-  }
-  return result;
-}
+    // Pages restored from the back-forward cache left the board on pagehide
+    this.onPageShow = (event: PageTransitionEvent) => {
+      if (event.persisted) tabs.join(boardId);
+    };
+    window.addEventListener("pageshow", this.onPageShow);
+
+    this.handleEvent("hook_executed", (payload: any) => {
+      const { play_sound: sound, notify: effect } = payload.effects ?? {};
+      // Previews from the column settings are sent to this tab alone
+      if (sound?.preview) {
+        void soundEngine.play(sound.sound, { preview: true });
+        return;
+      }
+      if (!tabs.isLeader()) return;
+
+      if (sound) void soundEngine.play(sound.sound);
+      if (effect && payload.task_id) {
+        notify(
+          effectNotification(
+            loadNotificationSettings(),
+            boardId,
+            payload.task_id,
+            effect,
+          ),
+        );
+      }
+    });
+
+    this.handleEvent("board_event", (payload: BoardEvent) => {
+      if (!tabs.isLeader()) return;
+
+      if (isSoundEvent(payload.event)) {
+        void soundEngine.playEvent(boardId, payload.event);
+      }
+      notify(eventNotification(loadNotificationSettings(), boardId, payload));
+    });
+
+    // What the other tabs changed. Applying it updates the data attributes
+    // to the same value, so it isn't sent back.
+    this.unsubscribe = [
+      tabs.subscribe("selected_task", (taskId) => {
+        if (taskId === this.state.selectedTaskId) return;
+        this.state.selectedTaskId = taskId;
+        if (typeof taskId === "string") openTask(taskId);
+        else this.pushEvent("close_task_details", {});
+      }),
+      tabs.subscribe("fullscreen", (fullscreen) => {
+        if (fullscreen === this.state.fullscreen) return;
+        this.state.fullscreen = fullscreen;
+        this.pushEvent("toggle_fullscreen", {});
+      }),
+      tabs.subscribe("search_query", (query) => {
+        if (typeof query !== "string" || query === this.state.searchQuery) {
+          return;
+        }
+        this.state.searchQuery = query;
+        this.pushEvent("update_search", { value: query });
+      }),
+    ];
+  },
+
+  updated(this: any) {
+    const state = this.readState();
+    if (state.selectedTaskId !== this.state.selectedTaskId) {
+      tabs.publish("selected_task", state.selectedTaskId);
+    }
+    if (state.fullscreen !== this.state.fullscreen) {
+      tabs.publish("fullscreen", state.fullscreen);
+    }
+    if (state.searchQuery !== this.state.searchQuery) {
+      tabs.publish("search_query", state.searchQuery);
+    }
+    this.state = state;
+  },
+
+  readState(this: any) {
+    return {
+      selectedTaskId: this.el.dataset.selectedTaskId ?? null,
+      fullscreen: this.el.dataset.fullscreen === "true",
+      searchQuery: this.el.dataset.searchQuery ?? "",
+    };
+  },
+
+  destroyed(this: any) {
+    for (const unsubscribe of this.unsubscribe ?? []) unsubscribe();
+    window.removeEventListener("pageshow", this.onPageShow);
+    tabs.leave();
+  },
+};
+
+// Peers learn right away which tab the user is looking at
+window.addEventListener("focus", () => tabs.announce());
+window.addEventListener("blur", () => tabs.announce());
+// Hands leadership over as the tab closes, not after its heartbeat times out
+window.addEventListener("pagehide", () => tabs.leave());
 
 // Configure topbar
 topbar.config({ barColors: { 0: "#29d" }, shadowColor: "rgba(0, 0, 0, .3)" });
@@ -343,73 +447,67 @@ const liveSocket = new LiveSocket("/live", Socket, {
   hooks: {
     VueHook,
     ColumnReorder: ColumnReorderHook,
+    ShortcutContext: ShortcutContextHook,
+    BoardTab: BoardTabHook,
   },
 });
 
 // Connect if there are any LiveViews on the page
 liveSocket.connect();
 
-// Keyboard shortcuts handler
-document.addEventListener("keydown", (e: KeyboardEvent) => {
-  const target = e.target as HTMLElement;
-  const tagName = target.tagName.toLowerCase();
-  const isEditable =
-    tagName === "input" || tagName === "textarea" || target.isContentEditable;
-
-  // Allow Escape to work even in editable elements
-  if (e.key === "Escape") {
-    const escapeBtn = document.querySelector(
-      "[data-keyboard-escape]",
-    ) as HTMLButtonElement;
-    if (escapeBtn) {
-      escapeBtn.click();
-      return;
-    }
-  }
-
-  // Don't handle other shortcuts when typing in inputs
-  if (isEditable) return;
-
-  // ? or Shift+/ - Show keyboard shortcuts
-  if (e.key === "?" || (e.key === "/" && e.shiftKey)) {
-    e.preventDefault();
-    const helpBtn = document.querySelector(
-      "[data-keyboard-help]",
-    ) as HTMLButtonElement;
-    if (helpBtn) helpBtn.click();
-    return;
-  }
+// Keyboard shortcuts. Board-level actions click server-rendered
+// `data-keyboard-*` targets; components register their own while mounted.
+function clickKeyboardTarget(name: string): void | false {
+  const target = document.querySelector(
+    `[data-keyboard-${name}]`,
+  ) as HTMLElement | null;
+  if (!target) return false;
+  target.click();
+}
 
-  // / - Focus search
-  if (e.key === "/") {
-    e.preventDefault();
-    const searchInput = document.querySelector(
-      "[data-keyboard-search]",
-    ) as HTMLInputElement;
-    if (searchInput) searchInput.focus();
-    return;
-  }
+shortcuts.registerAll([
+  {
+    keys: "escape",
+    context: "global",
+    description: "Close panel/modal",
+    allowInInput: true,
+    handler: () => clickKeyboardTarget("escape"),
+  },
+  {
+    keys: "g b",
+    context: "global",
+    description: "Go to boards",
+    handler: () => clickKeyboardTarget("home"),
+  },
+  {
+    keys: "/",
+    context: "board",
+    description: "Focus search",
+    handler: () => {
+      const searchInput = document.querySelector(
+        "[data-keyboard-search]",
+      ) as HTMLInputElement | null;
+      if (!searchInput) return false;
+      searchInput.focus();
+    },
+  },
+  {
+    keys: ",",
+    context: "board",
+    description: "Open board settings",
+    handler: () => clickKeyboardTarget("settings"),
+  },
+  {
+    keys: "n",
+    context: "board",
+    description: "Create new task",
+    handler: () => clickKeyboardTarget("new-task"),
+  },
+]);
 
-  // , - Open settings
-  if (e.key === ",") {
-    e.preventDefault();
-    const settingsBtn = document.querySelector(
-      "[data-keyboard-settings]",
-    ) as HTMLButtonElement;
-    if (settingsBtn) settingsBtn.click();
-    return;
-  }
+shortcuts.listen(document);
 
-  // n - New task
-  if (e.key === "n") {
-    e.preventDefault();
-    const newTaskBtn = document.querySelector(
-      "[data-keyboard-new-task]",
-    ) as HTMLButtonElement;
-    if (newTaskBtn) newTaskBtn.click();
-    return;
-  }
-});
+window.addEventListener("viban:toggle-shortcuts", () => shortcuts.toggleHelp());
 
 // Expose for debugging
 declare global {
@@ -419,6 +517,7 @@ declare global {
       playSound: typeof playSound;
       initializeAudio: typeof initializeAudio;
       topbar: typeof topbar;
+      shortcuts: typeof shortcuts;
     };
   }
 }
@@ -428,4 +527,5 @@ window.Viban = {
   playSound,
   initializeAudio,
   topbar,
+  shortcuts,
 };
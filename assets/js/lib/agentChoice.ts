@@ -0,0 +1,105 @@
+// Which agent runs a task's chat messages.
+//
+// The server sends the registered executors (Viban.Executors.Registry) with
+// whether their CLI is installed; the composer picks an executor, a model
+// and a mode and sends them with `send_message`. The last choice is
+// remembered per task in localStorage; until there is one, the executor set
+// in the task's settings is preferred.
+
+import { isRecord, readJson, writeJson } from "./storage";
+
+export interface ExecutorInfo {
+  name: string;
+  type: string;
+  available: boolean;
+  capabilities: string[];
+  models: string[];
+}
+
+// "plan" asks the agent for a plan without changing files
+export type AgentMode = "execute" | "plan";
+
+export interface AgentChoice {
+  executor: string;
+  // null for the executor's default model
+  model: string | null;
+  mode: AgentMode;
+}
+
+const STORAGE_KEY = "viban:agent-choices";
+// Tasks to remember a choice for, most recently used first
+const STORAGE_LIMIT = 200;
+
+export function supportsPlanMode(executor: ExecutorInfo | undefined): boolean {
+  return executor?.capabilities.includes("plan_mode") ?? false;
+}
+
+// The preferred executor, or else the first installed one, with its defaults
+export function defaultChoice(
+  executors: ExecutorInfo[],
+  preferred?: string | null,
+): AgentChoice {
+  const executor =
+    executors.find((e) => e.type === preferred && e.available) ??
+    executors.find((e) => e.available) ??
+    executors[0];
+  return {
+    executor: executor?.type ?? "claude_code",
+    model: null,
+    mode: "execute",
+  };
+}
+
+// `choice` with anything the executors no longer offer replaced by defaults,
+// e.g. a remembered executor that has since been uninstalled
+export function normalizeChoice(
+  choice: Partial<AgentChoice> | null | undefined,
+  executors: ExecutorInfo[],
+  preferred?: string | null,
+): AgentChoice {
+  const executor = executors.find(
+    (e) => e.type === choice?.executor && e.available,
+  );
+  if (!executor) return defaultChoice(executors, preferred);
+
+  const model =
+    choice?.model && executor.models.includes(choice.model)
+      ? choice.model
+      : null;
+  const mode =
+    choice?.mode === "plan" && supportsPlanMode(executor) ? "plan" : "execute";
+  return { executor: executor.type, model, mode };
+}
+
+// Stored choices are checked field by field by `normalizeChoice`
+type StoredChoice = [taskId: string, choice: Partial<AgentChoice>];
+
+function isStoredChoice(entry: unknown): entry is StoredChoice {
+  return (
+    Array.isArray(entry) &&
+    entry.length === 2 &&
+    typeof entry[0] === "string" &&
+    isRecord(entry[1])
+  );
+}
+
+function loadStored(): StoredChoice[] {
+  const stored = readJson(STORAGE_KEY);
+  return Array.isArray(stored) ? stored.filter(isStoredChoice) : [];
+}
+
+export function loadChoice(
+  taskId: string,
+  executors: ExecutorInfo[],
+  preferred?: string | null,
+): AgentChoice {
+  const entry = loadStored().find(([id]) => id === taskId);
+  return normalizeChoice(entry?.[1], executors, preferred);
+}
+
+export function saveChoice(taskId: string, choice: AgentChoice): void {
+  const stored = loadStored().filter(([id]) => id !== taskId);
+  stored.unshift([taskId, choice]);
+
+  writeJson(STORAGE_KEY, stored.slice(0, STORAGE_LIMIT));
+}
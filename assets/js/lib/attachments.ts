@@ -0,0 +1,96 @@
+// Files attached to task chat messages.
+//
+// The composer uploads each file as soon as it is added (POST
+// /api/tasks/:task_id/attachments, see VibanWeb.TaskController) and sends
+// only the returned ids with `send_message`. The server stores the resolved
+// attachments in the message's `metadata.attachments`.
+
+export interface Attachment {
+  id: string;
+  name: string;
+  content_type: string;
+  size: number;
+  url: string;
+}
+
+// Plug.Parsers' default multipart limit
+export const MAX_ATTACHMENT_BYTES = 8_000_000;
+
+export class UploadError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "UploadError";
+  }
+}
+
+export interface Upload {
+  promise: Promise<Attachment>;
+  abort(): void;
+}
+
+// Uploads `file`, reporting progress as a fraction. XHR rather than fetch,
+// which has no upload progress.
+export function uploadAttachment(
+  taskId: string,
+  file: File,
+  onProgress: (fraction: number) => void,
+): Upload {
+  const xhr = new XMLHttpRequest();
+
+  const promise = new Promise<Attachment>((resolve, reject) => {
+    if (file.size > MAX_ATTACHMENT_BYTES) {
+      const limit = formatBytes(MAX_ATTACHMENT_BYTES);
+      reject(new UploadError(`Larger than ${limit}`));
+      return;
+    }
+
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) onProgress(event.loaded / event.total);
+    };
+    xhr.onload = () => {
+      const body = parseJson(xhr.responseText);
+      if (xhr.status >= 200 && xhr.status < 300 && body?.attachment) {
+        resolve(body.attachment as Attachment);
+      } else {
+        const message = body?.error ?? `Upload failed (${xhr.status})`;
+        reject(new UploadError(message));
+      }
+    };
+    xhr.onerror = () => reject(new UploadError("Upload failed"));
+    xhr.onabort = () => reject(new UploadError("Upload cancelled"));
+
+    const form = new FormData();
+    form.append("file", file);
+    xhr.open("POST", `/api/tasks/${encodeURIComponent(taskId)}/attachments`);
+    xhr.send(form);
+  });
+
+  return { promise, abort: () => xhr.abort() };
+}
+
+function parseJson(text: string): Record<string, any> | null {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+}
+
+export function isImage(attachment: { content_type: string }): boolean {
+  return attachment.content_type.startsWith("image/");
+}
+
+// Attachments of an activity item, tolerating metadata from before
+// attachments existed
+export function messageAttachments(
+  metadata: Record<string, unknown> | null | undefined,
+): Attachment[] {
+  const attachments = metadata?.attachments;
+  return Array.isArray(attachments) ? (attachments as Attachment[]) : [];
+}
+
+export function formatBytes(bytes: number): string {
+  if (bytes < 1000) return `${bytes} B`;
+  if (bytes < 1_000_000) return `${Math.round(bytes / 1000)} KB`;
+  return `${(bytes / 1_000_000).toFixed(1)} MB`;
+}
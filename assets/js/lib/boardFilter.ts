@@ -0,0 +1,168 @@
+// Board filter query language.
+//
+// A query is a list of space-separated terms that must all match:
+//
+//   status:error        agent status (idle, thinking, executing, error)
+//   pr:open             PR status (open, draft, merged, closed, none)
+//   branch:feat/*       worktree branch; `*` is a wildcard, otherwise a
+//                       substring match
+//   has:worktree        has:worktree, has:pr, has:branch, has:description
+//   is:parent           is:parent, is:subtask
+//   login bug           free text, matched against title, description and
+//                       branch
+//
+// Values can be combined with commas (`status:error,thinking` matches
+// either), a leading `-` negates a term (`-pr:merged`) and double quotes
+// keep spaces in free text (`"login bug"`). Unknown qualifiers are treated
+// as free text.
+
+import type { Task } from "../types/domain";
+
+export type FilterableTask = Pick<
+  Task,
+  | "title"
+  | "description"
+  | "worktree_path"
+  | "worktree_branch"
+  | "agent_status"
+  | "pr_status"
+  | "pr_url"
+  | "is_parent"
+  | "parent_task_id"
+>;
+
+export type FilterKey = "status" | "pr" | "branch" | "has" | "is";
+
+export type FilterTerm =
+  | { kind: "qualifier"; key: FilterKey; values: string[]; negated: boolean }
+  | { kind: "text"; text: string; negated: boolean };
+
+export interface BoardFilter {
+  terms: FilterTerm[];
+}
+
+const FILTER_KEYS = new Set<string>(["status", "pr", "branch", "has", "is"]);
+
+// Splits on whitespace, keeping double-quoted runs together
+function tokenize(query: string): string[] {
+  return query.match(/-?(?:\w+:)?"[^"]*"?|\S+/g) ?? [];
+}
+
+function unquote(value: string): string {
+  return value.replace(/^"|"$/g, "");
+}
+
+export function parseFilter(query: string): BoardFilter {
+  const terms = tokenize(query).flatMap((token): FilterTerm[] => {
+    const negated = token.startsWith("-") && token.length > 1;
+    const body = negated ? token.slice(1) : token;
+    const separator = body.indexOf(":");
+
+    if (separator > 0) {
+      const key = body.slice(0, separator).toLowerCase();
+      const values = unquote(body.slice(separator + 1))
+        .toLowerCase()
+        .split(",")
+        .filter(Boolean);
+
+      if (FILTER_KEYS.has(key)) {
+        // A bare `status:` while typing filters nothing yet
+        if (values.length === 0) return [];
+        return [{ kind: "qualifier", key: key as FilterKey, values, negated }];
+      }
+    }
+
+    const text = unquote(body).toLowerCase();
+    return text ? [{ kind: "text", text, negated }] : [];
+  });
+
+  return { terms };
+}
+
+export function isFilterActive(filter: BoardFilter): boolean {
+  return filter.terms.length > 0;
+}
+
+function globToRegExp(glob: string): RegExp {
+  const pattern = glob
+    .split("*")
+    .map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&"))
+    .join(".*");
+  return new RegExp(`^${pattern}$`, "i");
+}
+
+function matchesBranch(branch: string | null, value: string): boolean {
+  if (!branch) return false;
+  return value.includes("*")
+    ? globToRegExp(value).test(branch)
+    : branch.toLowerCase().includes(value);
+}
+
+function matchesValue(task: FilterableTask, key: FilterKey, value: string) {
+  switch (key) {
+    case "status":
+      return (task.agent_status ?? "idle") === value;
+    case "pr":
+      return (task.pr_url ? task.pr_status : "none") === value;
+    case "branch":
+      return matchesBranch(task.worktree_branch, value);
+    case "has":
+      if (value === "worktree") return !!task.worktree_path;
+      if (value === "pr") return !!task.pr_url;
+      if (value === "branch") return !!task.worktree_branch;
+      if (value === "description") return !!task.description;
+      return false;
+    case "is":
+      if (value === "parent") return !!task.is_parent;
+      if (value === "subtask") return !!task.parent_task_id;
+      return false;
+  }
+}
+
+function matchesText(task: FilterableTask, text: string): boolean {
+  return [task.title, task.description, task.worktree_branch].some(
+    (field) => !!field && field.toLowerCase().includes(text),
+  );
+}
+
+export function matchesFilter(
+  task: FilterableTask,
+  filter: BoardFilter,
+): boolean {
+  return filter.terms.every((term) => {
+    const matched =
+      term.kind === "text"
+        ? matchesText(task, term.text)
+        : term.values.some((value) => matchesValue(task, term.key, value));
+    return matched !== term.negated;
+  });
+}
+
+// Text worth highlighting on matching cards: free text, and the literal
+// parts of branch patterns
+export function highlightTerms(filter: BoardFilter): string[] {
+  return filter.terms.flatMap((term) => {
+    if (term.negated) return [];
+    if (term.kind === "text") return [term.text];
+    if (term.key !== "branch") return [];
+    return term.values.flatMap((value) => value.split("*")).filter(Boolean);
+  });
+}
+
+// Character indices in `text` covered by any of `terms`, for use with
+// `highlightSegments`
+export function termIndices(text: string, terms: string[]): number[] {
+  const haystack = text.toLowerCase();
+  const indices = new Set<number>();
+
+  for (const term of terms) {
+    if (!term) continue;
+    let from = haystack.indexOf(term);
+    while (from !== -1) {
+      for (let i = from; i < from + term.length; i++) indices.add(i);
+      from = haystack.indexOf(term, from + term.length);
+    }
+  }
+
+  return [...indices];
+}
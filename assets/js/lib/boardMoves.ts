@@ -0,0 +1,172 @@
+// Client-side view of task moves that the server has not confirmed yet.
+//
+// The board renders `applyPendingMoves(serverColumns, pendingMoves)`, so a
+// dragged card lands in its new slot immediately and snaps back on its own
+// when the move is dropped from the pending list after a rejection.
+
+import type { MoveTasksReply } from "./liveEvents";
+
+export interface MovableTask {
+  id: string;
+  column_id: string;
+  position: string;
+}
+
+export interface MovableColumn<T extends MovableTask> {
+  id: string;
+  tasks: T[];
+}
+
+export type PendingMoveStatus = "pending" | "confirmed";
+
+export interface PendingMove {
+  id: string;
+  taskId: string;
+  columnId: string;
+  prevTaskId: string | null;
+  nextTaskId: string | null;
+  position: string | null;
+  status: PendingMoveStatus;
+}
+
+export function generateMoveId(): string {
+  if (typeof crypto !== "undefined" && "randomUUID" in crypto) {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+}
+
+function insertionIndex<T extends MovableTask>(
+  tasks: T[],
+  move: PendingMove,
+): number {
+  if (move.position) {
+    const index = tasks.findIndex((task) => task.position > move.position!);
+    return index === -1 ? tasks.length : index;
+  }
+
+  if (move.nextTaskId) {
+    const index = tasks.findIndex((task) => task.id === move.nextTaskId);
+    if (index !== -1) return index;
+  }
+
+  if (move.prevTaskId) {
+    const index = tasks.findIndex((task) => task.id === move.prevTaskId);
+    if (index !== -1) return index + 1;
+  }
+
+  return tasks.length;
+}
+
+export function applyPendingMoves<
+  T extends MovableTask,
+  C extends MovableColumn<T>,
+>(columns: C[], moves: PendingMove[]): C[] {
+  if (moves.length === 0) return columns;
+
+  const movedIds = new Set(moves.map((move) => move.taskId));
+  const tasksById = new Map<string, T>();
+  for (const column of columns) {
+    for (const task of column.tasks) tasksById.set(task.id, task);
+  }
+
+  const result = columns.map((column) => ({
+    ...column,
+    tasks: column.tasks.filter((task) => !movedIds.has(task.id)),
+  }));
+
+  for (const move of moves) {
+    const task = tasksById.get(move.taskId);
+    const column = result.find((c) => c.id === move.columnId);
+    if (!task || !column) continue;
+
+    const moved: T = {
+      ...task,
+      column_id: move.columnId,
+      position: move.position ?? task.position,
+    };
+    column.tasks.splice(insertionIndex(column.tasks, move), 0, moved);
+  }
+
+  return result;
+}
+
+// A confirmed move is settled once the server props show the task where the
+// server said it put it; until then the optimistic copy keeps it in place.
+export function isMoveSettled<T extends MovableTask>(
+  columns: MovableColumn<T>[],
+  move: PendingMove,
+): boolean {
+  if (move.status !== "confirmed") return false;
+
+  const column = columns.find((c) => c.id === move.columnId);
+  const task = column?.tasks.find((t) => t.id === move.taskId);
+  return !!task && (!move.position || task.position === move.position);
+}
+
+// Resolves with `null` when `request` has not answered within `ms`, or
+// failed, e.g. because the LiveView disconnected
+export function replyWithin<R>(
+  request: Promise<R>,
+  ms: number,
+): Promise<R | null> {
+  const timeout = new Promise<null>((resolve) =>
+    setTimeout(() => resolve(null), ms),
+  );
+  return Promise.race([request.catch(() => null), timeout]);
+}
+
+export interface ResolvedMoves {
+  pending: PendingMove[];
+  // Why the server rejected a move, by task id
+  errors: Map<string, string>;
+}
+
+// The pending moves once the server answered `moves` (`reply` is `null` when
+// it did not answer in time). Rejected and timed-out moves are dropped, so the
+// card goes back to where the server has it; accepted ones stay as confirmed
+// until `columns` show them. Moves replaced by a later drag are left alone.
+export function resolveMoves<T extends MovableTask>(
+  pending: PendingMove[],
+  moves: PendingMove[],
+  reply: MoveTasksReply | null,
+  columns: MovableColumn<T>[],
+): ResolvedMoves {
+  const errors = new Map<string, string>();
+  const live = new Set(
+    moves
+      .filter((move) => pending.some((m) => m.id === move.id))
+      .map((move) => move.id),
+  );
+
+  if (!reply) {
+    return { pending: pending.filter((m) => !live.has(m.id)), errors };
+  }
+
+  const confirmedTasks = reply.tasks ?? (reply.task ? [reply.task] : []);
+  const confirmedById = new Map(confirmedTasks.map((t) => [t.id, t]));
+  const errorsById = new Map((reply.errors ?? []).map((e) => [e.id, e.error]));
+
+  const resolved = pending.flatMap((move): PendingMove[] => {
+    if (!live.has(move.id)) return [move];
+
+    const task = confirmedById.get(move.taskId);
+    if (!task) {
+      errors.set(
+        move.taskId,
+        errorsById.get(move.taskId) || reply.error || "Failed to move task",
+      );
+      return [];
+    }
+
+    const confirmed: PendingMove = {
+      ...move,
+      columnId: task.column_id,
+      position: task.position,
+      status: "confirmed",
+    };
+    return isMoveSettled(columns, confirmed) ? [] : [confirmed];
+  });
+
+  return { pending: resolved, errors };
+}
@@ -0,0 +1,95 @@
+import { fuzzyMatch } from "./fuzzy";
+import { readJson, writeJson } from "./storage";
+
+// Ranking and "recently used" bookkeeping for the command palette.
+
+export type CommandKind = "action" | "task" | "board";
+
+export interface Command {
+  // Stable across renders, used to remember recently run commands
+  id: string;
+  kind: CommandKind;
+  title: string;
+  subtitle?: string;
+  // Extra text the query is matched against (description, branch, ...)
+  keywords?: string[];
+  run: () => void;
+}
+
+export interface RankedCommand {
+  command: Command;
+  // Matched character indices in `command.title`
+  titleIndices: number[];
+}
+
+const RECENT_STORAGE_KEY = "viban:recent-commands";
+const RECENT_LIMIT = 20;
+
+// Secondary fields count for less than a title match
+const KEYWORD_WEIGHT = 0.5;
+
+const KIND_ORDER: Record<CommandKind, number> = {
+  action: 0,
+  task: 1,
+  board: 2,
+};
+
+export function loadRecentCommandIds(): string[] {
+  const stored = readJson(RECENT_STORAGE_KEY);
+  return Array.isArray(stored)
+    ? stored.filter((id) => typeof id === "string")
+    : [];
+}
+
+export function rememberCommand(id: string): string[] {
+  const recent = [id, ...loadRecentCommandIds().filter((r) => r !== id)].slice(
+    0,
+    RECENT_LIMIT,
+  );
+
+  writeJson(RECENT_STORAGE_KEY, recent);
+  return recent;
+}
+
+// Recently used commands that match come first, most recent first; the rest
+// are ordered by match score, then kind.
+export function rankCommands(
+  commands: Command[],
+  query: string,
+  recentIds: string[],
+  limit = 50,
+): RankedCommand[] {
+  const recentRank = new Map(recentIds.map((id, index) => [id, index]));
+
+  const matches = commands.flatMap((command) => {
+    const title = fuzzyMatch(query, command.title);
+    const keywordScore = Math.max(
+      -Infinity,
+      ...(command.keywords ?? []).map((keyword) => {
+        const match = keyword && fuzzyMatch(query, keyword);
+        return match ? match.score * KEYWORD_WEIGHT : -Infinity;
+      }),
+    );
+
+    if (!title && keywordScore === -Infinity) return [];
+
+    return [
+      {
+        command,
+        titleIndices: title?.indices ?? [],
+        score: Math.max(title?.score ?? -Infinity, keywordScore),
+        recent: recentRank.get(command.id) ?? recentIds.length,
+      },
+    ];
+  });
+
+  return matches
+    .sort(
+      (a, b) =>
+        a.recent - b.recent ||
+        b.score - a.score ||
+        KIND_ORDER[a.command.kind] - KIND_ORDER[b.command.kind],
+    )
+    .slice(0, limit)
+    .map(({ command, titleIndices }) => ({ command, titleIndices }));
+}
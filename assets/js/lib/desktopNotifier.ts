@@ -0,0 +1,144 @@
+// Shows the notifications of lib/notifications.ts with the browser's
+// Notification API while the tab isn't focused, and counts them in the tab
+// title and a favicon dot until the tab is focused again.
+
+import {
+  unreadTitle,
+  worstLevel,
+  type TaskNotification,
+  type UnreadLevel,
+} from "./notifications";
+
+export type NotificationPermissionState =
+  | NotificationPermission
+  | "unsupported";
+
+const DOT_COLORS: Record<UnreadLevel, string> = {
+  done: "#22c55e",
+  error: "#ef4444",
+};
+
+export class DesktopNotifier {
+  // The level of each unread task's notifications, by task id
+  private unread = new Map<string, UnreadLevel>();
+  private listening = false;
+  // The page's own favicon, put back once everything is read
+  private favicon: { link: HTMLLinkElement; href: string | null } | null =
+    null;
+
+  permission(): NotificationPermissionState {
+    return typeof Notification === "undefined"
+      ? "unsupported"
+      : Notification.permission;
+  }
+
+  async requestPermission(): Promise<NotificationPermissionState> {
+    if (typeof Notification === "undefined") return "unsupported";
+    return Notification.requestPermission();
+  }
+
+  // `onClick` runs when the notification is clicked, after focusing the tab
+  notify(notification: TaskNotification, onClick: () => void): void {
+    if (document.hasFocus()) return;
+
+    this.listen();
+    const previous = this.unread.get(notification.taskId);
+    this.unread.set(
+      notification.taskId,
+      previous === "error" ? previous : notification.level,
+    );
+    this.render();
+
+    if (this.permission() !== "granted") return;
+
+    const shown = new Notification(notification.title, {
+      body: notification.body,
+      // A task's latest notification replaces the ones before
+      tag: `task:${notification.taskId}`,
+    });
+    shown.onclick = () => {
+      window.focus();
+      shown.close();
+      onClick();
+    };
+  }
+
+  markRead(): void {
+    if (this.unread.size === 0) return;
+
+    this.unread.clear();
+    this.render();
+  }
+
+  private listen() {
+    if (this.listening) return;
+
+    this.listening = true;
+    window.addEventListener("focus", () => this.markRead());
+    document.addEventListener("visibilitychange", () => {
+      if (document.visibilityState === "visible" && document.hasFocus()) {
+        this.markRead();
+      }
+    });
+  }
+
+  private render() {
+    document.title = unreadTitle(document.title, this.unread.size);
+
+    const level = worstLevel(this.unread.values());
+    if (level) {
+      this.faviconLink().href = drawFavicon(DOT_COLORS[level]);
+    } else if (this.favicon) {
+      const { link, href } = this.favicon;
+      if (href === null) link.remove();
+      else link.href = href;
+      this.favicon = null;
+    }
+  }
+
+  private faviconLink(): HTMLLinkElement {
+    if (this.favicon) return this.favicon.link;
+
+    let link = document.querySelector<HTMLLinkElement>("link[rel~='icon']");
+    const href = link?.href ?? null;
+    if (!link) {
+      link = document.createElement("link");
+      link.rel = "icon";
+      document.head.appendChild(link);
+    }
+    this.favicon = { link, href };
+    return link;
+  }
+}
+
+// The app's "V" on a dark square, with a dot of `color` in the corner
+function drawFavicon(color: string): string {
+  const canvas = document.createElement("canvas");
+  canvas.width = 32;
+  canvas.height = 32;
+  const context = canvas.getContext("2d");
+  if (!context) return "";
+
+  context.fillStyle = "#1f2937";
+  context.beginPath();
+  context.roundRect(0, 0, 32, 32, 6);
+  context.fill();
+
+  context.fillStyle = "#ffffff";
+  context.font = "bold 22px sans-serif";
+  context.textAlign = "center";
+  context.textBaseline = "middle";
+  context.fillText("V", 14, 18);
+
+  context.fillStyle = color;
+  context.strokeStyle = "#030712";
+  context.lineWidth = 2;
+  context.beginPath();
+  context.arc(24, 8, 7, 0, Math.PI * 2);
+  context.fill();
+  context.stroke();
+
+  return canvas.toDataURL("image/png");
+}
+
+export const desktopNotifier = new DesktopNotifier();
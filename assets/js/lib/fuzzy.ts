@@ -0,0 +1,91 @@
+// Small fuzzy matcher for quick-open style searches.
+//
+// A query matches when its characters appear in order in the text (case
+// insensitive). Contiguous runs, matches at the start of words and matches
+// early in the text score higher. A plain substring always outranks a
+// scattered match of the same query.
+
+export interface FuzzyMatch {
+  score: number;
+  // Indices in `text` of the matched characters, for highlighting
+  indices: number[];
+}
+
+const SUBSTRING_BONUS = 100;
+const WORD_START_BONUS = 8;
+const CONSECUTIVE_BONUS = 5;
+const GAP_PENALTY = 1;
+
+function isWordStart(text: string, index: number): boolean {
+  if (index === 0) return true;
+  const prev = text[index - 1];
+  const char = text[index];
+  return (
+    /[\s\-_/.:#]/.test(prev) ||
+    (prev === prev.toLowerCase() && char !== char.toLowerCase())
+  );
+}
+
+export function fuzzyMatch(query: string, text: string): FuzzyMatch | null {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return { score: 0, indices: [] };
+
+  const haystack = text.toLowerCase();
+
+  const start = haystack.indexOf(needle);
+  if (start !== -1) {
+    const indices = Array.from({ length: needle.length }, (_, i) => start + i);
+    const score =
+      SUBSTRING_BONUS +
+      needle.length * CONSECUTIVE_BONUS +
+      (isWordStart(text, start) ? WORD_START_BONUS : 0) -
+      Math.min(start, 20);
+    return { score, indices };
+  }
+
+  const indices: number[] = [];
+  let score = 0;
+  let from = 0;
+
+  for (const char of needle) {
+    if (char === " ") continue;
+
+    const index = haystack.indexOf(char, from);
+    if (index === -1) return null;
+
+    const prev = indices[indices.length - 1];
+    if (prev !== undefined && index === prev + 1) {
+      score += CONSECUTIVE_BONUS;
+    } else if (prev !== undefined) {
+      score -= Math.min(index - prev - 1, 10) * GAP_PENALTY;
+    }
+    if (isWordStart(text, index)) score += WORD_START_BONUS;
+
+    score += 1;
+    indices.push(index);
+    from = index + 1;
+  }
+
+  return { score, indices };
+}
+
+// Splits `text` into runs of matched and unmatched characters
+export function highlightSegments(
+  text: string,
+  indices: number[],
+): { text: string; match: boolean }[] {
+  const matched = new Set(indices);
+  const segments: { text: string; match: boolean }[] = [];
+
+  for (let i = 0; i < text.length; i++) {
+    const match = matched.has(i);
+    const last = segments[segments.length - 1];
+    if (last && last.match === match) {
+      last.text += text[i];
+    } else {
+      segments.push({ text: text[i], match });
+    }
+  }
+
+  return segments;
+}
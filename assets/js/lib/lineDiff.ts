@@ -0,0 +1,215 @@
+// Line diffs for showing agent file edits inline and worktree changes in the
+// task panel.
+
+export interface DiffLine {
+  kind: "context" | "add" | "remove";
+  text: string;
+}
+
+export interface DiffHunk {
+  oldStart: number;
+  newStart: number;
+  lines: DiffLine[];
+}
+
+// Past this many cells in the LCS table the changed middle is shown as a
+// plain removal followed by an addition instead of a minimal diff.
+const MAX_LCS_CELLS = 250_000;
+
+function splitLines(text: string): string[] {
+  if (text === "") return [];
+  return text.replace(/\n$/, "").split("\n");
+}
+
+export function diffLines(oldText: string, newText: string): DiffLine[] {
+  const a = splitLines(oldText);
+  const b = splitLines(newText);
+
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) {
+    start++;
+  }
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const context = (text: string): DiffLine => ({ kind: "context", text });
+  return [
+    ...a.slice(0, start).map(context),
+    ...diffMiddle(a.slice(start, endA), b.slice(start, endB)),
+    ...a.slice(endA).map(context),
+  ];
+}
+
+function diffMiddle(a: string[], b: string[]): DiffLine[] {
+  const removed = a.map((text): DiffLine => ({ kind: "remove", text }));
+  const added = b.map((text): DiffLine => ({ kind: "add", text }));
+  if (a.length === 0 || b.length === 0 || a.length * b.length > MAX_LCS_CELLS) {
+    return [...removed, ...added];
+  }
+
+  // lengths[i][j] = LCS length of a[i..] and b[j..]
+  const lengths = Array.from({ length: a.length + 1 }, () =>
+    new Array<number>(b.length + 1).fill(0),
+  );
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] =
+        a[i] === b[j]
+          ? lengths[i + 1][j + 1] + 1
+          : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ kind: "context", text: a[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      lines.push(removed[i++]);
+    } else {
+      lines.push(added[j++]);
+    }
+  }
+  return [...lines, ...removed.slice(i), ...added.slice(j)];
+}
+
+// Groups a diff into unified-diff hunks, keeping `context` unchanged lines
+// around each change. Line numbers are 1-based.
+export function toHunks(lines: DiffLine[], context = 3): DiffHunk[] {
+  const hunks: DiffHunk[] = [];
+  let current: DiffHunk | null = null;
+  let trailing = 0;
+  let oldLine = 1;
+  let newLine = 1;
+
+  lines.forEach((line, index) => {
+    if (line.kind !== "context") {
+      if (!current) {
+        const lead = lines
+          .slice(Math.max(0, index - context), index)
+          .filter((l) => l.kind === "context");
+        current = {
+          oldStart: oldLine - lead.length,
+          newStart: newLine - lead.length,
+          lines: [...lead],
+        };
+        hunks.push(current);
+      }
+      current.lines.push(line);
+      trailing = 0;
+    } else if (current) {
+      const nextChange = lines
+        .slice(index + 1, index + 1 + context * 2 - trailing)
+        .some((l) => l.kind !== "context");
+      if (trailing < context || nextChange) {
+        current.lines.push(line);
+        trailing++;
+      } else {
+        current = null;
+      }
+    }
+
+    if (line.kind !== "add") oldLine++;
+    if (line.kind !== "remove") newLine++;
+  });
+
+  return hunks;
+}
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,\d+)? \+(\d+)(?:,\d+)? @@/;
+
+// Hunks of a unified diff as git prints it (`git diff` of one file). Binary
+// files have no hunks.
+export function parsePatch(patch: string): {
+  binary: boolean;
+  hunks: DiffHunk[];
+} {
+  const hunks: DiffHunk[] = [];
+  let binary = false;
+  let current: DiffHunk | null = null;
+
+  for (const line of patch.split("\n")) {
+    const header = HUNK_HEADER.exec(line);
+    if (header) {
+      current = {
+        oldStart: Number(header[1]),
+        newStart: Number(header[2]),
+        lines: [],
+      };
+      hunks.push(current);
+    } else if (!current) {
+      if (line.startsWith("Binary files ")) binary = true;
+    } else if (line.startsWith("+")) {
+      current.lines.push({ kind: "add", text: line.slice(1) });
+    } else if (line.startsWith("-")) {
+      current.lines.push({ kind: "remove", text: line.slice(1) });
+    } else if (line.startsWith(" ")) {
+      current.lines.push({ kind: "context", text: line.slice(1) });
+    }
+    // "\ No newline at end of file" and the trailing empty line are skipped
+  }
+
+  return { binary, hunks };
+}
+
+export interface NumberedLine extends DiffLine {
+  // Line number in the old and new file; null on the side the line isn't on
+  oldNumber: number | null;
+  newNumber: number | null;
+}
+
+export function numberLines(hunk: DiffHunk): NumberedLine[] {
+  let oldLine = hunk.oldStart;
+  let newLine = hunk.newStart;
+  return hunk.lines.map((line) => ({
+    ...line,
+    oldNumber: line.kind === "add" ? null : oldLine++,
+    newNumber: line.kind === "remove" ? null : newLine++,
+  }));
+}
+
+// A row of a side-by-side diff: the old file's line on the left, the new
+// file's on the right
+export interface SplitRow {
+  left: NumberedLine | null;
+  right: NumberedLine | null;
+}
+
+// Lays a hunk out side by side. Each run of removed lines is paired with the
+// added lines that follow it, so a changed line sits next to its new version.
+export function splitRows(hunk: DiffHunk): SplitRow[] {
+  const rows: SplitRow[] = [];
+  let removed: NumberedLine[] = [];
+  let added: NumberedLine[] = [];
+
+  const flush = () => {
+    for (let i = 0; i < Math.max(removed.length, added.length); i++) {
+      rows.push({ left: removed[i] ?? null, right: added[i] ?? null });
+    }
+    removed = [];
+    added = [];
+  };
+
+  for (const line of numberLines(hunk)) {
+    if (line.kind === "context") {
+      flush();
+      rows.push({ left: line, right: line });
+    } else if (line.kind === "remove") {
+      if (added.length > 0) flush();
+      removed.push(line);
+    } else {
+      added.push(line);
+    }
+  }
+  flush();
+
+  return rows;
+}
@@ -0,0 +1,248 @@
+// Contract between the Vue components mounted by VueHook and the LiveView's
+// `handle_event` clauses.
+//
+// Every event the server accepts from Vue is listed here with the shape of
+// its payload. Components declare the events they emit with `liveEmits`
+// (`defineEmits(liveEmits("select_task"))` gives them `emit("selectTask",
+// { taskId })`) and VueHook forwards each declared emit to the server event of
+// the same name in snake_case. Payload keys are camelCase on both sides.
+//
+// Events whose reply a component needs go through `useLiveView().pushEvent`,
+// which resolves with the typed reply, or rejects when none can come. In development both paths check
+// payloads against the schema and warn about mismatches.
+
+import type { TaskDiff } from "./worktreeDiff";
+
+export type FieldType = "string" | "string?" | "string[]" | "boolean";
+
+type Schema = Record<string, FieldType>;
+
+export const LIVE_EVENTS = {
+  select_task: { taskId: "string" },
+  close_task_details: {},
+  load_older_activity: {},
+  show_create_task_modal: { columnId: "string" },
+  move_task: {
+    taskId: "string",
+    columnId: "string",
+    prevTaskId: "string?",
+    nextTaskId: "string?",
+    position: "string?",
+    moveId: "string?",
+  },
+  bulk_move_tasks: {
+    taskIds: "string[]",
+    columnId: "string",
+    prevTaskId: "string?",
+    nextTaskId: "string?",
+  },
+  bulk_delete_tasks: { taskIds: "string[]" },
+  bulk_create_worktrees: { taskIds: "string[]" },
+  bulk_send_message: { taskIds: "string[]", message: "string" },
+  delete_task: { taskId: "string" },
+  duplicate_task: { taskId: "string" },
+  send_message: {
+    taskId: "string",
+    message: "string",
+    attachmentIds: "string[]",
+    // Omitted for the default executor, see lib/agentChoice.ts
+    executor: "string?",
+    model: "string?",
+    mode: "string?",
+  },
+  // `field` is "title" or "description"; `base` is the value the edit started
+  // from, see UpdateTaskReply
+  update_task: {
+    taskId: "string",
+    field: "string",
+    value: "string",
+    base: "string?",
+  },
+  update_queued_message: {
+    taskId: "string",
+    messageId: "string",
+    prompt: "string",
+  },
+  cancel_queued_message: { taskId: "string", messageId: "string" },
+  reorder_message_queue: { taskId: "string", messageIds: "string[]" },
+  stop_execution: { taskId: "string" },
+  // The task's full settings; `executor` is omitted for the default
+  update_task_settings: {
+    taskId: "string",
+    autoStart: "boolean",
+    customBranchName: "string?",
+    executor: "string?",
+    skippedHooks: "string[]",
+  },
+  create_subtask: { taskId: "string", title: "string" },
+  reorder_subtasks: { taskId: "string", subtaskIds: "string[]" },
+  generate_subtasks: { taskId: "string" },
+  select_variant: { taskId: "string" },
+  clear_error: { taskId: "string" },
+  create_worktree: { taskId: "string" },
+  load_task_diff: { taskId: "string" },
+  // `section` is a DiffSectionId, see lib/worktreeDiff.ts
+  load_task_file_diff: { taskId: "string", section: "string", path: "string" },
+  open_folder: { taskId: "string" },
+  open_in_editor: { taskId: "string" },
+  show_create_pr_modal: { taskId: "string" },
+  toggle_fullscreen: {},
+  toggle_hide_details: {},
+  open_settings: {},
+  open_column_settings: { columnId: "string" },
+} as const satisfies Record<string, Schema>;
+
+export type LiveEventName = keyof typeof LIVE_EVENTS;
+
+type FieldValue<T extends FieldType> = T extends "string[]"
+  ? string[]
+  : T extends "boolean"
+    ? boolean
+    : T extends "string?"
+      ? string | null
+      : string;
+
+type OptionalKeys<S> = {
+  [K in keyof S]: S[K] extends "string?" ? K : never;
+}[keyof S];
+
+type Payload<S extends Schema> = {
+  [K in Exclude<keyof S, OptionalKeys<S>>]: FieldValue<S[K]>;
+} & {
+  [K in OptionalKeys<S>]?: FieldValue<S[K]>;
+};
+
+export type LiveEventPayload<E extends LiveEventName> = Payload<
+  (typeof LIVE_EVENTS)[E]
+>;
+
+export interface MovedTask {
+  id: string;
+  column_id: string;
+  position: string;
+}
+
+// `move_task` replies with `task`, `bulk_move_tasks` with `tasks` + `errors`
+export interface MoveTasksReply {
+  ok: boolean;
+  error?: string;
+  task?: MovedTask;
+  tasks?: MovedTask[];
+  errors?: { id: string; error: string }[];
+}
+
+// `error` is "conflict" when the field no longer has the edit's `base`;
+// `current` is then its value on the server
+export interface UpdateTaskReply {
+  ok: boolean;
+  error?: string;
+  current?: string;
+}
+
+// `error` says why the diff couldn't be calculated
+export interface TaskDiffReply {
+  ok: boolean;
+  error?: string;
+  diff?: TaskDiff;
+}
+
+// `patch` is the file's `git diff` output
+export interface FileDiffReply {
+  ok: boolean;
+  error?: string;
+  patch?: string;
+}
+
+interface LiveEventReplies {
+  move_task: MoveTasksReply;
+  bulk_move_tasks: MoveTasksReply;
+  // Number of items prepended to the activity
+  load_older_activity: { count: number };
+  update_task: UpdateTaskReply;
+  load_task_diff: TaskDiffReply;
+  load_task_file_diff: FileDiffReply;
+}
+
+export type LiveEventReply<E extends LiveEventName> =
+  E extends keyof LiveEventReplies ? LiveEventReplies[E] : unknown;
+
+type CamelCase<S extends string> = S extends `${infer Head}_${infer Tail}`
+  ? `${Head}${Capitalize<CamelCase<Tail>>}`
+  : S;
+
+export type LiveEmitName<E extends LiveEventName> = CamelCase<E>;
+
+export function toEmitName(event: string): string {
+  return event.replace(/_([a-z])/g, (_, letter: string) =>
+    letter.toUpperCase(),
+  );
+}
+
+export function toEventName(emit: string): string {
+  return emit.replace(/[A-Z]/g, (letter) => `_${letter.toLowerCase()}`);
+}
+
+export function isLiveEvent(event: string): event is LiveEventName {
+  return Object.prototype.hasOwnProperty.call(LIVE_EVENTS, event);
+}
+
+function matchesField(value: unknown, type: FieldType): boolean {
+  switch (type) {
+    case "string":
+      return typeof value === "string";
+    case "string?":
+      return value === undefined || value === null || typeof value === "string";
+    case "string[]":
+      return Array.isArray(value) && value.every((v) => typeof v === "string");
+    case "boolean":
+      return typeof value === "boolean";
+  }
+}
+
+// Problems with `payload` as a payload of `event`; empty when it fits
+export function validatePayload(event: string, payload: unknown): string[] {
+  if (!isLiveEvent(event)) return [`unknown event "${event}"`];
+  if (payload === undefined) payload = {};
+  if (typeof payload !== "object" || payload === null) {
+    return [`${event}: payload must be an object`];
+  }
+
+  const schema: Schema = LIVE_EVENTS[event];
+  const fields = payload as Record<string, unknown>;
+  const problems = Object.entries(schema)
+    .filter(([key, type]) => !matchesField(fields[key], type))
+    .map(([key, type]) => `${event}: "${key}" should be ${type}`);
+
+  for (const key of Object.keys(fields)) {
+    if (!(key in schema)) problems.push(`${event}: unexpected "${key}"`);
+  }
+  return problems;
+}
+
+// Logs payload problems in development. Returns whether the payload fits, so
+// it doubles as a Vue emits validator.
+export function checkPayload(event: string, payload: unknown): boolean {
+  if (!import.meta.env.DEV) return true;
+
+  const problems = validatePayload(event, payload);
+  for (const problem of problems) console.warn(`[LiveVue] ${problem}`);
+  return problems.length === 0;
+}
+
+type EmitValidator<E extends LiveEventName> =
+  keyof (typeof LIVE_EVENTS)[E] extends never
+    ? (payload?: LiveEventPayload<E>) => boolean
+    : (payload: LiveEventPayload<E>) => boolean;
+
+// Runtime `emits` option for a component that emits the given events. Vue
+// runs the validators in development only.
+export function liveEmits<E extends LiveEventName>(
+  ...events: E[]
+): { [K in E as LiveEmitName<K>]: EmitValidator<K> } {
+  return Object.fromEntries(
+    events.map((event) => [
+      toEmitName(event),
+      (payload?: unknown) => checkPayload(event, payload),
+    ]),
+  ) as { [K in E as LiveEmitName<K>]: EmitValidator<K> };
+}
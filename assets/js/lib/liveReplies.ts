@@ -0,0 +1,113 @@
+// Replies to the events VueHook pushes for `useLiveView().pushEvent`.
+//
+// LiveView calls the reply callback only when the server answers, so a reply
+// that never comes (the socket dropped, the LiveView crashed or is slow)
+// would leave the caller waiting with its spinner on. Each reply is tracked
+// here instead: it fails when the LiveView disconnects, when the component
+// goes away, or after a timeout, and callers show the error.
+//
+// Slow events (git diffs) answer at once with `{ async: ref }` and push the
+// actual reply later as a "vue:reply" event, see LiveVue.reply_async/2 on the
+// server. Such a reply stays tracked until `receive` gets it.
+
+export const REPLY_TIMEOUT_MS = 30_000;
+
+export type NoReplyReason = "disconnected" | "timeout";
+
+export class NoReplyError extends Error {
+  readonly event: string;
+  readonly reason: NoReplyReason;
+
+  constructor(event: string, reason: NoReplyReason) {
+    super(
+      reason === "timeout"
+        ? "The server took too long to answer"
+        : "Lost the connection to the server",
+    );
+    this.name = "NoReplyError";
+    this.event = event;
+    this.reason = reason;
+  }
+}
+
+// What to show for a failed `pushEvent`
+export function replyErrorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : "Something went wrong";
+}
+
+// The "vue:reply" event carrying a reply the server sends later
+export interface AsyncReply {
+  ref: string;
+  reply: unknown;
+}
+
+// The answer of an event the server replies to later
+function asyncRef(reply: unknown): string | null {
+  if (typeof reply !== "object" || reply === null) return null;
+  const keys = Object.keys(reply);
+  const ref = (reply as { async?: unknown }).async;
+  return keys.length === 1 && typeof ref === "string" ? ref : null;
+}
+
+export class PendingReplies {
+  private connected = true;
+  private pending = new Set<(reason: NoReplyReason) => void>();
+  private deferred = new Map<string, (reply: unknown) => void>();
+
+  // Resolves with what `push` hands its reply callback. Fails right away
+  // while disconnected, since the event would not reach the server.
+  track<R>(
+    event: string,
+    push: (reply: (reply: R) => void) => void,
+    timeoutMs: number = REPLY_TIMEOUT_MS,
+  ): Promise<R> {
+    return new Promise<R>((resolve, reject) => {
+      if (!this.connected) {
+        reject(new NoReplyError(event, "disconnected"));
+        return;
+      }
+
+      const fail = (reason: NoReplyReason) => {
+        settle();
+        reject(new NoReplyError(event, reason));
+      };
+      const timer = setTimeout(() => fail("timeout"), timeoutMs);
+      let ref: string | null = null;
+      const settle = () => {
+        clearTimeout(timer);
+        this.pending.delete(fail);
+        if (ref !== null) this.deferred.delete(ref);
+      };
+      const done = (reply: R) => {
+        settle();
+        resolve(reply);
+      };
+
+      this.pending.add(fail);
+      push((reply) => {
+        ref = asyncRef(reply);
+        if (ref === null) done(reply);
+        else this.deferred.set(ref, done as (reply: unknown) => void);
+      });
+    });
+  }
+
+  // A reply pushed by the server for an event it answered with a ref
+  receive(ref: string, reply: unknown): void {
+    this.deferred.get(ref)?.(reply);
+  }
+
+  // The server process is gone, and with it every reply still owed
+  disconnected(): void {
+    this.connected = false;
+    this.failAll();
+  }
+
+  reconnected(): void {
+    this.connected = true;
+  }
+
+  failAll(): void {
+    for (const fail of [...this.pending]) fail("disconnected");
+  }
+}
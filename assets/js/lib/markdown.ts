@@ -0,0 +1,101 @@
+// Markdown rendering for activity feed messages and task descriptions.
+//
+// Content comes from users and agents, so the HTML marked produces is always
+// run through DOMPurify before it reaches `v-html`. Fenced code blocks are
+// highlighted with highlight.js and get a copy button; MarkdownContent
+// handles clicks on it.
+
+import DOMPurify from "dompurify";
+import hljs from "highlight.js/lib/core";
+import bash from "highlight.js/lib/languages/bash";
+import css from "highlight.js/lib/languages/css";
+import diff from "highlight.js/lib/languages/diff";
+import elixir from "highlight.js/lib/languages/elixir";
+import javascript from "highlight.js/lib/languages/javascript";
+import json from "highlight.js/lib/languages/json";
+import markdown from "highlight.js/lib/languages/markdown";
+import python from "highlight.js/lib/languages/python";
+import rust from "highlight.js/lib/languages/rust";
+import sql from "highlight.js/lib/languages/sql";
+import typescript from "highlight.js/lib/languages/typescript";
+import xml from "highlight.js/lib/languages/xml";
+import yaml from "highlight.js/lib/languages/yaml";
+import { Marked, type Tokens } from "marked";
+
+const LANGUAGES = {
+  bash,
+  css,
+  diff,
+  elixir,
+  javascript,
+  json,
+  markdown,
+  python,
+  rust,
+  sql,
+  typescript,
+  xml,
+  yaml,
+};
+
+for (const [name, language] of Object.entries(LANGUAGES)) {
+  hljs.registerLanguage(name, language);
+}
+
+export const COPY_ATTRIBUTE = "data-copy-code";
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+}
+
+// Highlighted HTML for `code`. Unknown or missing languages are left plain
+// rather than guessed, auto-detection is slow and often wrong on short
+// snippets.
+export function highlightCode(code: string, lang?: string): string {
+  const language = lang?.trim().split(/\s+/)[0].toLowerCase();
+  if (language && hljs.getLanguage(language)) {
+    return hljs.highlight(code, { language, ignoreIllegals: true }).value;
+  }
+  return escapeHtml(code);
+}
+
+const marked = new Marked({
+  gfm: true,
+  breaks: true,
+  renderer: {
+    code({ text, lang }: Tokens.Code): string {
+      const language = lang?.trim().split(/\s+/)[0] ?? "";
+      return (
+        '<div class="code-block">' +
+        '<div class="code-block-header">' +
+        `<span>${escapeHtml(language)}</span>` +
+        `<button type="button" ${COPY_ATTRIBUTE}>Copy</button>` +
+        "</div>" +
+        `<pre><code class="hljs">${highlightCode(text, language)}</code></pre>` +
+        "</div>"
+      );
+    },
+  },
+});
+
+// DOMPurify needs a DOM, without one (the node test environment) it has no
+// methods at all
+if (DOMPurify.isSupported) {
+  DOMPurify.addHook("afterSanitizeAttributes", (node) => {
+    if (node.tagName === "A" && node.hasAttribute("href")) {
+      node.setAttribute("target", "_blank");
+      node.setAttribute("rel", "noopener noreferrer");
+    }
+  });
+}
+
+// Sanitized HTML for `source`, safe to bind with `v-html`
+export function renderMarkdown(source: string): string {
+  const html = marked.parse(source, { async: false });
+  return DOMPurify.sanitize(html, { ADD_ATTR: ["target"] });
+}
@@ -0,0 +1,161 @@
+// Desktop notifications for board events, and the tab's unread badge.
+//
+// The LiveView pushes a `board_event` when something happens to a task (see
+// `push_board_events` in board_live.ex), and hooks can send a `notify` effect
+// along with their `hook_executed` event. Each board picks the events it
+// notifies about; the choice is per browser and kept in localStorage.
+// lib/desktopNotifier.ts shows them.
+
+import { isRecord, readJson, writeJson } from "./storage";
+
+export type NotifyEvent =
+  | "agent_finished"
+  | "agent_error"
+  | "moved_to_review"
+  | "hook_notify";
+
+export const NOTIFY_EVENTS: {
+  id: NotifyEvent;
+  label: string;
+  body: string;
+}[] = [
+  { id: "agent_finished", label: "Agent finished", body: "Agent finished" },
+  { id: "agent_error", label: "Agent failed", body: "Agent failed" },
+  {
+    id: "moved_to_review",
+    label: "Moved to To Review",
+    body: "Moved to To Review",
+  },
+  { id: "hook_notify", label: "Hook notifications", body: "" },
+];
+
+// What the favicon dot shows: the worst of the unread notifications
+export type UnreadLevel = "done" | "error";
+
+export interface BoardEvent {
+  event: string;
+  task_id: string;
+  task_title: string | null;
+}
+
+// The `notify` effect of a hook
+export interface NotifyEffect {
+  title: string;
+  body: string;
+  level?: UnreadLevel;
+}
+
+export interface TaskNotification {
+  taskId: string;
+  title: string;
+  body: string;
+  level: UnreadLevel;
+}
+
+export interface NotificationSettings {
+  // The events each board turned off or back on, by board id. Events a board
+  // didn't change notify.
+  boards: Record<string, Partial<Record<NotifyEvent, boolean>>>;
+}
+
+const STORAGE_KEY = "viban:notifications";
+
+export function isNotifyEvent(value: unknown): value is NotifyEvent {
+  return NOTIFY_EVENTS.some((e) => e.id === value);
+}
+
+export function notifies(
+  settings: NotificationSettings,
+  boardId: string,
+  event: NotifyEvent,
+): boolean {
+  return settings.boards[boardId]?.[event] ?? true;
+}
+
+export function setNotifies(
+  settings: NotificationSettings,
+  boardId: string,
+  event: NotifyEvent,
+  enabled: boolean,
+): NotificationSettings {
+  return {
+    boards: {
+      ...settings.boards,
+      [boardId]: { ...settings.boards[boardId], [event]: enabled },
+    },
+  };
+}
+
+// The notification for a board event, or null when the board doesn't want one
+export function eventNotification(
+  settings: NotificationSettings,
+  boardId: string,
+  payload: BoardEvent,
+): TaskNotification | null {
+  const event = NOTIFY_EVENTS.find((e) => e.id === payload.event);
+  if (!event || !notifies(settings, boardId, event.id)) return null;
+
+  return {
+    taskId: payload.task_id,
+    title: payload.task_title ?? "Task",
+    body: event.body,
+    level: event.id === "agent_error" ? "error" : "done",
+  };
+}
+
+// The notification for a hook's `notify` effect, or null when the board
+// doesn't want one
+export function effectNotification(
+  settings: NotificationSettings,
+  boardId: string,
+  taskId: string,
+  effect: NotifyEffect,
+): TaskNotification | null {
+  if (!notifies(settings, boardId, "hook_notify")) return null;
+
+  return {
+    taskId,
+    title: effect.title,
+    body: effect.body,
+    level: effect.level ?? "done",
+  };
+}
+
+// The page title with the unread count in front, e.g. "(3) Viban"
+export function unreadTitle(title: string, unread: number): string {
+  const base = title.replace(/^\(\d+\) /, "");
+  return unread > 0 ? `(${unread}) ${base}` : base;
+}
+
+export function worstLevel(levels: Iterable<UnreadLevel>): UnreadLevel | null {
+  let worst: UnreadLevel | null = null;
+  for (const level of levels) {
+    if (level === "error") return level;
+    worst = level;
+  }
+  return worst;
+}
+
+export function loadNotificationSettings(): NotificationSettings {
+  const stored = readJson(STORAGE_KEY);
+  const boards: NotificationSettings["boards"] = {};
+  if (!isRecord(stored) || !isRecord(stored.boards)) return { boards };
+
+  // Drops what isn't an event turned on or off, e.g. from an older version
+  for (const [boardId, events] of Object.entries(stored.boards)) {
+    if (!isRecord(events)) continue;
+
+    const picks: Partial<Record<NotifyEvent, boolean>> = {};
+    for (const [event, enabled] of Object.entries(events)) {
+      if (isNotifyEvent(event) && typeof enabled === "boolean") {
+        picks[event] = enabled;
+      }
+    }
+    boards[boardId] = picks;
+  }
+  return { boards };
+}
+
+export function saveNotificationSettings(settings: NotificationSettings): void {
+  writeJson(STORAGE_KEY, settings);
+}
@@ -0,0 +1,312 @@
+// Fractional-index ordering keys for columns and tasks.
+//
+// Keys follow the base-62 scheme used by the `fractional_index` package on the
+// server: an integer part whose length is encoded by its head character
+// ("a0", "a1", ..., "b10", ...) followed by an optional fraction without
+// trailing zeros. Keys sort with plain string comparison, appending or
+// prepending only increments/decrements the integer part (so keys stay short),
+// and bisecting two keys always yields a key strictly between them.
+//
+// Columns created by older versions of the board use bare positions such as
+// "A" or "E" that carry no integer part. Those are bisected directly as
+// fractions over the same alphabet, which keeps them ordered without having to
+// rewrite existing rows. A column that mixes both kinds gets an integer key
+// where one fits between the neighbours, and a bisected fraction otherwise.
+
+const DIGITS =
+  "0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz";
+const INTEGER_ZERO = "a0";
+const SMALLEST_INTEGER = "A" + "0".repeat(26);
+
+export class OrderingError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OrderingError";
+  }
+}
+
+function digitValue(char: string): number {
+  const value = DIGITS.indexOf(char);
+  if (value === -1) {
+    throw new OrderingError(`Invalid order key digit: ${char}`);
+  }
+  return value;
+}
+
+// Returns a fraction strictly between `a` and `b` (`null` meaning "one").
+function midpoint(a: string, b: string | null): string {
+  if (b !== null && a >= b) {
+    throw new OrderingError(`${a} >= ${b}`);
+  }
+  if (a.endsWith("0") || (b !== null && b.endsWith("0"))) {
+    throw new OrderingError("Fraction must not have trailing zeros");
+  }
+
+  if (b !== null) {
+    let shared = 0;
+    while ((a[shared] || "0") === b[shared]) shared++;
+    if (shared > 0) {
+      return b.slice(0, shared) + midpoint(a.slice(shared), b.slice(shared));
+    }
+  }
+
+  const digitA = a ? digitValue(a[0]) : 0;
+  const digitB = b !== null ? digitValue(b[0]) : DIGITS.length;
+
+  if (digitB - digitA > 1) {
+    return DIGITS[Math.round((digitA + digitB) / 2)];
+  }
+  if (b !== null && b.length > 1) {
+    return b.slice(0, 1);
+  }
+  return DIGITS[digitA] + midpoint(a.slice(1), null);
+}
+
+function integerLength(head: string): number {
+  if (head >= "a" && head <= "z") {
+    return head.charCodeAt(0) - "a".charCodeAt(0) + 2;
+  }
+  if (head >= "A" && head <= "Z") {
+    return "Z".charCodeAt(0) - head.charCodeAt(0) + 2;
+  }
+  throw new OrderingError(`Invalid order key head: ${head}`);
+}
+
+function integerPart(key: string): string {
+  const length = integerLength(key[0]);
+  if (length > key.length) {
+    throw new OrderingError(`Invalid order key: ${key}`);
+  }
+  return key.slice(0, length);
+}
+
+function incrementInteger(integer: string): string | null {
+  const head = integer[0];
+  const digits = integer.slice(1).split("");
+  let carry = true;
+
+  for (let i = digits.length - 1; carry && i >= 0; i--) {
+    const next = digitValue(digits[i]) + 1;
+    if (next === DIGITS.length) {
+      digits[i] = "0";
+    } else {
+      digits[i] = DIGITS[next];
+      carry = false;
+    }
+  }
+
+  if (!carry) return head + digits.join("");
+  if (head === "Z") return INTEGER_ZERO;
+  if (head === "z") return null;
+
+  const nextHead = String.fromCharCode(head.charCodeAt(0) + 1);
+  if (nextHead > "a") {
+    digits.push("0");
+  } else {
+    digits.pop();
+  }
+  return nextHead + digits.join("");
+}
+
+function decrementInteger(integer: string): string | null {
+  const head = integer[0];
+  const digits = integer.slice(1).split("");
+  let borrow = true;
+
+  for (let i = digits.length - 1; borrow && i >= 0; i--) {
+    const next = digitValue(digits[i]) - 1;
+    if (next === -1) {
+      digits[i] = DIGITS[DIGITS.length - 1];
+    } else {
+      digits[i] = DIGITS[next];
+      borrow = false;
+    }
+  }
+
+  if (!borrow) return head + digits.join("");
+  if (head === "a") return "Z" + DIGITS[DIGITS.length - 1];
+  if (head === "A") return null;
+
+  const nextHead = String.fromCharCode(head.charCodeAt(0) - 1);
+  if (nextHead < "Z") {
+    digits.push(DIGITS[DIGITS.length - 1]);
+  } else {
+    digits.pop();
+  }
+  return nextHead + digits.join("");
+}
+
+/**
+ * Whether `key` is a well-formed integer-prefixed order key.
+ */
+export function isValidKey(key: string): boolean {
+  if (!key || key === SMALLEST_INTEGER) return false;
+
+  try {
+    const integer = integerPart(key);
+    for (const char of key) digitValue(char);
+    return !key.slice(integer.length).endsWith("0");
+  } catch {
+    return false;
+  }
+}
+
+function assertFraction(key: string) {
+  for (const char of key) digitValue(char);
+  if (!key || key.endsWith("0")) {
+    throw new OrderingError(`Invalid order key: ${key}`);
+  }
+}
+
+// Bisects keys that have no integer part (legacy column positions).
+function fractionKeyBetween(a: string | null, b: string | null): string {
+  if (a !== null) assertFraction(a);
+  if (b !== null) assertFraction(b);
+  return midpoint(a ?? "", b);
+}
+
+// Trailing zeros add nothing to a key's place in the order: no key sorts
+// between "a1" and "a10".
+function trimZeros(key: string): string {
+  return key.replace(/0+$/, "");
+}
+
+function mixedKeyBetween(a: string | null, b: string | null): string {
+  const candidate = integerKeyBetween(
+    a !== null && isValidKey(a) ? a : null,
+    b !== null && isValidKey(b) ? b : null,
+  );
+  if ((a === null || a < candidate) && (b === null || candidate < b)) {
+    return candidate;
+  }
+  return fractionKeyBetween(
+    a === null ? null : trimZeros(a) || null,
+    b === null ? null : trimZeros(b),
+  );
+}
+
+function integerKeyBetween(a: string | null, b: string | null): string {
+  if (a === null) {
+    if (b === null) return INTEGER_ZERO;
+
+    const integerB = integerPart(b);
+    const fractionB = b.slice(integerB.length);
+    if (integerB === SMALLEST_INTEGER) {
+      return integerB + midpoint("", fractionB);
+    }
+    if (integerB < b) return integerB;
+
+    const decremented = decrementInteger(integerB);
+    if (decremented === null) {
+      throw new OrderingError("Cannot generate a key before the smallest key");
+    }
+    return decremented;
+  }
+
+  const integerA = integerPart(a);
+  const fractionA = a.slice(integerA.length);
+
+  if (b === null) {
+    const incremented = incrementInteger(integerA);
+    return incremented === null
+      ? integerA + midpoint(fractionA, null)
+      : incremented;
+  }
+
+  const integerB = integerPart(b);
+  const fractionB = b.slice(integerB.length);
+  if (integerA === integerB) {
+    return integerA + midpoint(fractionA, fractionB);
+  }
+
+  const incremented = incrementInteger(integerA);
+  if (incremented === null) {
+    throw new OrderingError("Cannot generate a key after the largest key");
+  }
+  if (incremented < b) return incremented;
+  return integerA + midpoint(fractionA, null);
+}
+
+/**
+ * Generates a key that sorts strictly between `a` and `b`.
+ *
+ * `null` stands for "start of list" (for `a`) or "end of list" (for `b`).
+ * Throws an `OrderingError` when the keys are malformed or `a >= b`.
+ */
+export function generateKeyBetween(
+  a: string | null,
+  b: string | null,
+): string {
+  if (a !== null && b !== null && a >= b) {
+    throw new OrderingError(`Keys out of order: ${a} >= ${b}`);
+  }
+
+  const neighbours = [a, b].filter((key): key is string => key !== null);
+  if (neighbours.every(isValidKey)) {
+    return integerKeyBetween(a, b);
+  }
+  if (neighbours.some(isValidKey)) {
+    return mixedKeyBetween(a, b);
+  }
+  return fractionKeyBetween(a, b);
+}
+
+/**
+ * Generates `n` ascending keys that all sort strictly between `a` and `b`.
+ *
+ * Used for bulk insertion, so that a group of items dropped into one slot
+ * keeps its relative order. Keys are spread by bisection to keep them short.
+ */
+export function generateNKeysBetween(
+  a: string | null,
+  b: string | null,
+  n: number,
+): string[] {
+  if (n <= 0) return [];
+  if (n === 1) return [generateKeyBetween(a, b)];
+
+  if (b === null) {
+    const keys: string[] = [];
+    let previous = a;
+    for (let i = 0; i < n; i++) {
+      previous = generateKeyBetween(previous, null);
+      keys.push(previous);
+    }
+    return keys;
+  }
+
+  if (a === null) {
+    const keys: string[] = [];
+    let next = b;
+    for (let i = 0; i < n; i++) {
+      next = generateKeyBetween(null, next);
+      keys.push(next);
+    }
+    return keys.reverse();
+  }
+
+  const middleIndex = Math.floor(n / 2);
+  const middle = generateKeyBetween(a, b);
+  return [
+    ...generateNKeysBetween(a, middle, middleIndex),
+    middle,
+    ...generateNKeysBetween(middle, b, n - middleIndex - 1),
+  ];
+}
+
+/**
+ * Key for an item placed between two neighbours whose positions may be
+ * missing (empty column, start/end of list) or stale (neighbours reordered
+ * concurrently). Returns `null` instead of throwing when no key can be made.
+ */
+export function keyBetweenNeighbours(
+  prev: string | null | undefined,
+  next: string | null | undefined,
+): string | null {
+  try {
+    return generateKeyBetween(prev || null, next || null);
+  } catch (err) {
+    console.warn("[Ordering] Cannot place item between", prev, next, err);
+    return null;
+  }
+}
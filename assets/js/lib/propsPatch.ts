@@ -0,0 +1,100 @@
+// Client side of the server-to-Vue props channel (see `VibanWeb.LiveVue`).
+//
+// The server pushes the ops that turn the props it last sent into the current
+// ones. They are applied in place to the hook's reactive store, so Vue only
+// re-renders what reads a changed value: a renamed task re-renders its card,
+// not the board.
+
+export type PatchPath = (string | number)[];
+
+export type PatchOp =
+  | { op: "replace"; path: PatchPath; value: unknown }
+  | { op: "remove"; path: PatchPath }
+  | {
+      op: "order";
+      path: PatchPath;
+      ids: string[];
+      added: Record<string, unknown>;
+    };
+
+export interface PropsPatch {
+  id: string;
+  ops: PatchOp[];
+}
+
+type Container = Record<string | number, unknown>;
+
+// Raised when the ops do not fit the props they are applied to, i.e. the
+// client missed an update. The hook then fetches a full snapshot.
+export class PatchError extends Error {
+  constructor(message: string, path: PatchPath) {
+    super(`${message} at /${path.join("/")}`);
+    this.name = "PatchError";
+  }
+}
+
+function isContainer(value: unknown): value is Container {
+  return typeof value === "object" && value !== null;
+}
+
+function resolve(root: Container, path: PatchPath): Container {
+  let target: unknown = root;
+  for (const segment of path) {
+    if (!isContainer(target) || !(segment in target)) {
+      throw new PatchError("Missing value", path);
+    }
+    target = target[segment];
+  }
+  if (!isContainer(target)) throw new PatchError("Not a container", path);
+  return target;
+}
+
+function replaceAll(target: Container, value: unknown) {
+  if (!isContainer(value)) throw new PatchError("Props must be a map", []);
+  for (const key of Object.keys(target)) {
+    if (!(key in value)) delete target[key];
+  }
+  Object.assign(target, value);
+}
+
+function reorder(list: unknown, op: Extract<PatchOp, { op: "order" }>) {
+  if (!Array.isArray(list)) throw new PatchError("Not a list", op.path);
+
+  const byId = new Map<unknown, unknown>(
+    list.map((item) => [isContainer(item) ? item.id : undefined, item]),
+  );
+  const items = op.ids.map((id) => {
+    const item = byId.get(id) ?? op.added[id];
+    if (item === undefined) throw new PatchError(`Unknown item ${id}`, op.path);
+    return item;
+  });
+
+  // Kept items stay the same (reactive) objects, so their components do not
+  // re-render just because the list around them changed
+  list.splice(0, list.length, ...items);
+}
+
+export function applyPatch(root: Container, ops: PatchOp[]) {
+  for (const op of ops) {
+    if (op.path.length === 0) {
+      if (op.op !== "replace") throw new PatchError("Invalid op", op.path);
+      replaceAll(root, op.value);
+      continue;
+    }
+
+    const parent = resolve(root, op.path.slice(0, -1));
+    const key = op.path[op.path.length - 1];
+
+    switch (op.op) {
+      case "replace":
+        parent[key] = op.value;
+        break;
+      case "remove":
+        delete parent[key];
+        break;
+      case "order":
+        reorder(parent[key], op);
+        break;
+    }
+  }
+}
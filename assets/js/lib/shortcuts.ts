@@ -0,0 +1,337 @@
+import { reactive } from "vue";
+
+// Context-aware keyboard shortcut registry.
+//
+// Shortcuts belong to a context. A context is active while something that
+// owns it is on screen (a modal, the task panel, the board); `global` is
+// always active. An open modal hides the task panel and board shortcuts
+// behind it. When several active shortcuts match the same keys, the one in
+// the more specific context wins, and among equals the most recently
+// registered one.
+//
+// Keys are written as space-separated strokes, each stroke being
+// `+`-joined modifiers and a key: "?", "n", "g b", "mod+k", "shift+arrowup".
+// `mod` is Cmd on macOS and Ctrl elsewhere.
+
+export type ShortcutContext = "modal" | "taskPanel" | "board" | "global";
+
+// Most specific first
+export const CONTEXT_PRIORITY: ShortcutContext[] = [
+  "modal",
+  "taskPanel",
+  "board",
+  "global",
+];
+
+export const CONTEXT_LABELS: Record<ShortcutContext, string> = {
+  modal: "Modal",
+  taskPanel: "Task Panel",
+  board: "Board",
+  global: "Global",
+};
+
+export interface ShortcutDefinition {
+  keys: string;
+  description: string;
+  context: ShortcutContext;
+  // Return `false` when the shortcut does not apply right now, so that a
+  // less specific shortcut for the same keys gets a chance.
+  handler: (event: KeyboardEvent) => void | false;
+  // Fire even while typing in an input, textarea or contenteditable
+  allowInInput?: boolean;
+  // Leave out of the help modal
+  hidden?: boolean;
+  // Shown in the help modal instead of the formatted keys, for shortcuts
+  // that stand for a family of keys ("1-9", "J / ↓")
+  label?: string;
+}
+
+export interface ShortcutInfo {
+  keys: string;
+  label: string;
+  description: string;
+  context: ShortcutContext;
+}
+
+interface Stroke {
+  key: string;
+  mod: boolean;
+  ctrl: boolean;
+  meta: boolean;
+  alt: boolean;
+  shift: boolean;
+}
+
+interface RegisteredShortcut extends ShortcutDefinition {
+  id: number;
+  sequence: Stroke[];
+}
+
+// Time allowed between the strokes of a chord such as "g b"
+const CHORD_TIMEOUT_MS = 1000;
+
+const MODIFIER_KEYS = new Set(["Shift", "Control", "Meta", "Alt", "CapsLock"]);
+
+const KEY_ALIASES: Record<string, string> = {
+  esc: "escape",
+  del: "delete",
+  space: " ",
+  up: "arrowup",
+  down: "arrowdown",
+  left: "arrowleft",
+  right: "arrowright",
+  return: "enter",
+};
+
+const KEY_LABELS: Record<string, string> = {
+  escape: "Esc",
+  enter: "Enter",
+  delete: "Del",
+  backspace: "Backspace",
+  tab: "Tab",
+  " ": "Space",
+  arrowup: "↑",
+  arrowdown: "↓",
+  arrowleft: "←",
+  arrowright: "→",
+};
+
+const isMac =
+  typeof navigator !== "undefined" && /Mac|iPhone|iPad/.test(navigator.platform);
+
+function parseStroke(stroke: string): Stroke {
+  const parts = stroke.toLowerCase().split("+");
+  const key = parts.pop() || "";
+  const modifiers = new Set(parts);
+
+  return {
+    key: KEY_ALIASES[key] ?? key,
+    mod: modifiers.has("mod"),
+    ctrl: modifiers.has("ctrl"),
+    meta: modifiers.has("meta") || modifiers.has("cmd"),
+    alt: modifiers.has("alt"),
+    shift: modifiers.has("shift"),
+  };
+}
+
+function parseKeys(keys: string): Stroke[] {
+  return keys.trim().split(/\s+/).map(parseStroke);
+}
+
+function strokeMatches(stroke: Stroke, event: KeyboardEvent): boolean {
+  if (event.key.toLowerCase() !== stroke.key) return false;
+  if (event.altKey !== stroke.alt) return false;
+
+  // Shift is part of printable symbols like "?", so only check it for
+  // letters and named keys
+  const isSymbol = stroke.key.length === 1 && !/[a-z0-9]/.test(stroke.key);
+  if (!isSymbol && event.shiftKey !== stroke.shift) return false;
+
+  if (stroke.mod) return event.metaKey || event.ctrlKey;
+  return event.metaKey === stroke.meta && event.ctrlKey === stroke.ctrl;
+}
+
+function isEditableTarget(target: EventTarget | null): boolean {
+  if (!(target instanceof HTMLElement)) return false;
+  const tagName = target.tagName.toLowerCase();
+  return (
+    tagName === "input" ||
+    tagName === "textarea" ||
+    tagName === "select" ||
+    target.isContentEditable
+  );
+}
+
+export function formatKeys(keys: string): string {
+  return parseKeys(keys)
+    .map((stroke) => {
+      const parts: string[] = [];
+      if (stroke.mod) parts.push(isMac ? "⌘" : "Ctrl");
+      if (stroke.ctrl) parts.push("Ctrl");
+      if (stroke.meta) parts.push("⌘");
+      if (stroke.alt) parts.push(isMac ? "⌥" : "Alt");
+      if (stroke.shift) parts.push("Shift");
+      parts.push(KEY_LABELS[stroke.key] ?? stroke.key.toUpperCase());
+      return parts.join(isMac ? "" : "+");
+    })
+    .join(" then ");
+}
+
+export class ShortcutManager {
+  private shortcuts: RegisteredShortcut[] = [];
+  private contextCounts = new Map<ShortcutContext, number>();
+  private pending: KeyboardEvent[] = [];
+  private pendingTimer: ReturnType<typeof setTimeout> | null = null;
+  private nextId = 1;
+
+  readonly state = reactive({
+    help: {
+      open: false,
+      context: "global" as ShortcutContext,
+      shortcuts: [] as ShortcutInfo[],
+    },
+  });
+
+  register(definition: ShortcutDefinition): () => void {
+    const shortcut: RegisteredShortcut = {
+      ...definition,
+      id: this.nextId++,
+      sequence: parseKeys(definition.keys),
+    };
+    this.shortcuts.push(shortcut);
+
+    return () => {
+      this.shortcuts = this.shortcuts.filter((s) => s.id !== shortcut.id);
+    };
+  }
+
+  registerAll(definitions: ShortcutDefinition[]): () => void {
+    const unregisters = definitions.map((d) => this.register(d));
+    return () => unregisters.forEach((unregister) => unregister());
+  }
+
+  enterContext(context: ShortcutContext): () => void {
+    this.contextCounts.set(context, (this.contextCounts.get(context) ?? 0) + 1);
+
+    let left = false;
+    return () => {
+      if (left) return;
+      left = true;
+      const count = (this.contextCounts.get(context) ?? 1) - 1;
+      this.contextCounts.set(context, count);
+    };
+  }
+
+  activeContexts(): ShortcutContext[] {
+    const isActive = (context: ShortcutContext) =>
+      context === "global" || (this.contextCounts.get(context) ?? 0) > 0;
+
+    if (isActive("modal")) return ["modal", "global"];
+    return CONTEXT_PRIORITY.filter(isActive);
+  }
+
+  currentContext(): ShortcutContext {
+    return this.activeContexts()[0];
+  }
+
+  // Shortcuts that would fire right now, most specific first. Shortcuts
+  // shadowed by a more specific one with the same keys are left out.
+  activeShortcuts(): ShortcutInfo[] {
+    const seen = new Set<string>();
+
+    return this.candidates(false)
+      .filter((shortcut) => {
+        const keys = shortcut.sequence.map((s) => JSON.stringify(s)).join(" ");
+        if (seen.has(keys)) return false;
+        seen.add(keys);
+        return !shortcut.hidden;
+      })
+      .map((shortcut) => ({
+        keys: shortcut.keys,
+        label: shortcut.label ?? formatKeys(shortcut.keys),
+        description: shortcut.description,
+        context: shortcut.context,
+      }));
+  }
+
+  openHelp() {
+    // Snapshot before the help modal itself becomes the current context
+    this.state.help.context = this.currentContext();
+    this.state.help.shortcuts = this.activeShortcuts();
+    this.state.help.open = true;
+  }
+
+  closeHelp() {
+    this.state.help.open = false;
+  }
+
+  toggleHelp() {
+    if (this.state.help.open) {
+      this.closeHelp();
+    } else {
+      this.openHelp();
+    }
+  }
+
+  handleKeydown(event: KeyboardEvent) {
+    if (event.defaultPrevented || MODIFIER_KEYS.has(event.key)) return;
+
+    const candidates = this.candidates(isEditableTarget(event.target));
+    let presses = [...this.pending, event];
+    let resolution = this.resolve(candidates, presses);
+
+    // A stroke that does not continue the pending chord starts over
+    if (!resolution && this.pending.length > 0) {
+      presses = [event];
+      resolution = this.resolve(candidates, presses);
+    }
+
+    this.clearPending();
+    if (!resolution) return;
+
+    if (resolution === "prefix") {
+      event.preventDefault();
+      this.pending = presses;
+      this.pendingTimer = setTimeout(
+        () => this.clearPending(),
+        CHORD_TIMEOUT_MS,
+      );
+      return;
+    }
+
+    for (const shortcut of resolution) {
+      if (shortcut.handler(event) !== false) {
+        event.preventDefault();
+        return;
+      }
+    }
+  }
+
+  listen(target: Document | HTMLElement = document): () => void {
+    const listener = (event: Event) =>
+      this.handleKeydown(event as KeyboardEvent);
+    target.addEventListener("keydown", listener);
+    return () => target.removeEventListener("keydown", listener);
+  }
+
+  private candidates(inInput: boolean): RegisteredShortcut[] {
+    const contexts = this.activeContexts();
+
+    return this.shortcuts
+      .filter((s) => contexts.includes(s.context))
+      .filter((s) => !inInput || s.allowInInput)
+      .sort(
+        (a, b) =>
+          contexts.indexOf(a.context) - contexts.indexOf(b.context) ||
+          b.id - a.id,
+      );
+  }
+
+  private resolve(
+    candidates: RegisteredShortcut[],
+    presses: KeyboardEvent[],
+  ): RegisteredShortcut[] | "prefix" | null {
+    const startsWith = (shortcut: RegisteredShortcut) =>
+      presses.every((press, i) =>
+        shortcut.sequence[i] ? strokeMatches(shortcut.sequence[i], press) : false,
+      );
+
+    const exact = candidates.filter(
+      (s) => s.sequence.length === presses.length && startsWith(s),
+    );
+    if (exact.length > 0) return exact;
+
+    const isPrefix = candidates.some(
+      (s) => s.sequence.length > presses.length && startsWith(s),
+    );
+    return isPrefix ? "prefix" : null;
+  }
+
+  private clearPending() {
+    if (this.pendingTimer) clearTimeout(this.pendingTimer);
+    this.pendingTimer = null;
+    this.pending = [];
+  }
+}
+
+export const shortcuts = new ShortcutManager();
@@ -0,0 +1,104 @@
+// Plays sounds through Web Audio; lib/sounds.ts has which sound plays when.
+//
+// Browsers only allow audio after a user gesture, so the AudioContext is
+// created by `unlock`, which app.ts calls on the first click or key press.
+// Each sound is fetched and decoded once.
+
+import {
+  canPlay,
+  findSound,
+  loadCustomSounds,
+  loadSoundSettings,
+  soundForEvent,
+  type SoundEvent,
+} from "./sounds";
+
+export class SoundEngine {
+  private context: AudioContext | null = null;
+  private buffers = new Map<string, Promise<AudioBuffer | null>>();
+
+  unlock(): boolean {
+    if (typeof AudioContext === "undefined") return false;
+
+    this.context ??= new AudioContext();
+    if (this.context.state === "suspended") void this.context.resume();
+    return true;
+  }
+
+  // Whether a user gesture unlocked the audio, so sounds can play
+  unlocked(): boolean {
+    return this.context !== null;
+  }
+
+  // Plays `soundId` at the master volume, unless muted or in the quiet
+  // hours. Previews play either way.
+  async play(soundId: string, { preview = false } = {}): Promise<boolean> {
+    const settings = loadSoundSettings();
+    if (!preview && !canPlay(settings, new Date())) return false;
+
+    // Until a user gesture unlocks the audio, sounds are skipped
+    const context = this.context;
+    if (!context) return false;
+
+    const buffer = await this.load(context, soundId);
+    if (!buffer) return false;
+
+    const source = context.createBufferSource();
+    const gain = context.createGain();
+    source.buffer = buffer;
+    gain.gain.value = settings.volume;
+    source.connect(gain).connect(context.destination);
+    source.start();
+    return true;
+  }
+
+  // Plays the sound the board picked for `event`, if any
+  playEvent(boardId: string, event: SoundEvent): Promise<boolean> {
+    const sound = soundForEvent(loadSoundSettings(), boardId, event);
+    return sound ? this.play(sound) : Promise.resolve(false);
+  }
+
+  // Whether the browser can play `data`, e.g. an upload
+  async canDecode(data: ArrayBuffer): Promise<boolean> {
+    if (!this.unlock() || !this.context) return false;
+
+    try {
+      await this.context.decodeAudioData(data.slice(0));
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  // Drops the decoded sound, for custom sounds that were removed
+  forget(soundId: string): void {
+    this.buffers.delete(soundId);
+  }
+
+  private load(
+    context: AudioContext,
+    soundId: string,
+  ): Promise<AudioBuffer | null> {
+    const cached = this.buffers.get(soundId);
+    if (cached) return cached;
+
+    const sound = findSound(soundId, loadCustomSounds());
+    if (!sound) {
+      console.warn("[Sounds] Unknown sound:", soundId);
+      return Promise.resolve(null);
+    }
+
+    const buffer = fetch(sound.url)
+      .then((response) => response.arrayBuffer())
+      .then((data) => context.decodeAudioData(data))
+      .catch((err) => {
+        console.warn("[Sounds] Failed to load sound:", soundId, err);
+        this.buffers.delete(soundId);
+        return null;
+      });
+    this.buffers.set(soundId, buffer);
+    return buffer;
+  }
+}
+
+export const soundEngine = new SoundEngine();
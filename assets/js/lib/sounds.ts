@@ -0,0 +1,266 @@
+// Sounds and the user's settings for them.
+//
+// Sounds play for board events (see SOUND_EVENTS) and for the `play_sound`
+// effect of the Play Sound column hook. The settings are per browser and kept
+// in localStorage: a master volume, mute, do-not-disturb hours and, per board,
+// the sound of each event. Users can add their own sounds, stored as data URLs
+// next to the settings. lib/soundEngine.ts plays them.
+
+import { isRecord, readJson, writeJson } from "./storage";
+
+export interface Sound {
+  id: string;
+  name: string;
+  url: string;
+}
+
+// Served from priv/static/sounds
+export const BUNDLED_SOUNDS: Sound[] = [
+  { id: "ding", name: "Ding", url: "/sounds/ding.wav" },
+  { id: "bell", name: "Bell", url: "/sounds/bell.wav" },
+  { id: "chime", name: "Chime", url: "/sounds/chime.wav" },
+  { id: "success", name: "Success", url: "/sounds/success.wav" },
+  {
+    id: "notification",
+    name: "Notification",
+    url: "/sounds/notification.wav",
+  },
+  { id: "woof", name: "Woof", url: "/sounds/woof.mp3" },
+  { id: "bark1", name: "Bark 1", url: "/sounds/bark1.mp3" },
+  { id: "bark2", name: "Bark 2", url: "/sounds/bark2.mp3" },
+  { id: "bark3", name: "Bark 3", url: "/sounds/bark3.mp3" },
+  { id: "bark4", name: "Bark 4", url: "/sounds/bark4.mp3" },
+  { id: "bark5", name: "Bark 5", url: "/sounds/bark5.mp3" },
+  { id: "bark6", name: "Bark 6", url: "/sounds/bark6.mp3" },
+];
+
+// The `board_event`s the LiveView pushes
+export type SoundEvent =
+  | "hook_completed"
+  | "hook_failed"
+  | "agent_error"
+  | "pr_merged";
+
+export const SOUND_EVENTS: {
+  id: SoundEvent;
+  label: string;
+  // Until the board picks one; null is silent
+  defaultSound: string | null;
+}[] = [
+  { id: "hook_completed", label: "Hook completed", defaultSound: null },
+  { id: "hook_failed", label: "Hook failed", defaultSound: "bell" },
+  { id: "agent_error", label: "Agent error", defaultSound: "notification" },
+  { id: "pr_merged", label: "PR merged", defaultSound: "success" },
+];
+
+export interface QuietHours {
+  enabled: boolean;
+  // "HH:MM", local time. An end before the start runs past midnight.
+  start: string;
+  end: string;
+}
+
+export interface SoundSettings {
+  // 0 to 1
+  volume: number;
+  muted: boolean;
+  quietHours: QuietHours;
+  // The sounds each board picked, by board id and event; null is silent.
+  // Events a board didn't pick play their default.
+  boards: Record<string, Partial<Record<SoundEvent, string | null>>>;
+}
+
+export const DEFAULT_SETTINGS: SoundSettings = {
+  volume: 0.8,
+  muted: false,
+  quietHours: { enabled: false, start: "22:00", end: "08:00" },
+  boards: {},
+};
+
+// A sound the user uploaded, with an id starting with "custom:"
+export type CustomSound = Sound;
+
+// localStorage holds about 5 MB per origin, shared with everything else
+export const MAX_CUSTOM_SOUND_BYTES = 300 * 1024;
+
+const SETTINGS_KEY = "viban:sounds";
+const CUSTOM_SOUNDS_KEY = "viban:custom-sounds";
+
+export function isSoundEvent(value: unknown): value is SoundEvent {
+  return SOUND_EVENTS.some((e) => e.id === value);
+}
+
+// Minutes since midnight of an "HH:MM" time, or null when it isn't one
+export function minutesOf(time: string): number | null {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time);
+  if (!match) return null;
+
+  const hours = Number(match[1]);
+  const minutes = Number(match[2]);
+  if (hours > 23 || minutes > 59) return null;
+  return hours * 60 + minutes;
+}
+
+export function inQuietHours(hours: QuietHours, now: Date): boolean {
+  if (!hours.enabled) return false;
+
+  const start = minutesOf(hours.start);
+  const end = minutesOf(hours.end);
+  if (start === null || end === null || start === end) return false;
+
+  const minute = now.getHours() * 60 + now.getMinutes();
+  return start < end
+    ? minute >= start && minute < end
+    : minute >= start || minute < end;
+}
+
+// Whether sounds other than previews play at `now`
+export function canPlay(settings: SoundSettings, now: Date): boolean {
+  return (
+    !settings.muted &&
+    settings.volume > 0 &&
+    !inQuietHours(settings.quietHours, now)
+  );
+}
+
+export function soundForEvent(
+  settings: SoundSettings,
+  boardId: string,
+  event: SoundEvent,
+): string | null {
+  const picked = settings.boards[boardId]?.[event];
+  if (picked !== undefined) return picked;
+  return SOUND_EVENTS.find((e) => e.id === event)?.defaultSound ?? null;
+}
+
+export function setEventSound(
+  settings: SoundSettings,
+  boardId: string,
+  event: SoundEvent,
+  sound: string | null,
+): SoundSettings {
+  return {
+    ...settings,
+    boards: {
+      ...settings.boards,
+      [boardId]: { ...settings.boards[boardId], [event]: sound },
+    },
+  };
+}
+
+// Events that played a removed sound go back to their default
+export function forgetSound(
+  settings: SoundSettings,
+  soundId: string,
+): SoundSettings {
+  const boards = Object.fromEntries(
+    Object.entries(settings.boards).map(([boardId, events]) => [
+      boardId,
+      Object.fromEntries(
+        Object.entries(events).filter(([, sound]) => sound !== soundId),
+      ),
+    ]),
+  );
+  return { ...settings, boards };
+}
+
+export function findSound(
+  id: string,
+  customSounds: CustomSound[],
+): Sound | undefined {
+  return (
+    BUNDLED_SOUNDS.find((s) => s.id === id) ??
+    customSounds.find((s) => s.id === id)
+  );
+}
+
+// Why `file` can't be added as a sound, or null when it can
+export function customSoundError(file: {
+  size: number;
+  type: string;
+}): string | null {
+  if (!file.type.startsWith("audio/")) return "Not an audio file";
+  if (file.size > MAX_CUSTOM_SOUND_BYTES) {
+    return `Sounds can be up to ${MAX_CUSTOM_SOUND_BYTES / 1024} KB`;
+  }
+  return null;
+}
+
+export function customSoundId(now: number = Date.now()): string {
+  return `custom:${now.toString(36)}`;
+}
+
+function isVolume(value: unknown): value is number {
+  return typeof value === "number" && value >= 0 && value <= 1;
+}
+
+// Drops picks that aren't events with a sound or null, e.g. from an older
+// version
+function readBoards(value: unknown): SoundSettings["boards"] {
+  const boards: SoundSettings["boards"] = {};
+  if (!isRecord(value)) return boards;
+
+  for (const [boardId, events] of Object.entries(value)) {
+    if (!isRecord(events)) continue;
+
+    const picks: Partial<Record<SoundEvent, string | null>> = {};
+    for (const [event, sound] of Object.entries(events)) {
+      const playable = sound === null || typeof sound === "string";
+      if (isSoundEvent(event) && playable) picks[event] = sound;
+    }
+    boards[boardId] = picks;
+  }
+  return boards;
+}
+
+export function loadSoundSettings(): SoundSettings {
+  const stored = readJson(SETTINGS_KEY);
+  if (!isRecord(stored)) {
+    return {
+      ...DEFAULT_SETTINGS,
+      quietHours: { ...DEFAULT_SETTINGS.quietHours },
+      boards: {},
+    };
+  }
+
+  const quietHours = isRecord(stored.quietHours) ? stored.quietHours : {};
+  return {
+    volume: isVolume(stored.volume) ? stored.volume : DEFAULT_SETTINGS.volume,
+    muted: stored.muted === true,
+    quietHours: {
+      enabled: quietHours.enabled === true,
+      start:
+        typeof quietHours.start === "string"
+          ? quietHours.start
+          : DEFAULT_SETTINGS.quietHours.start,
+      end:
+        typeof quietHours.end === "string"
+          ? quietHours.end
+          : DEFAULT_SETTINGS.quietHours.end,
+    },
+    boards: readBoards(stored.boards),
+  };
+}
+
+export function saveSoundSettings(settings: SoundSettings): void {
+  writeJson(SETTINGS_KEY, settings);
+}
+
+function isCustomSound(value: unknown): value is CustomSound {
+  return (
+    isRecord(value) &&
+    typeof value.id === "string" &&
+    typeof value.name === "string" &&
+    typeof value.url === "string"
+  );
+}
+
+export function loadCustomSounds(): CustomSound[] {
+  const stored = readJson(CUSTOM_SOUNDS_KEY);
+  return Array.isArray(stored) ? stored.filter(isCustomSound) : [];
+}
+
+// False when storage is full, the sounds are then unchanged
+export function saveCustomSounds(sounds: CustomSound[]): boolean {
+  return writeJson(CUSTOM_SOUNDS_KEY, sounds);
+}
@@ -0,0 +1,31 @@
+// localStorage that never throws. Storage can be disabled (private windows,
+// blocked site data) or full, and a value may be left over from an older
+// version, so callers check the shape of what they read and fall back to
+// their defaults.
+
+// The value stored under `key`, `undefined` when there is none or it can't be
+// read. Not validated.
+export function readJson(key: string): unknown {
+  try {
+    const raw = localStorage.getItem(key);
+    return raw === null ? undefined : JSON.parse(raw);
+  } catch {
+    return undefined;
+  }
+}
+
+// False when the value could not be stored
+export function writeJson(key: string, value: unknown): boolean {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// For narrowing what `readJson` returns to an object whose fields are checked
+// one by one
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
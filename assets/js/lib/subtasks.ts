@@ -0,0 +1,74 @@
+// Parent/subtask relations, read from the board's columns.
+//
+// A subtask is a task with `parent_task_id` set; its place in the parent's
+// checklist is `subtask_position`. It counts as done once it is in the
+// board's Done column.
+
+import type { ColumnData, Task } from "../types/domain";
+
+export interface SubtaskEntry {
+  task: Task;
+  column: ColumnData;
+  done: boolean;
+}
+
+export interface SubtaskProgress {
+  done: number;
+  total: number;
+}
+
+export function isDoneColumn(column: Pick<ColumnData, "name">): boolean {
+  return column.name.trim().toLowerCase() === "done";
+}
+
+export function findTask(
+  columns: ColumnData[],
+  taskId: string,
+): Task | undefined {
+  for (const column of columns) {
+    const task = column.tasks.find((t) => t.id === taskId);
+    if (task) return task;
+  }
+  return undefined;
+}
+
+// The parent's subtasks in checklist order
+export function subtasksOf(
+  columns: ColumnData[],
+  parentId: string,
+): SubtaskEntry[] {
+  const entries = columns.flatMap((column) =>
+    column.tasks
+      .filter((task) => task.parent_task_id === parentId)
+      .map((task) => ({ task, column, done: isDoneColumn(column) })),
+  );
+
+  return entries.sort(
+    (a, b) =>
+      (a.task.subtask_position ?? 0) - (b.task.subtask_position ?? 0) ||
+      a.task.inserted_at.localeCompare(b.task.inserted_at),
+  );
+}
+
+// Done/total counts for every task that has subtasks, by parent id
+export function subtaskProgress(
+  columns: ColumnData[],
+): Map<string, SubtaskProgress> {
+  const progress = new Map<string, SubtaskProgress>();
+
+  for (const column of columns) {
+    const done = isDoneColumn(column);
+    for (const task of column.tasks) {
+      if (!task.parent_task_id) continue;
+      const counts = progress.get(task.parent_task_id) ?? {
+        done: 0,
+        total: 0,
+      };
+      counts.total += 1;
+      if (done) counts.done += 1;
+      progress.set(task.parent_task_id, counts);
+    }
+  }
+
+  return progress;
+}
@@ -0,0 +1,241 @@
+// Coordinates the browser tabs that have the same board open, over a
+// BroadcastChannel named after the board.
+//
+// One of the tabs leads: only the leader plays the board's sounds and shows
+// its desktop notifications, so three open tabs still bark once. Every tab
+// sends a heartbeat saying whether its audio is unlocked, whether it has
+// focus and whether it leads. The leader keeps the lead while it can play
+// sounds, or while no tab can, so switching between tabs doesn't hand it back
+// and forth. Otherwise, of the tabs still heard from, one that can play sounds
+// leads, preferring the one the user is looking at, then the oldest. A tab
+// that closes or leaves the board says so, and the next in line takes over
+// right away instead of after the heartbeat times out.
+//
+// When the user turns on tab sync (see `loadSyncEnabled`), tabs also share
+// state, e.g. the open task, with `publish` and `subscribe`.
+
+import { soundEngine } from "./soundEngine";
+import { readJson, writeJson } from "./storage";
+
+export type TabMessage =
+  | ({ type: "alive"; tabId: string } & Standing)
+  | { type: "bye"; tabId: string }
+  | { type: "state"; tabId: string; key: string; value: unknown };
+
+// What a tab tells the others about itself, for the election
+export interface Standing {
+  focused: boolean;
+  // Whether a user gesture unlocked its audio
+  audio: boolean;
+  // Whether it took the lead
+  leading: boolean;
+}
+
+export interface Peer extends Standing {
+  lastSeen: number;
+}
+
+// The part of BroadcastChannel the coordinator uses
+export interface TabChannel {
+  postMessage(message: TabMessage): void;
+  close(): void;
+  onmessage: ((event: { data: TabMessage }) => void) | null;
+}
+
+export const HEARTBEAT_MS = 1000;
+// Peers not heard from for this long are gone, e.g. a crashed tab
+export const PEER_TIMEOUT_MS = 3000;
+// A tab that just joined waits this long for the others before leading
+export const JOIN_GRACE_MS = 300;
+
+const SYNC_KEY = "viban:tab-sync";
+
+// Ids sort by when the tab opened
+export function newTabId(now: number = Date.now()): string {
+  const random = Math.random().toString(36).slice(2, 8);
+  return `${now.toString(36).padStart(9, "0")}-${random}`;
+}
+
+export function livePeers(
+  peers: Map<string, Peer>,
+  now: number,
+): [string, Peer][] {
+  return [...peers].filter(
+    ([, peer]) => now - peer.lastSeen < PEER_TIMEOUT_MS,
+  );
+}
+
+const rank = (standing: Standing) =>
+  (standing.audio ? 2 : 0) + (standing.focused ? 1 : 0);
+
+// Of the tab and its live peers: the leader while it can play sounds or no
+// tab can, else one with unlocked audio, then a focused one, then the oldest
+export function electLeader(
+  tabId: string,
+  standing: Standing,
+  peers: Map<string, Peer>,
+  now: number,
+): string {
+  const tabs: [string, Standing][] = [
+    [tabId, standing],
+    ...livePeers(peers, now),
+  ];
+  const anyAudio = tabs.some(([, tab]) => tab.audio);
+  const leading = tabs.filter(
+    ([, tab]) => tab.leading && (tab.audio || !anyAudio),
+  );
+
+  const [leader] = (leading.length > 0 ? leading : tabs).reduce(
+    (best, next) => {
+      const diff = rank(next[1]) - rank(best[1]);
+      return diff > 0 || (diff === 0 && next[0] < best[0]) ? next : best;
+    },
+  );
+  return leader;
+}
+
+export class TabCoordinator {
+  readonly tabId = newTabId();
+  private channel: TabChannel | null = null;
+  private peers = new Map<string, Peer>();
+  private listeners = new Map<string, Set<(value: unknown) => void>>();
+  private joinedAt = 0;
+  private leading = false;
+  private heartbeat: ReturnType<typeof setInterval> | null = null;
+  private openChannel: (name: string) => TabChannel | null;
+  private isFocused: () => boolean;
+  private hasAudio: () => boolean;
+
+  constructor(
+    openChannel: (name: string) => TabChannel | null = (name) =>
+      typeof BroadcastChannel === "undefined"
+        ? null
+        : (new BroadcastChannel(name) as TabChannel),
+    isFocused: () => boolean = () => document.hasFocus(),
+    hasAudio: () => boolean = () => soundEngine.unlocked(),
+  ) {
+    this.openChannel = openChannel;
+    this.isFocused = isFocused;
+    this.hasAudio = hasAudio;
+  }
+
+  join(boardId: string): void {
+    this.leave();
+
+    this.channel = this.openChannel(`viban:board:${boardId}`);
+    if (!this.channel) return;
+
+    this.channel.onmessage = (event) => this.receive(event.data);
+    this.joinedAt = Date.now();
+    this.announce();
+    this.heartbeat = setInterval(() => {
+      this.isLeader();
+      this.announce();
+    }, HEARTBEAT_MS);
+  }
+
+  leave(): void {
+    if (this.heartbeat) clearInterval(this.heartbeat);
+    this.heartbeat = null;
+
+    this.channel?.postMessage({ type: "bye", tabId: this.tabId });
+    this.channel?.close();
+    this.channel = null;
+    this.peers.clear();
+    this.leading = false;
+  }
+
+  // Without a channel the tab is on its own, and leads
+  isLeader(now: number = Date.now()): boolean {
+    if (!this.channel) return true;
+
+    const waiting =
+      now - this.joinedAt < JOIN_GRACE_MS && this.peers.size === 0;
+    const leading =
+      !waiting &&
+      electLeader(this.tabId, this.standing(), this.peers, now) === this.tabId;
+
+    // The other tabs keep this one as the leader once they hear it leads
+    if (leading !== this.leading) {
+      this.leading = leading;
+      this.announce();
+    }
+    return leading;
+  }
+
+  // Whether another tab of the board is the one the user is looking at
+  peerFocused(now: number = Date.now()): boolean {
+    return livePeers(this.peers, now).some(([, peer]) => peer.focused);
+  }
+
+  // Tells the other tabs right away, e.g. when this one gains focus
+  announce(): void {
+    this.channel?.postMessage({
+      type: "alive",
+      tabId: this.tabId,
+      ...this.standing(),
+    });
+  }
+
+  // Sends `value` to the other tabs' `subscribe`rs of `key`, when sync is on
+  publish(key: string, value: unknown): void {
+    if (!loadSyncEnabled()) return;
+    this.channel?.postMessage({
+      type: "state",
+      tabId: this.tabId,
+      key,
+      value,
+    });
+  }
+
+  subscribe(key: string, listener: (value: unknown) => void): () => void {
+    const listeners = this.listeners.get(key) ?? new Set();
+    listeners.add(listener);
+    this.listeners.set(key, listeners);
+    return () => listeners.delete(listener);
+  }
+
+  private standing(): Standing {
+    return {
+      focused: this.isFocused(),
+      audio: this.hasAudio(),
+      leading: this.leading,
+    };
+  }
+
+  private receive(message: TabMessage) {
+    switch (message.type) {
+      case "alive": {
+        const known = this.peers.has(message.tabId);
+        this.peers.set(message.tabId, {
+          lastSeen: Date.now(),
+          focused: message.focused,
+          audio: message.audio,
+          leading: message.leading,
+        });
+        // A tab that just joined learns about this one before it leads
+        if (!known) this.announce();
+        break;
+      }
+      case "bye":
+        this.peers.delete(message.tabId);
+        break;
+      case "state":
+        if (!loadSyncEnabled()) return;
+        for (const listener of this.listeners.get(message.key) ?? []) {
+          listener(message.value);
+        }
+        break;
+    }
+  }
+}
+
+export function loadSyncEnabled(): boolean {
+  return readJson(SYNC_KEY) === true;
+}
+
+export function saveSyncEnabled(enabled: boolean): void {
+  writeJson(SYNC_KEY, enabled);
+}
+
+export const tabs = new TabCoordinator();
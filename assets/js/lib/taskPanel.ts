@@ -0,0 +1,91 @@
+// Layout of the task details panel: which tab is open and how wide the
+// panel is. Both are kept in localStorage, so they carry over between tasks
+// and visits.
+
+import type { Task } from "../types/domain";
+import { isRecord, readJson, writeJson } from "./storage";
+
+export type PanelTab =
+  | "details"
+  | "activity"
+  | "diff"
+  | "variants"
+  | "settings";
+
+export const PANEL_TABS: { id: PanelTab; label: string }[] = [
+  { id: "details", label: "Details" },
+  { id: "activity", label: "Activity" },
+  { id: "diff", label: "Diff" },
+  { id: "variants", label: "Variants" },
+  { id: "settings", label: "Settings" },
+];
+
+// The tabs a task has: Variants only for tasks that are one of several
+// variants, see lib/variants.ts
+export function panelTabs(
+  task: Pick<Task, "variant_group_id">,
+): typeof PANEL_TABS {
+  return PANEL_TABS.filter(
+    (tab) => tab.id !== "variants" || task.variant_group_id,
+  );
+}
+
+// A column hook the task's settings can skip
+export interface TaskPanelHook {
+  // Column hook id
+  id: string;
+  name: string;
+  column_id: string;
+  column_name: string;
+}
+
+export interface PanelLayout {
+  tab: PanelTab;
+  width: number;
+}
+
+export const DEFAULT_LAYOUT: PanelLayout = { tab: "activity", width: 512 };
+
+export const MIN_WIDTH = 360;
+// Room left for the board when the panel is at its widest
+const BOARD_MARGIN = 160;
+
+const STORAGE_KEY = "viban:task-panel";
+
+// The tab `step` places after (or, negative, before) `tab` among `tabs`,
+// wrapping around
+export function cycleTab(
+  tab: PanelTab,
+  step: number,
+  tabs: { id: PanelTab }[] = PANEL_TABS,
+): PanelTab {
+  const index = tabs.findIndex((t) => t.id === tab);
+  const count = tabs.length;
+  return tabs[(((index + step) % count) + count) % count].id;
+}
+
+export function clampWidth(width: number, viewportWidth: number): number {
+  const max = Math.max(MIN_WIDTH, viewportWidth - BOARD_MARGIN);
+  return Math.round(Math.min(Math.max(width, MIN_WIDTH), max));
+}
+
+function isTab(value: unknown): value is PanelTab {
+  return PANEL_TABS.some((t) => t.id === value);
+}
+
+export function loadLayout(): PanelLayout {
+  const stored = readJson(STORAGE_KEY);
+  if (!isRecord(stored)) return { ...DEFAULT_LAYOUT };
+
+  return {
+    tab: isTab(stored.tab) ? stored.tab : DEFAULT_LAYOUT.tab,
+    width:
+      typeof stored.width === "number" && stored.width > 0
+        ? stored.width
+        : DEFAULT_LAYOUT.width,
+  };
+}
+
+export function saveLayout(layout: PanelLayout): void {
+  writeJson(STORAGE_KEY, layout);
+}
@@ -0,0 +1,169 @@
+// Agent tool calls in the task activity feed.
+//
+// The runner saves each tool call as an activity item whose `metadata.type`
+// says what kind of call it was (the shapes below, built by the executor
+// implementation) and each tool result as a separate `tool_result` item that
+// points back at its call. `groupToolCalls` pairs results with their calls and
+// turns calls of a kind with a renderer into `tool_calls` entries.
+
+import type { ActivityItem } from "../types/domain";
+
+export interface FileEdit {
+  old_string: string;
+  new_string: string;
+}
+
+export interface FileEditMetadata {
+  type: "file_edit";
+  tool: string;
+  path: string | null;
+  edits: FileEdit[];
+}
+
+export interface ShellMetadata {
+  type: "shell";
+  tool: string;
+  command: string;
+  description: string | null;
+}
+
+export interface FileReadMetadata {
+  type: "file_read";
+  tool: string;
+  path: string | null;
+}
+
+export interface TodoItem {
+  content: string;
+  status: "pending" | "in_progress" | "completed";
+  activeForm?: string;
+}
+
+export interface TodoListMetadata {
+  type: "todo_list";
+  todos: TodoItem[];
+}
+
+export interface ToolResultMetadata {
+  type: "tool_result";
+  tool_use_id: string;
+  is_error: boolean;
+}
+
+export type ToolMetadata =
+  | FileEditMetadata
+  | ShellMetadata
+  | FileReadMetadata
+  | TodoListMetadata;
+
+export interface ToolResult {
+  output: string;
+  isError: boolean;
+}
+
+export interface ToolCall<M extends ToolMetadata = ToolMetadata> {
+  id: string;
+  metadata: M;
+  result: ToolResult | null;
+  timestamp: string;
+}
+
+// One rendered entry: a single call, or a run of consecutive calls of a kind
+// whose renderer groups them
+export interface ToolCallGroup {
+  type: "tool_calls";
+  id: string;
+  kind: string;
+  calls: ToolCall[];
+  timestamp: string;
+}
+
+export interface ToolKinds {
+  isRendered(kind: string): boolean;
+  groupsConsecutive(kind: string): boolean;
+}
+
+type Metadata = { type?: unknown; tool_use_id?: unknown };
+
+function metadataOf(item: ActivityItem): Metadata | null {
+  if (item.type === "hook_execution") return null;
+  return (item.metadata as Metadata | null) ?? null;
+}
+
+export function groupToolCalls(
+  items: ActivityItem[],
+  kinds: ToolKinds,
+): (ActivityItem | ToolCallGroup)[] {
+  const results = new Map<string, ToolResult>();
+  for (const item of items) {
+    const metadata = metadataOf(item);
+    if (
+      metadata?.type === "tool_result" &&
+      typeof metadata.tool_use_id === "string" &&
+      item.type !== "hook_execution"
+    ) {
+      results.set(metadata.tool_use_id, {
+        output: item.content,
+        isError: (metadata as ToolResultMetadata).is_error === true,
+      });
+    }
+  }
+
+  const grouped: (ActivityItem | ToolCallGroup)[] = [];
+  const calls = new Set<string>();
+
+  for (const item of items) {
+    const metadata = metadataOf(item);
+    const kind = typeof metadata?.type === "string" ? metadata.type : null;
+    const toolUseId =
+      typeof metadata?.tool_use_id === "string" ? metadata.tool_use_id : null;
+
+    if (kind === "tool_result") {
+      // Results are shown with their call; one without a call in the feed
+      // still shows as a plain message
+      if (!toolUseId || !calls.has(toolUseId)) grouped.push(item);
+      continue;
+    }
+    if (toolUseId) calls.add(toolUseId);
+    if (!kind || !kinds.isRendered(kind)) {
+      grouped.push(item);
+      continue;
+    }
+
+    const call: ToolCall = {
+      id: item.id,
+      metadata: metadata as ToolMetadata,
+      result: (toolUseId && results.get(toolUseId)) || null,
+      timestamp: item.timestamp,
+    };
+
+    const last = grouped[grouped.length - 1];
+    if (
+      last?.type === "tool_calls" &&
+      last.kind === kind &&
+      kinds.groupsConsecutive(kind)
+    ) {
+      last.calls.push(call);
+      last.timestamp = call.timestamp;
+    } else {
+      grouped.push({
+        type: "tool_calls",
+        id: `tool-${item.id}`,
+        kind,
+        calls: [call],
+        timestamp: call.timestamp,
+      });
+    }
+  }
+
+  return grouped;
+}
+
+// Exit code of a shell call: the CLI reports failures as "Exit code N" at the
+// start of the output. null while running or when a failure has no code.
+export function shellExitCode(result: ToolResult | null): number | null {
+  if (!result) return null;
+  if (!result.isError) return 0;
+  const match = /^Exit code (\d+)/.exec(result.output);
+  return match ? Number(match[1]) : null;
+}
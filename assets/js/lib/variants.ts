@@ -0,0 +1,95 @@
+// Parallel variants, read from the board's columns.
+//
+// Variants are tasks that run the same spec side by side: they share a
+// `variant_group_id` and are numbered by `variant_number`. Until a winner is
+// selected they are candidates, and the candidates of a group that sit in the
+// same column show on the board as one stacked card. Archived variants aren't
+// on the board.
+
+import type { DiffFile, TaskDiff } from "./worktreeDiff";
+import type { ColumnData, Task } from "../types/domain";
+
+export interface VariantEntry {
+  task: Task;
+  column: ColumnData;
+}
+
+// A file changed by one or more variants
+export interface ComparedFile {
+  path: string;
+  // Its changes in each variant that touched it, by task id
+  changes: Record<string, DiffFile>;
+}
+
+export interface StackedColumns {
+  // The columns with each stack collapsed into its first card
+  columns: ColumnData[];
+  // The variants of each stack in number order, by the id of that card
+  stacks: Map<string, Task[]>;
+}
+
+const byNumber = (a: Task, b: Task) =>
+  (a.variant_number ?? 0) - (b.variant_number ?? 0);
+
+// The group's variants still on the board, in number order
+export function variantsOf(
+  columns: ColumnData[],
+  groupId: string,
+): VariantEntry[] {
+  const entries = columns.flatMap((column) =>
+    column.tasks
+      .filter((task) => task.variant_group_id === groupId)
+      .map((task) => ({ task, column })),
+  );
+
+  return entries.sort((a, b) => byNumber(a.task, b.task));
+}
+
+export function stackVariants(columns: ColumnData[]): StackedColumns {
+  const stacks = new Map<string, Task[]>();
+
+  const stacked = columns.map((column) => {
+    const leads = new Map<string, Task[]>();
+    const tasks = column.tasks.filter((task) => {
+      if (task.variant_status !== "candidate" || !task.variant_group_id) {
+        return true;
+      }
+
+      const stack = leads.get(task.variant_group_id);
+      if (stack) {
+        stack.push(task);
+        return false;
+      }
+
+      leads.set(task.variant_group_id, [task]);
+      return true;
+    });
+
+    for (const stack of leads.values()) {
+      if (stack.length > 1) stacks.set(stack[0].id, stack.sort(byNumber));
+    }
+
+    // Keep the column as is when nothing was stacked, so its cards don't
+    // re-render
+    return tasks.length === column.tasks.length ? column : { ...column, tasks };
+  });
+
+  return { columns: stacked, stacks };
+}
+
+// The files changed in any of the variants' worktrees, by path, with what
+// each variant did to them. `diffs` are `load_task_diff` results by task id.
+export function compareFiles(diffs: Record<string, TaskDiff>): ComparedFile[] {
+  const files = new Map<string, ComparedFile>();
+
+  for (const [taskId, diff] of Object.entries(diffs)) {
+    const all = diff.sections.find((section) => section.section === "all");
+    for (const file of all?.files ?? []) {
+      const entry = files.get(file.path) ?? { path: file.path, changes: {} };
+      entry.changes[taskId] = file;
+      files.set(file.path, entry);
+    }
+  }
+
+  return [...files.values()].sort((a, b) => a.path.localeCompare(b.path));
+}
@@ -0,0 +1,62 @@
+// Range math for windowed lists (see composables/useVirtualList.ts).
+
+export interface ListRange {
+  // The first rendered item, and one past the last
+  start: number;
+  end: number;
+}
+
+// offsets[i] is the top of item i relative to the first item; the last entry
+// is the height of the whole list
+export function itemOffsets(sizes: number[]): number[] {
+  const offsets = new Array<number>(sizes.length + 1);
+  offsets[0] = 0;
+  sizes.forEach((size, i) => {
+    offsets[i + 1] = offsets[i] + size;
+  });
+  return offsets;
+}
+
+// First index whose bottom edge is below `y`
+export function indexAt(offsets: number[], y: number): number {
+  let low = 0;
+  let high = offsets.length - 2;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (offsets[mid + 1] <= y) low = mid + 1;
+    else high = mid;
+  }
+  return Math.max(0, low);
+}
+
+// The items that overlap the viewport, or are within `overscan` pixels of it
+export function visibleRange(
+  offsets: number[],
+  scrollTop: number,
+  viewportHeight: number,
+  overscan: number,
+): ListRange {
+  const count = offsets.length - 1;
+  const start = indexAt(offsets, scrollTop - overscan);
+  const end = indexAt(offsets, scrollTop + viewportHeight + overscan) + 1;
+  return { start, end: Math.min(end, count) };
+}
+
+// The size cache with measured row heights applied, each plus the gap below
+// it, or null when nothing changed. Rows of height 0 aren't laid out (e.g.
+// hidden) and keep their previous size.
+export function withMeasuredSizes(
+  sizes: Map<string, number>,
+  heights: Iterable<[key: string, height: number]>,
+  gap: number,
+): Map<string, number> | null {
+  let next: Map<string, number> | null = null;
+  for (const [key, height] of heights) {
+    const size = height + gap;
+    if (height > 0 && (next ?? sizes).get(key) !== size) {
+      next ??= new Map(sizes);
+      next.set(key, size);
+    }
+  }
+  return next;
+}
@@ -0,0 +1,97 @@
+// Line diff stats of task worktrees, as measured on the server by
+// `Viban.Kanban.Task.WorktreeDiff`: the changes since the branch forked from
+// the repository's default branch, committed or not.
+
+import { parsePatch, type DiffHunk } from "./lineDiff";
+import { readJson, writeJson } from "./storage";
+
+// Totals for a task card, kept current by `DiffStatsWatcher`
+export interface DiffStats {
+  additions: number;
+  deletions: number;
+  // Number of files changed
+  files: number;
+}
+
+// `all` is everything since the fork; the others split it up. A line changed
+// in more than one of those counts in each.
+export type DiffSectionId = "all" | "committed" | "staged" | "unstaged";
+
+export const DIFF_SECTIONS: { id: DiffSectionId; label: string }[] = [
+  { id: "all", label: "All changes" },
+  { id: "committed", label: "Committed" },
+  { id: "staged", label: "Staged" },
+  { id: "unstaged", label: "Unstaged" },
+];
+
+export interface DiffFile {
+  path: string;
+  status: "added" | "modified" | "deleted";
+  additions: number;
+  deletions: number;
+  // Binary files have no line counts
+  binary: boolean;
+}
+
+export interface DiffSection {
+  section: DiffSectionId;
+  additions: number;
+  deletions: number;
+  files: DiffFile[];
+}
+
+export interface TaskDiff {
+  // What the worktree is compared with, e.g. "origin/main"
+  base_ref: string;
+  sections: DiffSection[];
+}
+
+export type DiffViewMode = "unified" | "split";
+
+export const DIFF_VIEW_MODES: { id: DiffViewMode; label: string }[] = [
+  { id: "unified", label: "Unified" },
+  { id: "split", label: "Split" },
+];
+
+export const DIFF_FILE_STATUSES: Record<
+  DiffFile["status"],
+  { letter: string; class: string }
+> = {
+  added: { letter: "A", class: "text-green-400" },
+  modified: { letter: "M", class: "text-amber-400" },
+  deleted: { letter: "D", class: "text-red-400" },
+};
+
+// One file's patch, ready to render
+export interface FilePatch {
+  error: string | null;
+  binary: boolean;
+  hunks: DiffHunk[];
+}
+
+// Reads a `load_task_file_diff` reply
+export function toFilePatch(reply: {
+  ok: boolean;
+  error?: string;
+  patch?: string;
+}): FilePatch {
+  return reply.ok
+    ? { error: null, ...parsePatch(reply.patch ?? "") }
+    : { error: reply.error ?? "Unable to load diff", binary: false, hunks: [] };
+}
+
+const VIEW_MODE_KEY = "viban:diff-view";
+
+export function loadViewMode(): DiffViewMode {
+  return readJson(VIEW_MODE_KEY) === "split" ? "split" : "unified";
+}
+
+export function saveViewMode(mode: DiffViewMode): void {
+  writeJson(VIEW_MODE_KEY, mode);
+}
+
+// Splits a path into its directory (with the trailing slash) and file name
+export function splitPath(path: string): { dir: string; name: string } {
+  const slash = path.lastIndexOf("/");
+  return { dir: path.slice(0, slash + 1), name: path.slice(slash + 1) };
+}
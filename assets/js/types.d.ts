@@ -69,3 +69,10 @@ declare module "*/vendor/topbar" {
   const topbar: Topbar;
   export default topbar;
 }
+
+// For .ts files that import components; vue-tsc resolves the real types
+declare module "*.vue" {
+  import type { DefineComponent } from "vue";
+  const component: DefineComponent<object, object, unknown>;
+  export default component;
+}
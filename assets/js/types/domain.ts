@@ -0,0 +1,96 @@
+// Generated by `mix viban.gen.types` from the Ash resources in lib/viban/kanban
+// (see VibanWeb.DomainTypes). Do not edit by hand.
+
+export interface Board {
+  id: string;
+  name: string;
+  description: string | null;
+}
+
+export interface Task {
+  id: string;
+  title: string;
+  description: string | null;
+  position: string;
+  column_id: string;
+  parent_task_id: string | null;
+  is_parent: boolean | null;
+  subtask_position: number | null;
+  subtask_generation_status: "generating" | "completed" | "failed" | null;
+  worktree_path: string | null;
+  worktree_branch: string | null;
+  agent_status: "idle" | "thinking" | "executing" | "error" | null;
+  agent_status_message: string | null;
+  pr_url: string | null;
+  pr_number: number | null;
+  pr_status: "open" | "merged" | "closed" | "draft" | null;
+  inserted_at: string;
+  auto_start: boolean;
+  custom_branch_name: string | null;
+  executor_type: "claude_code" | "gemini_cli" | null;
+  skipped_hooks: string[] | null;
+  variant_group_id: string | null;
+  variant_number: number | null;
+  variant_status: "candidate" | "selected" | "archived" | null;
+  message_queue: QueuedMessage[];
+}
+
+export interface QueuedMessage {
+  id: string;
+  prompt: string;
+  executor_type: "claude_code" | "gemini_cli";
+  model: string | null;
+  mode: "execute" | "plan";
+  message_id: string | null;
+  queued_at: string;
+  attachment_count: number;
+}
+
+export interface ColumnData {
+  id: string;
+  name: string;
+  position: string;
+  color: string | null;
+  system: boolean;
+  tasks: Task[];
+}
+
+export interface HookExecution {
+  type: "hook_execution";
+  id: string;
+  hook_id: string;
+  hook_name: string;
+  status: "pending" | "running" | "completed" | "failed" | "cancelled" | "skipped";
+  skip_reason: "error" | "disabled" | "column_change" | "server_restart" | "user_cancelled" | "task_settings" | null;
+  error_message: string | null;
+  hook_settings: Record<string, unknown> | null;
+  queued_at: string;
+  started_at: string | null;
+  completed_at: string | null;
+  duration_ms: number | null;
+  timestamp: string;
+}
+
+export interface Message {
+  type: "message";
+  id: string;
+  role: "user" | "assistant" | "system";
+  content: string;
+  status: "pending" | "processing" | "completed" | "failed" | null;
+  metadata: Record<string, unknown> | null;
+  inserted_at: string;
+  timestamp: string;
+}
+
+export interface ExecutorMessage {
+  type: "executor_message";
+  id: string;
+  role: "user" | "assistant" | "system" | "tool";
+  content: string;
+  metadata: Record<string, unknown> | null;
+  session_id: string | null;
+  inserted_at: string;
+  timestamp: string;
+}
+
+export type ActivityItem = HookExecution | Message | ExecutorMessage;
@@ -0,0 +1,38 @@
+import type { Component } from "vue";
+import type { ToolKinds } from "../../../lib/toolCalls";
+import FileEditTool from "./FileEditTool.vue";
+import FileReadTool from "./FileReadTool.vue";
+import ShellTool from "./ShellTool.vue";
+import TodoListTool from "./TodoListTool.vue";
+
+// Renderers for agent tool calls in the activity feed, keyed by the call's
+// `metadata.type`. A renderer gets the entry's calls as its `calls` prop;
+// calls of a kind without a renderer show as plain messages.
+export interface ToolRenderer {
+  component: Component;
+  // Merge consecutive calls of this kind into one entry
+  groupConsecutive?: boolean;
+}
+
+const renderers = new Map<string, ToolRenderer>();
+
+export function registerToolRenderer(kind: string, renderer: ToolRenderer) {
+  renderers.set(kind, renderer);
+}
+
+export function toolRenderer(kind: string): ToolRenderer | undefined {
+  return renderers.get(kind);
+}
+
+export const toolKinds: ToolKinds = {
+  isRendered: (kind) => renderers.has(kind),
+  groupsConsecutive: (kind) => renderers.get(kind)?.groupConsecutive === true,
+};
+
+registerToolRenderer("file_edit", { component: FileEditTool });
+registerToolRenderer("shell", { component: ShellTool });
+registerToolRenderer("file_read", {
+  component: FileReadTool,
+  groupConsecutive: true,
+});
+registerToolRenderer("todo_list", { component: TodoListTool });
@@ -0,0 +1,94 @@
+import { nextTick, onMounted, onUnmounted, ref, watch, type Ref } from "vue";
+
+interface FeedScrollOptions<T> {
+  // The scrolling element that holds the feed
+  container: Ref<HTMLElement | null>;
+  items: () => T[];
+  key: (item: T) => string;
+  // Distance from the bottom (px) within which the feed counts as pinned
+  pinThreshold?: number;
+  // Called when the user scrolls within this many px of the top
+  topThreshold?: number;
+  onReachTop?: () => void;
+}
+
+const DEFAULT_PIN_THRESHOLD = 48;
+const DEFAULT_TOP_THRESHOLD = 200;
+
+// Scroll behaviour for a chat-style feed that grows at the bottom and loads
+// history at the top. New items scroll into view only while the user is
+// pinned to the bottom; otherwise they are counted in `unseen`. Items added
+// at the top keep the visible ones in place.
+export function useFeedScroll<T>(options: FeedScrollOptions<T>) {
+  const pinned = ref(true);
+  const unseen = ref(0);
+  const pinThreshold = options.pinThreshold ?? DEFAULT_PIN_THRESHOLD;
+  const topThreshold = options.topThreshold ?? DEFAULT_TOP_THRESHOLD;
+
+  function handleScroll() {
+    const el = options.container.value;
+    if (!el) return;
+
+    pinned.value =
+      el.scrollHeight - el.scrollTop - el.clientHeight <= pinThreshold;
+    if (pinned.value) unseen.value = 0;
+    if (el.scrollTop <= topThreshold) options.onReachTop?.();
+  }
+
+  function scrollToBottom() {
+    const el = options.container.value;
+    if (el) el.scrollTop = el.scrollHeight;
+    pinned.value = true;
+    unseen.value = 0;
+  }
+
+  const keys = () => options.items().map(options.key);
+
+  // Runs before the DOM updates, so the old scroll height is still readable
+  watch(keys, (next, prev) => {
+    const el = options.container.value;
+    if (!el) return;
+
+    const [first, last] = [prev[0], prev[prev.length - 1]];
+    const lastIndex = last === undefined ? -1 : next.lastIndexOf(last);
+    const firstIndex = first === undefined ? -1 : next.indexOf(first);
+
+    // Nothing in common, e.g. another task was opened
+    if (prev.length > 0 && lastIndex === -1 && firstIndex === -1) {
+      nextTick(scrollToBottom);
+      return;
+    }
+
+    if (pinned.value) {
+      nextTick(scrollToBottom);
+    } else if (firstIndex > 0) {
+      const fromBottom = el.scrollHeight - el.scrollTop;
+      nextTick(() => {
+        el.scrollTop = el.scrollHeight - fromBottom;
+      });
+    }
+
+    if (!pinned.value) {
+      // The last entry can change identity as it grows (a hook joining a
+      // group), count those as one new entry
+      const added =
+        lastIndex === -1
+          ? Math.max(1, next.length - prev.length)
+          : next.length - 1 - lastIndex;
+      unseen.value += added;
+    }
+  });
+
+  onMounted(() => {
+    options.container.value?.addEventListener("scroll", handleScroll, {
+      passive: true,
+    });
+    nextTick(scrollToBottom);
+  });
+
+  onUnmounted(() => {
+    options.container.value?.removeEventListener("scroll", handleScroll);
+  });
+
+  return { pinned, unseen, scrollToBottom };
+}
@@ -0,0 +1,102 @@
+import { onUnmounted, ref, type Ref } from "vue";
+
+export interface SelectionRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+interface RubberBandOptions {
+  // Elements that can be selected, e.g. ".task-card"
+  itemSelector: string;
+  // dataset key holding the item id, e.g. "taskId" for data-task-id
+  idKey: string;
+  // Called with the ids inside the band; `additive` when a modifier was held.
+  // A plain click on the background selects nothing.
+  onSelect: (ids: string[], additive: boolean) => void;
+}
+
+// Pointer movement (px) before a press on the background becomes a band
+const DRAG_THRESHOLD = 4;
+
+// Elements that keep their own pointer behaviour instead of starting a band
+const INTERACTIVE_SELECTOR = "button, a, input, textarea, select, label";
+
+function intersects(a: DOMRect, b: SelectionRect): boolean {
+  return (
+    a.left < b.left + b.width &&
+    a.right > b.left &&
+    a.top < b.top + b.height &&
+    a.bottom > b.top
+  );
+}
+
+export function useRubberBandSelection(
+  container: Ref<HTMLElement | null>,
+  options: RubberBandOptions,
+) {
+  const rect = ref<SelectionRect | null>(null);
+  let origin: { x: number; y: number } | null = null;
+  let additive = false;
+
+  function onPointerMove(event: PointerEvent) {
+    if (!origin) return;
+
+    const width = Math.abs(event.clientX - origin.x);
+    const height = Math.abs(event.clientY - origin.y);
+    if (!rect.value && width < DRAG_THRESHOLD && height < DRAG_THRESHOLD) {
+      return;
+    }
+
+    event.preventDefault();
+    rect.value = {
+      left: Math.min(event.clientX, origin.x),
+      top: Math.min(event.clientY, origin.y),
+      width,
+      height,
+    };
+  }
+
+  function stop() {
+    window.removeEventListener("pointermove", onPointerMove);
+    window.removeEventListener("pointerup", onPointerUp);
+    origin = null;
+    rect.value = null;
+  }
+
+  function onPointerUp() {
+    const band = rect.value;
+    const ids: string[] = [];
+
+    if (band && container.value) {
+      container.value
+        .querySelectorAll<HTMLElement>(options.itemSelector)
+        .forEach((el) => {
+          const id = el.dataset[options.idKey];
+          if (id && intersects(el.getBoundingClientRect(), band)) ids.push(id);
+        });
+    }
+
+    stop();
+    options.onSelect(ids, additive);
+  }
+
+  function onPointerDown(event: PointerEvent) {
+    if (event.button !== 0) return;
+
+    const target = event.target as HTMLElement;
+    if (target.closest(`${options.itemSelector}, ${INTERACTIVE_SELECTOR}`)) {
+      return;
+    }
+
+    origin = { x: event.clientX, y: event.clientY };
+    additive = event.shiftKey || event.metaKey || event.ctrlKey;
+    window.addEventListener("pointermove", onPointerMove);
+    window.addEventListener("pointerup", onPointerUp);
+  }
+
+  onUnmounted(stop);
+
+  return { rect, onPointerDown };
+}
@@ -0,0 +1,32 @@
+import { onMounted, onUnmounted } from "vue";
+import {
+  shortcuts,
+  type ShortcutContext,
+  type ShortcutDefinition,
+} from "../../lib/shortcuts";
+
+// Registers shortcuts for as long as the calling component is mounted
+export function useShortcuts(definitions: ShortcutDefinition[]) {
+  let unregister: (() => void) | null = null;
+
+  onMounted(() => {
+    unregister = shortcuts.registerAll(definitions);
+  });
+
+  onUnmounted(() => {
+    unregister?.();
+  });
+}
+
+// Marks a shortcut context as active for as long as the component is mounted
+export function useShortcutContext(context: ShortcutContext) {
+  let leave: (() => void) | null = null;
+
+  onMounted(() => {
+    leave = shortcuts.enterContext(context);
+  });
+
+  onUnmounted(() => {
+    leave?.();
+  });
+}
@@ -0,0 +1,83 @@
+import { ref, watch } from "vue";
+import { replyErrorMessage } from "../../lib/liveReplies";
+import { useLiveView } from "../liveView";
+
+export type EditableField = "title" | "description";
+
+export type SaveResult =
+  | { ok: true }
+  | { ok: false; conflict: string }
+  | { ok: false; error: string };
+
+interface LastSave {
+  field: EditableField;
+  previous: string;
+  saved: string;
+}
+
+// Saving the task's title and description from the panel. Saves carry the
+// value the edit started from, so a change made on the server meanwhile (an
+// AI refine, another tab) comes back as a conflict instead of being
+// overwritten. The last save can be undone the same way.
+export function useTaskEditing(taskId: () => string) {
+  const liveView = useLiveView();
+  const lastSave = ref<LastSave | null>(null);
+  // Shown when an undo could not be applied
+  const undoError = ref<string | null>(null);
+
+  async function save(
+    field: EditableField,
+    value: string,
+    base: string,
+  ): Promise<SaveResult> {
+    let reply;
+    try {
+      reply = await liveView.pushEvent("update_task", {
+        taskId: taskId(),
+        field,
+        value,
+        base,
+      });
+    } catch (error) {
+      return { ok: false, error: replyErrorMessage(error) };
+    }
+
+    if (reply.ok) {
+      if (value !== base) {
+        lastSave.value = { field, previous: base, saved: value };
+      }
+      undoError.value = null;
+      return { ok: true };
+    }
+    if (reply.error === "conflict") {
+      return { ok: false, conflict: reply.current ?? "" };
+    }
+    return { ok: false, error: reply.error ?? "Failed to save" };
+  }
+
+  async function undo() {
+    const last = lastSave.value;
+    if (!last) return;
+
+    lastSave.value = null;
+    const result = await save(last.field, last.previous, last.saved);
+    // Saving the previous value made it the last save; undoing isn't redone
+    lastSave.value = null;
+    if (!result.ok) {
+      undoError.value =
+        "conflict" in result
+          ? `The ${last.field} changed since, so it was not restored`
+          : result.error;
+    }
+  }
+
+  function dismiss() {
+    lastSave.value = null;
+    undoError.value = null;
+  }
+
+  // Undo belongs to the task it was saved on
+  watch(taskId, dismiss);
+
+  return { save, lastSave, undo, undoError, dismiss };
+}
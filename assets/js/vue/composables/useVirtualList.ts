@@ -0,0 +1,173 @@
+import {
+  computed,
+  onMounted,
+  onUnmounted,
+  onUpdated,
+  ref,
+  type Ref,
+} from "vue";
+import {
+  itemOffsets,
+  visibleRange,
+  withMeasuredSizes,
+  type ListRange,
+} from "../../lib/virtualList";
+
+interface VirtualListOptions<T> {
+  // The scrolling element that holds the rendered items
+  container: Ref<HTMLElement | null>;
+  items: () => T[];
+  key: (item: T) => string;
+  // Rendered items are found with `[data-<keyAttribute>="<key>"]`
+  keyAttribute: string;
+  // Height of an item that has not been rendered yet, including the gap
+  estimateSize: number;
+  // Vertical gap between items (px), added to measured heights
+  gap: number;
+  // Lists this long or shorter render every item
+  threshold: number;
+  // Extra pixels rendered above and below the viewport
+  overscan?: number;
+  // Keys that stay rendered even when scrolled away, e.g. a card that is
+  // being dragged
+  pinned?: () => Set<string>;
+}
+
+const DEFAULT_OVERSCAN = 600;
+
+// Windowed rendering for a long vertical list. Only items near the viewport
+// are rendered; the space of the others is kept as padding on the container
+// so the scrollbar and scroll position behave as if they were all there.
+// Rendered items are watched for size changes (a card growing a diff badge,
+// an edited title) and estimated until they first render.
+export function useVirtualList<T>(options: VirtualListOptions<T>) {
+  const scrollTop = ref(0);
+  const viewportHeight = ref(0);
+  const sizes = ref(new Map<string, number>());
+  const overscan = options.overscan ?? DEFAULT_OVERSCAN;
+
+  const enabled = computed(() => options.items().length > options.threshold);
+
+  const sizeOf = (item: T) =>
+    sizes.value.get(options.key(item)) ?? options.estimateSize;
+  const offsets = computed(() => itemOffsets(options.items().map(sizeOf)));
+
+  const range = computed<ListRange>(() => {
+    if (!enabled.value) return { start: 0, end: options.items().length };
+    return visibleRange(
+      offsets.value,
+      scrollTop.value,
+      viewportHeight.value,
+      overscan,
+    );
+  });
+
+  const visibleItems = computed(() => {
+    const items = options.items();
+    const { start, end } = range.value;
+    if (!enabled.value) return items;
+
+    const pinned = options.pinned?.() ?? new Set<string>();
+    return items.filter(
+      (item, i) => (i >= start && i < end) || pinned.has(options.key(item)),
+    );
+  });
+
+  const paddingTop = computed(() =>
+    enabled.value ? offsets.value[range.value.start] : 0,
+  );
+
+  const paddingBottom = computed(() => {
+    if (!enabled.value) return 0;
+    const tops = offsets.value;
+    return tops[tops.length - 1] - tops[range.value.end];
+  });
+
+  const keyOf = (el: Element) =>
+    el.getAttribute(`data-${options.keyAttribute}`);
+
+  function measure(entries: ResizeObserverEntry[]) {
+    const heights: [string, number][] = [];
+    for (const entry of entries) {
+      const key = keyOf(entry.target);
+      // offsetHeight includes the borders, like the layout does
+      const height = (entry.target as HTMLElement).offsetHeight;
+      if (key) heights.push([key, height]);
+    }
+    const next = withMeasuredSizes(sizes.value, heights, options.gap);
+    if (next) sizes.value = next;
+  }
+
+  // Observes the rendered items, which the observer reports right away and
+  // then whenever they resize, and lets go of the ones no longer rendered
+  const rowObserver = new ResizeObserver(measure);
+  let observedRows = new Set<HTMLElement>();
+
+  function observeRows() {
+    const container = options.container.value;
+    const rows = new Set<HTMLElement>(
+      container && enabled.value
+        ? container.querySelectorAll<HTMLElement>(
+            `[data-${options.keyAttribute}]`,
+          )
+        : [],
+    );
+    for (const row of observedRows) {
+      if (!rows.has(row)) rowObserver.unobserve(row);
+    }
+    for (const row of rows) {
+      if (!observedRows.has(row)) rowObserver.observe(row);
+    }
+    observedRows = rows;
+  }
+
+  function readViewport() {
+    const container = options.container.value;
+    if (!container) return;
+    scrollTop.value = container.scrollTop;
+    viewportHeight.value = container.clientHeight;
+  }
+
+  // Scrolls just enough to bring the item into view and updates the window
+  // right away, so the item is rendered in the same tick
+  function scrollToKey(key: string) {
+    const container = options.container.value;
+    const index = options
+      .items()
+      .findIndex((item) => options.key(item) === key);
+    if (!container || !enabled.value || index === -1) return;
+
+    const top = offsets.value[index];
+    const bottom = offsets.value[index + 1];
+    if (top < container.scrollTop) {
+      container.scrollTop = top;
+    } else if (bottom > container.scrollTop + container.clientHeight) {
+      container.scrollTop = bottom - container.clientHeight;
+    }
+    readViewport();
+  }
+
+  let resizeObserver: ResizeObserver | null = null;
+
+  onMounted(() => {
+    const container = options.container.value;
+    if (!container) return;
+
+    container.addEventListener("scroll", readViewport, { passive: true });
+    resizeObserver = new ResizeObserver(readViewport);
+    resizeObserver.observe(container);
+    readViewport();
+    observeRows();
+  });
+
+  // Rows come and go with the window and the items
+  onUpdated(observeRows);
+
+  onUnmounted(() => {
+    options.container.value?.removeEventListener("scroll", readViewport);
+    resizeObserver?.disconnect();
+    rowObserver.disconnect();
+  });
+
+  return { enabled, visibleItems, paddingTop, paddingBottom, scrollToKey };
+}
@@ -0,0 +1,26 @@
+import { inject, type InjectionKey } from "vue";
+import type {
+  LiveEventName,
+  LiveEventPayload,
+  LiveEventReply,
+} from "../lib/liveEvents";
+
+// Direct access to the LiveView hook for components that need the server's
+// reply to an event (plain emits are fire-and-forget). The promise rejects
+// with a `NoReplyError` when no reply can come, see lib/liveReplies.ts.
+export interface LiveViewBridge {
+  pushEvent<E extends LiveEventName>(
+    event: E,
+    payload: LiveEventPayload<E>,
+  ): Promise<LiveEventReply<E>>;
+}
+
+export const liveViewKey: InjectionKey<LiveViewBridge> = Symbol("liveView");
+
+export function useLiveView(): LiveViewBridge {
+  const bridge = inject(liveViewKey);
+  if (!bridge) {
+    throw new Error("[LiveVue] useLiveView() called outside of a VueHook");
+  }
+  return bridge;
+}
@@ -0,0 +1,37 @@
+// Board data for tests, with every field a plain task or column has
+import type { ColumnData, Task } from "@/types/domain";
+
+export function task(id: string, overrides: Partial<Task> = {}): Task {
+  return {
+    id,
+    title: id,
+    description: null,
+    position: "a0",
+    column_id: "",
+    parent_task_id: null,
+    is_parent: false,
+    subtask_position: 0,
+    subtask_generation_status: null,
+    worktree_path: null,
+    worktree_branch: null,
+    agent_status: null,
+    agent_status_message: null,
+    pr_url: null,
+    pr_number: null,
+    pr_status: null,
+    inserted_at: "2026-01-01T00:00:00Z",
+    auto_start: false,
+    custom_branch_name: null,
+    executor_type: null,
+    skipped_hooks: [],
+    variant_group_id: null,
+    variant_number: null,
+    variant_status: null,
+    message_queue: [],
+    ...overrides,
+  };
+}
+
+export function column(name: string, tasks: Task[]): ColumnData {
+  return { id: name, name, position: "a0", color: null, system: false, tasks };
+}
@@ -0,0 +1,110 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  defaultChoice,
+  loadChoice,
+  normalizeChoice,
+  saveChoice,
+  type AgentChoice,
+  type ExecutorInfo,
+} from "@/lib/agentChoice";
+
+const claude: ExecutorInfo = {
+  name: "Claude Code",
+  type: "claude_code",
+  available: true,
+  capabilities: ["streaming", "plan_mode"],
+  models: ["sonnet", "opus"],
+};
+
+const gemini: ExecutorInfo = {
+  name: "Gemini CLI",
+  type: "gemini_cli",
+  available: true,
+  capabilities: ["streaming"],
+  models: ["gemini-2.5-pro"],
+};
+
+describe("defaultChoice", () => {
+  it("picks the first installed executor", () => {
+    const executors = [{ ...claude, available: false }, gemini];
+    expect(defaultChoice(executors)).toEqual({
+      executor: "gemini_cli",
+      model: null,
+      mode: "execute",
+    });
+  });
+
+  it("prefers the task's executor when it is installed", () => {
+    expect(defaultChoice([claude, gemini], "gemini_cli").executor).toBe(
+      "gemini_cli",
+    );
+    expect(
+      defaultChoice([claude, { ...gemini, available: false }], "gemini_cli")
+        .executor,
+    ).toBe("claude_code");
+  });
+});
+
+describe("normalizeChoice", () => {
+  it("keeps what the executor offers", () => {
+    const choice: AgentChoice = {
+      executor: "claude_code",
+      model: "opus",
+      mode: "plan",
+    };
+    expect(normalizeChoice(choice, [claude, gemini])).toEqual(choice);
+  });
+
+  it("drops models and modes the executor doesn't offer", () => {
+    expect(
+      normalizeChoice(
+        { executor: "gemini_cli", model: "opus", mode: "plan" },
+        [claude, gemini],
+      ),
+    ).toEqual({ executor: "gemini_cli", model: null, mode: "execute" });
+  });
+
+  it("falls back to the default for executors that aren't installed", () => {
+    const executors = [claude, { ...gemini, available: false }];
+    expect(
+      normalizeChoice({ executor: "gemini_cli", model: null }, executors),
+    ).toEqual(defaultChoice(executors));
+  });
+});
+
+describe("loadChoice / saveChoice", () => {
+  beforeEach(() => {
+    const store = new Map<string, string>();
+    vi.stubGlobal("localStorage", {
+      getItem: (key: string) => store.get(key) ?? null,
+      setItem: (key: string, value: string) => store.set(key, value),
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("remembers the choice per task", () => {
+    saveChoice("task-1", {
+      executor: "gemini_cli",
+      model: null,
+      mode: "execute",
+    });
+    saveChoice("task-2", {
+      executor: "claude_code",
+      model: "opus",
+      mode: "plan",
+    });
+
+    expect(loadChoice("task-1", [claude, gemini]).executor).toBe("gemini_cli");
+    expect(loadChoice("task-2", [claude, gemini])).toEqual({
+      executor: "claude_code",
+      model: "opus",
+      mode: "plan",
+    });
+    expect(loadChoice("task-3", [claude, gemini])).toEqual(
+      defaultChoice([claude, gemini]),
+    );
+  });
+});
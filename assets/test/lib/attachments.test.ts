@@ -0,0 +1,32 @@
+import { describe, expect, it } from "vitest";
+import { formatBytes, isImage, messageAttachments } from "@/lib/attachments";
+
+describe("messageAttachments", () => {
+  it("reads attachments from message metadata", () => {
+    const attachment = {
+      id: "a",
+      name: "shot.png",
+      content_type: "image/png",
+      size: 10,
+      url: "/api/tasks/t/images/a",
+    };
+    expect(messageAttachments({ attachments: [attachment] })).toEqual([
+      attachment,
+    ]);
+    expect(isImage(attachment)).toBe(true);
+  });
+
+  it("returns nothing for metadata without attachments", () => {
+    expect(messageAttachments(null)).toEqual([]);
+    expect(messageAttachments({ executor_type: "claude_code" })).toEqual([]);
+    expect(messageAttachments({ attachments: "nope" })).toEqual([]);
+  });
+});
+
+describe("formatBytes", () => {
+  it("picks a readable unit", () => {
+    expect(formatBytes(512)).toBe("512 B");
+    expect(formatBytes(20_400)).toBe("20 KB");
+    expect(formatBytes(3_250_000)).toBe("3.3 MB");
+  });
+});
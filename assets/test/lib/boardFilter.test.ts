@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import {
+  highlightTerms,
+  matchesFilter,
+  parseFilter,
+  termIndices,
+  type FilterableTask,
+} from "@/lib/boardFilter";
+
+function task(overrides: Partial<FilterableTask> = {}): FilterableTask {
+  return {
+    title: "Fix login bug",
+    description: null,
+    worktree_path: null,
+    worktree_branch: null,
+    agent_status: null,
+    pr_status: null,
+    pr_url: null,
+    is_parent: false,
+    parent_task_id: null,
+    ...overrides,
+  };
+}
+
+function matches(query: string, t: FilterableTask) {
+  return matchesFilter(t, parseFilter(query));
+}
+
+describe("parseFilter", () => {
+  it("splits qualifiers, negations, quoted text and free text", () => {
+    expect(parseFilter('status:error,thinking -pr:merged "login bug" x').terms)
+      .toEqual([
+        {
+          kind: "qualifier",
+          key: "status",
+          values: ["error", "thinking"],
+          negated: false,
+        },
+        { kind: "qualifier", key: "pr", values: ["merged"], negated: true },
+        { kind: "text", text: "login bug", negated: false },
+        { kind: "text", text: "x", negated: false },
+      ]);
+  });
+
+  it("treats unknown qualifiers as text and ignores empty ones", () => {
+    expect(parseFilter("foo:bar status:").terms).toEqual([
+      { kind: "text", text: "foo:bar", negated: false },
+    ]);
+  });
+});
+
+describe("matchesFilter", () => {
+  it("matches free text against title, description and branch", () => {
+    expect(matches("LOGIN", task())).toBe(true);
+    expect(matches("oauth", task({ description: "Use OAuth" }))).toBe(true);
+    expect(matches("feat", task({ worktree_branch: "feat/x" }))).toBe(true);
+    expect(matches("signup", task())).toBe(false);
+  });
+
+  it("matches statuses, treating a missing agent status as idle", () => {
+    expect(matches("status:idle", task())).toBe(true);
+    expect(matches("status:error,thinking", task({ agent_status: "thinking" })))
+      .toBe(true);
+    expect(matches("-status:error", task({ agent_status: "error" }))).toBe(
+      false,
+    );
+  });
+
+  it("matches PR status, with pr:none for tasks without a PR", () => {
+    const withPr = task({ pr_url: "https://x/pull/1", pr_status: "open" });
+    expect(matches("pr:open", withPr)).toBe(true);
+    expect(matches("pr:none", withPr)).toBe(false);
+    expect(matches("pr:none", task())).toBe(true);
+  });
+
+  it("matches branch globs and substrings", () => {
+    const t = task({ worktree_branch: "feat/login" });
+    expect(matches("branch:feat/*", t)).toBe(true);
+    expect(matches("branch:*/login", t)).toBe(true);
+    expect(matches("branch:fix/*", t)).toBe(false);
+    expect(matches("branch:log", t)).toBe(true);
+  });
+
+  it("matches has: and is: flags", () => {
+    const t = task({ worktree_path: "/tmp/wt", is_parent: true });
+    expect(matches("has:worktree is:parent", t)).toBe(true);
+    expect(matches("has:pr", t)).toBe(false);
+    expect(matches("is:subtask", task({ parent_task_id: "p" }))).toBe(true);
+  });
+});
+
+describe("highlighting", () => {
+  it("highlights free text and literal branch parts", () => {
+    const filter = parseFilter("login branch:feat/* -bug status:error");
+    expect(highlightTerms(filter)).toEqual(["login", "feat/"]);
+  });
+
+  it("finds every occurrence of every term", () => {
+    expect(termIndices("abab", ["ab"])).toEqual([0, 1, 2, 3]);
+    expect(termIndices("abc", ["", "c"])).toEqual([2]);
+  });
+});
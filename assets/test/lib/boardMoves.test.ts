@@ -0,0 +1,167 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  applyPendingMoves,
+  isMoveSettled,
+  replyWithin,
+  resolveMoves,
+  type PendingMove,
+} from "@/lib/boardMoves";
+
+const columns = [
+  {
+    id: "todo",
+    tasks: [
+      { id: "a", column_id: "todo", position: "a0" },
+      { id: "b", column_id: "todo", position: "a1" },
+    ],
+  },
+  {
+    id: "done",
+    tasks: [{ id: "c", column_id: "done", position: "a0" }],
+  },
+];
+
+function move(overrides: Partial<PendingMove> = {}): PendingMove {
+  return {
+    id: "m1",
+    taskId: "a",
+    columnId: "done",
+    prevTaskId: "c",
+    nextTaskId: null,
+    position: "a1",
+    status: "pending",
+    ...overrides,
+  };
+}
+
+// The columns once the server has moved "a" after "c"
+const settled = [
+  columns[0],
+  { ...columns[1], tasks: [{ id: "a", column_id: "done", position: "a1" }] },
+];
+
+const ids = (cols: typeof columns) =>
+  cols.map((column) => column.tasks.map((task) => task.id));
+
+describe("applyPendingMoves", () => {
+  it("shows a moved task in its new slot right away", () => {
+    const moved = applyPendingMoves(columns, [move()]);
+
+    expect(ids(moved)).toEqual([["b"], ["c", "a"]]);
+    expect(moved[1].tasks[1]).toMatchObject({
+      column_id: "done",
+      position: "a1",
+    });
+  });
+
+  it("places a move without a position next to its neighbours", () => {
+    const moved = applyPendingMoves(columns, [
+      move({ columnId: "todo", taskId: "c", nextTaskId: "b", position: null }),
+    ]);
+
+    expect(ids(moved)).toEqual([["a", "c", "b"], []]);
+  });
+
+  it("leaves the columns alone without pending moves", () => {
+    expect(applyPendingMoves(columns, [])).toBe(columns);
+  });
+});
+
+describe("isMoveSettled", () => {
+  it("waits for the server to confirm the move", () => {
+    expect(isMoveSettled(settled, move())).toBe(false);
+  });
+
+  it("settles once the columns show the task where the server put it", () => {
+    const confirmed = move({ status: "confirmed" });
+
+    expect(isMoveSettled(columns, confirmed)).toBe(false);
+    expect(isMoveSettled(settled, confirmed)).toBe(true);
+  });
+});
+
+describe("resolveMoves", () => {
+  it("confirms an accepted move until the columns show it", () => {
+    const { pending, errors } = resolveMoves(
+      [move()],
+      [move()],
+      { ok: true, task: { id: "a", column_id: "done", position: "a2" } },
+      columns,
+    );
+
+    expect(pending).toEqual([move({ status: "confirmed", position: "a2" })]);
+    expect(errors.size).toBe(0);
+  });
+
+  it("drops an accepted move the columns already show", () => {
+    const { pending } = resolveMoves(
+      [move()],
+      [move()],
+      { ok: true, task: { id: "a", column_id: "done", position: "a1" } },
+      settled,
+    );
+
+    expect(pending).toEqual([]);
+  });
+
+  it("rolls back rejected moves with the server's error", () => {
+    const other = move({ id: "m2", taskId: "b" });
+    const { pending, errors } = resolveMoves(
+      [move(), other],
+      [move(), other],
+      {
+        ok: false,
+        tasks: [{ id: "b", column_id: "done", position: "a2" }],
+        errors: [{ id: "a", error: "Column is full" }],
+      },
+      columns,
+    );
+
+    expect(pending.map((m) => m.id)).toEqual(["m2"]);
+    expect(errors).toEqual(new Map([["a", "Column is full"]]));
+  });
+
+  it("falls back to a generic error", () => {
+    const { errors } = resolveMoves([move()], [move()], { ok: false }, columns);
+
+    expect(errors.get("a")).toBe("Failed to move task");
+  });
+
+  it("rolls back moves the server never answered", () => {
+    const { pending, errors } = resolveMoves([move()], [move()], null, columns);
+
+    expect(pending).toEqual([]);
+    expect(errors.size).toBe(0);
+  });
+
+  it("keeps a later move of the same task", () => {
+    const later = move({ id: "m2", columnId: "todo", position: "a2" });
+    const { pending } = resolveMoves([later], [move()], null, columns);
+
+    expect(pending).toEqual([later]);
+  });
+});
+
+describe("replyWithin", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("resolves with the reply when it comes in time", async () => {
+    await expect(replyWithin(Promise.resolve("ok"), 100)).resolves.toBe("ok");
+  });
+
+  it("resolves with null when the request fails", async () => {
+    const failed = Promise.reject(new Error("disconnected"));
+
+    await expect(replyWithin(failed, 100)).resolves.toBeNull();
+  });
+
+  it("resolves with null when the reply is late", async () => {
+    vi.useFakeTimers();
+    const reply = replyWithin(new Promise(() => {}), 100);
+
+    vi.advanceTimersByTime(100);
+    await expect(reply).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, expect, it } from "vitest";
+import { rankCommands, type Command } from "@/lib/commandPalette";
+import { fuzzyMatch, highlightSegments } from "@/lib/fuzzy";
+
+function command(id: string, title: string, keywords?: string[]): Command {
+  return { id, kind: "task", title, keywords, run: () => {} };
+}
+
+describe("fuzzyMatch", () => {
+  it("matches characters in order, ignoring case", () => {
+    expect(fuzzyMatch("fxlg", "Fix login bug")?.indices).toEqual([0, 2, 4, 6]);
+    expect(fuzzyMatch("gulf", "Fix login bug")).toBeNull();
+  });
+
+  it("ranks substrings above scattered matches", () => {
+    const substring = fuzzyMatch("log", "Fix login bug")!;
+    const scattered = fuzzyMatch("log", "Lots of green")!;
+    expect(substring.score).toBeGreaterThan(scattered.score);
+  });
+
+  it("matches everything with an empty query", () => {
+    expect(fuzzyMatch("  ", "anything")).toEqual({ score: 0, indices: [] });
+  });
+});
+
+describe("highlightSegments", () => {
+  it("groups matched and unmatched runs", () => {
+    expect(highlightSegments("abcd", [1, 2])).toEqual([
+      { text: "a", match: false },
+      { text: "bc", match: true },
+      { text: "d", match: false },
+    ]);
+  });
+});
+
+describe("rankCommands", () => {
+  const commands = [
+    command("a", "Refactor parser"),
+    command("b", "Fix parser crash"),
+    command("c", "Update docs", ["feature/parser-docs"]),
+  ];
+
+  it("orders by match quality and searches keywords", () => {
+    const ids = rankCommands(commands, "parser", []).map((r) => r.command.id);
+    expect(ids).toEqual(["b", "a", "c"]);
+  });
+
+  it("puts recently used commands first", () => {
+    const ids = rankCommands(commands, "parser", ["c", "a"]).map(
+      (r) => r.command.id,
+    );
+    expect(ids).toEqual(["c", "a", "b"]);
+  });
+
+  it("drops commands that do not match", () => {
+    expect(rankCommands(commands, "zzz", [])).toEqual([]);
+  });
+});
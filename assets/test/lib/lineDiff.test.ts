@@ -0,0 +1,133 @@
+import { describe, expect, it } from "vitest";
+import {
+  diffLines,
+  parsePatch,
+  splitRows,
+  toHunks,
+  type DiffLine,
+} from "@/lib/lineDiff";
+
+const render = (lines: DiffLine[]) =>
+  lines.map(
+    (line) =>
+      ({ context: " ", add: "+", remove: "-" })[line.kind] + line.text,
+  );
+
+describe("diffLines", () => {
+  it("keeps unchanged lines as context", () => {
+    expect(render(diffLines("a\nb\nc\nd", "a\nB\nc\nd\ne"))).toEqual([
+      " a",
+      "-b",
+      "+B",
+      " c",
+      " d",
+      "+e",
+    ]);
+  });
+
+  it("treats a new file as all additions", () => {
+    expect(render(diffLines("", "x\ny\n"))).toEqual(["+x", "+y"]);
+  });
+});
+
+describe("toHunks", () => {
+  const lines = (n: number) =>
+    Array.from({ length: n }, (_, i) => `line ${i + 1}`).join("\n");
+
+  it("splits distant changes into hunks with surrounding context", () => {
+    const before = lines(20);
+    const after = before
+      .replace("line 2\n", "line two\n")
+      .replace("line 18\n", "line eighteen\n");
+    const hunks = toHunks(diffLines(before, after), 2);
+
+    expect(hunks.map((h) => [h.oldStart, h.newStart])).toEqual([
+      [1, 1],
+      [16, 16],
+    ]);
+    expect(render(hunks[0].lines)).toEqual([
+      " line 1",
+      "-line 2",
+      "+line two",
+      " line 3",
+      " line 4",
+    ]);
+  });
+
+  it("merges changes closer than twice the context", () => {
+    const before = lines(10);
+    const after = before.replace("line 3\n", "").replace("line 7\n", "");
+    const hunks = toHunks(diffLines(before, after), 2);
+
+    expect(hunks).toHaveLength(1);
+    expect(render(hunks[0].lines)).toEqual([
+      " line 1",
+      " line 2",
+      "-line 3",
+      " line 4",
+      " line 5",
+      " line 6",
+      "-line 7",
+      " line 8",
+      " line 9",
+    ]);
+  });
+});
+
+describe("parsePatch", () => {
+  it("reads the hunks of a git diff", () => {
+    const patch = [
+      "diff --git a/a.txt b/a.txt",
+      "index 01e79c3..8a1218a 100644",
+      "--- a/a.txt",
+      "+++ b/a.txt",
+      "@@ -1,3 +1,3 @@",
+      " 1",
+      "-2",
+      "+TWO",
+      " 3",
+      "@@ -10 +10,2 @@ def main",
+      " 10",
+      "+11",
+      "\\ No newline at end of file",
+      "",
+    ].join("\n");
+
+    const { binary, hunks } = parsePatch(patch);
+    expect(binary).toBe(false);
+    expect(hunks.map((h) => [h.oldStart, h.newStart])).toEqual([
+      [1, 1],
+      [10, 10],
+    ]);
+    expect(render(hunks[0].lines)).toEqual([" 1", "-2", "+TWO", " 3"]);
+    expect(render(hunks[1].lines)).toEqual([" 10", "+11"]);
+  });
+
+  it("flags binary files", () => {
+    const patch = [
+      "diff --git a/logo.png b/logo.png",
+      "Binary files a/logo.png and b/logo.png differ",
+    ].join("\n");
+    expect(parsePatch(patch)).toEqual({ binary: true, hunks: [] });
+  });
+});
+
+describe("splitRows", () => {
+  it("pairs removed lines with the added lines that replace them", () => {
+    const { hunks } = parsePatch(
+      ["@@ -4,4 +4,4 @@", " a", "-b", "-c", "+B", " d", "+e"].join("\n"),
+    );
+    const rows = splitRows(hunks[0]).map(({ left, right }) => [
+      left && `${left.oldNumber}${left.text}`,
+      right && `${right.newNumber}${right.text}`,
+    ]);
+
+    expect(rows).toEqual([
+      ["4a", "4a"],
+      ["5b", "5B"],
+      ["6c", null],
+      ["7d", "6d"],
+      [null, "7e"],
+    ]);
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import {
+  liveEmits,
+  toEmitName,
+  toEventName,
+  validatePayload,
+} from "@/lib/liveEvents";
+
+describe("event names", () => {
+  it("maps server events to emits and back", () => {
+    expect(toEmitName("show_create_pr_modal")).toBe("showCreatePrModal");
+    expect(toEventName("showCreatePrModal")).toBe("show_create_pr_modal");
+    expect(toEventName("navigate")).toBe("navigate");
+  });
+
+  it("builds an emits option keyed by emit name", () => {
+    expect(Object.keys(liveEmits("select_task", "open_settings"))).toEqual([
+      "selectTask",
+      "openSettings",
+    ]);
+  });
+});
+
+describe("validatePayload", () => {
+  it("accepts payloads that fit the schema", () => {
+    expect(validatePayload("select_task", { taskId: "t1" })).toEqual([]);
+    expect(validatePayload("open_settings", undefined)).toEqual([]);
+    expect(
+      validatePayload("move_task", {
+        taskId: "t1",
+        columnId: "c1",
+        prevTaskId: null,
+        nextTaskId: "t2",
+      }),
+    ).toEqual([]);
+  });
+
+  it("reports wrong, missing and unexpected fields", () => {
+    expect(
+      validatePayload("bulk_send_message", { taskIds: ["a", 1], task_id: "x" }),
+    ).toEqual([
+      'bulk_send_message: "taskIds" should be string[]',
+      'bulk_send_message: "message" should be string',
+      'bulk_send_message: unexpected "task_id"',
+    ]);
+  });
+
+  it("checks boolean fields", () => {
+    const settings = {
+      taskId: "t1",
+      customBranchName: null,
+      skippedHooks: [],
+    };
+    expect(
+      validatePayload("update_task_settings", { ...settings, autoStart: true }),
+    ).toEqual([]);
+    expect(
+      validatePayload("update_task_settings", { ...settings, autoStart: "on" }),
+    ).toEqual(['update_task_settings: "autoStart" should be boolean']);
+  });
+
+  it("rejects unknown events and non-object payloads", () => {
+    expect(validatePayload("archive_board", {})).toEqual([
+      'unknown event "archive_board"',
+    ]);
+    expect(validatePayload("select_task", "t1")).toEqual([
+      "select_task: payload must be an object",
+    ]);
+  });
+});
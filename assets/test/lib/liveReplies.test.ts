@@ -0,0 +1,112 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  NoReplyError,
+  PendingReplies,
+  replyErrorMessage,
+} from "@/lib/liveReplies";
+
+// A pushEvent whose reply the test sends
+function pushed() {
+  let reply: (value: unknown) => void = () => {};
+  const push = (callback: (value: unknown) => void) => {
+    reply = callback;
+  };
+  return { push, reply: (value: unknown) => reply(value) };
+}
+
+describe("PendingReplies", () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("resolves with the server's reply", async () => {
+    const replies = new PendingReplies();
+    const { push, reply } = pushed();
+
+    const request = replies.track("update_task", push);
+    reply("ok");
+
+    await expect(request).resolves.toBe("ok");
+  });
+
+  it("fails what is still waiting when the LiveView disconnects", async () => {
+    const replies = new PendingReplies();
+    const request = replies.track("load_task_diff", pushed().push);
+
+    replies.disconnected();
+
+    await expect(request).rejects.toMatchObject({
+      event: "load_task_diff",
+      reason: "disconnected",
+    });
+  });
+
+  it("fails right away while disconnected, until reconnected", async () => {
+    const replies = new PendingReplies();
+    const push = vi.fn();
+
+    replies.disconnected();
+    await expect(replies.track("update_task", push)).rejects.toBeInstanceOf(
+      NoReplyError,
+    );
+    expect(push).not.toHaveBeenCalled();
+
+    replies.reconnected();
+    void replies.track("update_task", push);
+    expect(push).toHaveBeenCalledOnce();
+  });
+
+  it("fails a reply that takes too long", async () => {
+    vi.useFakeTimers();
+    const replies = new PendingReplies();
+    const request = replies.track("load_task_diff", pushed().push, 100);
+
+    vi.advanceTimersByTime(100);
+
+    await expect(request).rejects.toMatchObject({ reason: "timeout" });
+  });
+
+  it("waits for a reply the server pushes later", async () => {
+    const replies = new PendingReplies();
+    const { push, reply } = pushed();
+    const request = replies.track("load_task_diff", push);
+
+    reply({ async: "7" });
+    replies.receive("8", { ok: false });
+    replies.receive("7", { ok: true });
+
+    await expect(request).resolves.toEqual({ ok: true });
+  });
+
+  it("fails a pushed reply that doesn't come", async () => {
+    vi.useFakeTimers();
+    const replies = new PendingReplies();
+    const { push, reply } = pushed();
+    const request = replies.track("load_task_diff", push, 100);
+
+    reply({ async: "7" });
+    vi.advanceTimersByTime(100);
+
+    await expect(request).rejects.toMatchObject({ reason: "timeout" });
+  });
+
+  it("ignores a disconnect after the reply came", async () => {
+    const replies = new PendingReplies();
+    const { push, reply } = pushed();
+    const request = replies.track("update_task", push);
+
+    reply("ok");
+    replies.disconnected();
+
+    await expect(request).resolves.toBe("ok");
+  });
+});
+
+describe("replyErrorMessage", () => {
+  it("explains why no reply came", () => {
+    const error = new NoReplyError("update_task", "disconnected");
+
+    expect(replyErrorMessage(error)).toBe("Lost the connection to the server");
+    expect(replyErrorMessage("?")).toBe("Something went wrong");
+  });
+});
@@ -0,0 +1,71 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from "vitest";
+import { escapeHtml, highlightCode, renderMarkdown } from "@/lib/markdown";
+
+describe("highlightCode", () => {
+  it("highlights registered languages and their aliases", () => {
+    expect(highlightCode("const x = 1;", "ts")).toContain(
+      '<span class="hljs-keyword">const</span>',
+    );
+    expect(highlightCode("defmodule A do end", "elixir")).toContain(
+      "hljs-keyword",
+    );
+  });
+
+  it("escapes code in unknown or missing languages", () => {
+    expect(highlightCode("<script>", "brainfuck")).toBe("&lt;script&gt;");
+    expect(highlightCode("a & b")).toBe("a &amp; b");
+  });
+
+  it("ignores info string words after the language", () => {
+    expect(highlightCode("x = 1", "python title=a.py")).toContain(
+      "hljs-number",
+    );
+  });
+});
+
+describe("escapeHtml", () => {
+  it("escapes markup and quotes", () => {
+    expect(escapeHtml(`<a href="x">'</a>`)).toBe(
+      "&lt;a href=&quot;x&quot;&gt;&#39;&lt;/a&gt;",
+    );
+  });
+});
+
+describe("renderMarkdown", () => {
+  it("renders markdown and opens links in a new tab", () => {
+    const html = renderMarkdown("**bold** [docs](https://example.com)");
+
+    expect(html).toContain("<strong>bold</strong>");
+    expect(html).toContain('target="_blank"');
+    expect(html).toContain('rel="noopener noreferrer"');
+  });
+
+  it("strips script tags", () => {
+    const html = renderMarkdown("hi <script>alert(1)</script>");
+
+    expect(html).not.toContain("<script");
+    expect(html).not.toContain("alert(1)");
+  });
+
+  it("strips event handler attributes", () => {
+    const html = renderMarkdown('<img src="x" onerror="alert(1)">');
+
+    expect(html).toContain("<img");
+    expect(html).not.toContain("onerror");
+  });
+
+  it("strips javascript: URLs", () => {
+    const html = renderMarkdown(
+      '[click](javascript:alert(1)) <a href="javascript:alert(2)">a</a>',
+    );
+
+    expect(html).not.toMatch(/javascript:/i);
+  });
+
+  it("keeps highlighted code", () => {
+    expect(renderMarkdown("```ts\nconst x = 1;\n```")).toContain(
+      "hljs-keyword",
+    );
+  });
+});
@@ -0,0 +1,107 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  effectNotification,
+  eventNotification,
+  loadNotificationSettings,
+  notifies,
+  saveNotificationSettings,
+  setNotifies,
+  unreadTitle,
+  worstLevel,
+} from "@/lib/notifications";
+
+const none = { boards: {} };
+
+describe("eventNotification", () => {
+  it("names the task and what happened to it", () => {
+    expect(
+      eventNotification(none, "board", {
+        event: "agent_error",
+        task_id: "t1",
+        task_title: "Fix login",
+      }),
+    ).toEqual({
+      taskId: "t1",
+      title: "Fix login",
+      body: "Agent failed",
+      level: "error",
+    });
+  });
+
+  it("skips events the board turned off or that never notify", () => {
+    const settings = setNotifies(none, "board", "agent_finished", false);
+    const payload = { event: "agent_finished", task_id: "t1", task_title: "" };
+
+    expect(eventNotification(settings, "board", payload)).toBeNull();
+    expect(eventNotification(settings, "other", payload)).not.toBeNull();
+    expect(
+      eventNotification(none, "board", { ...payload, event: "pr_merged" }),
+    ).toBeNull();
+  });
+});
+
+describe("effectNotification", () => {
+  it("shows the hook's notify effect unless the board turned them off", () => {
+    const effect = { title: "Fix login", body: "Entered To Review" };
+
+    expect(effectNotification(none, "board", "t1", effect)?.level).toBe(
+      "done",
+    );
+    expect(
+      effectNotification(
+        setNotifies(none, "board", "hook_notify", false),
+        "board",
+        "t1",
+        effect,
+      ),
+    ).toBeNull();
+  });
+});
+
+describe("unreadTitle", () => {
+  it("puts the count in front of the title, once", () => {
+    expect(unreadTitle("Viban", 2)).toBe("(2) Viban");
+    expect(unreadTitle("(2) Viban", 3)).toBe("(3) Viban");
+    expect(unreadTitle("(3) Viban", 0)).toBe("Viban");
+  });
+});
+
+describe("worstLevel", () => {
+  it("prefers errors", () => {
+    expect(worstLevel([])).toBeNull();
+    expect(worstLevel(["done", "error", "done"])).toBe("error");
+  });
+});
+
+describe("loadNotificationSettings / saveNotificationSettings", () => {
+  let store: Map<string, string>;
+
+  beforeEach(() => {
+    store = new Map<string, string>();
+    vi.stubGlobal("localStorage", {
+      getItem: (key: string) => store.get(key) ?? null,
+      setItem: (key: string, value: string) => store.set(key, value),
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("round-trips the board choices", () => {
+    saveNotificationSettings(setNotifies(none, "board", "agent_error", false));
+
+    const settings = loadNotificationSettings();
+    expect(notifies(settings, "board", "agent_error")).toBe(false);
+    expect(notifies(settings, "board", "moved_to_review")).toBe(true);
+  });
+
+  it("drops stored choices that aren't events turned on or off", () => {
+    const boards = { b1: { agent_error: false, gone: false, pr: "no" }, b2: 1 };
+    store.set("viban:notifications", JSON.stringify({ boards }));
+
+    expect(loadNotificationSettings()).toEqual({
+      boards: { b1: { agent_error: false } },
+    });
+  });
+});
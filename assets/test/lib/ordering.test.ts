@@ -0,0 +1,139 @@
+import { describe, expect, it } from "vitest";
+import {
+  generateKeyBetween,
+  generateNKeysBetween,
+  isValidKey,
+  keyBetweenNeighbours,
+  OrderingError,
+} from "@/lib/ordering";
+// Also checked against the server's FractionalIndex, see
+// test/viban/kanban/task/changes/calculate_position_test.exs
+import serverKeys from "../../../test/support/order_keys.json";
+
+function expectAscending(keys: string[]) {
+  for (let i = 1; i < keys.length; i++) {
+    expect(keys[i - 1] < keys[i]).toBe(true);
+  }
+}
+
+describe("generateKeyBetween", () => {
+  it("makes the keys the server makes for the same neighbours", () => {
+    for (const { before, after, key } of serverKeys) {
+      expect(generateKeyBetween(before, after)).toBe(key);
+    }
+  });
+
+  it("starts an empty list at a0", () => {
+    expect(generateKeyBetween(null, null)).toBe("a0");
+  });
+
+  it("increments the integer part when appending", () => {
+    expect(generateKeyBetween("a0", null)).toBe("a1");
+    expect(generateKeyBetween("az", null)).toBe("b00");
+    expect(generateKeyBetween("Zz", null)).toBe("a0");
+  });
+
+  it("decrements the integer part when prepending", () => {
+    expect(generateKeyBetween(null, "a1")).toBe("a0");
+    expect(generateKeyBetween(null, "a0")).toBe("Zz");
+    expect(generateKeyBetween(null, "b00")).toBe("az");
+  });
+
+  it("bisects keys that share an integer part", () => {
+    expect(generateKeyBetween("a0", "a1")).toBe("a0V");
+    expect(generateKeyBetween("a0V", "a1")).toBe("a0l");
+    expect(generateKeyBetween("a0", "a0V")).toBe("a0G");
+  });
+
+  it("rejects neighbours that are out of order or equal", () => {
+    expect(() => generateKeyBetween("a1", "a0")).toThrow(OrderingError);
+    expect(() => generateKeyBetween("a1", "a1")).toThrow(OrderingError);
+  });
+
+  it("rejects keys with trailing zeros in the fraction", () => {
+    expect(isValidKey("a0V0")).toBe(false);
+    expect(() => generateKeyBetween("a0V0", null)).toThrow(OrderingError);
+  });
+
+  it("bisects legacy column positions without an integer part", () => {
+    const key = generateKeyBetween("A", "E");
+    expect("A" < key && key < "E").toBe(true);
+    expect(generateKeyBetween("Q", null) > "Q").toBe(true);
+    expect(generateKeyBetween(null, "A") < "A").toBe(true);
+  });
+
+  it("places items between legacy positions and integer keys", () => {
+    const cases: [string | null, string | null][] = [
+      ["Q", "a0"],
+      ["a0", "x"],
+      ["Zz", "a"],
+      ["E", "Zz"],
+      ["a0", "b"],
+    ];
+    for (const [a, b] of cases) {
+      const key = generateKeyBetween(a, b);
+      expect((a === null || a < key) && (b === null || key < b)).toBe(true);
+    }
+    expect(generateKeyBetween("Q", "a0")).toBe("Zz");
+  });
+
+  it("keeps keys short when repeatedly dragging to the front", () => {
+    let first = "a0";
+    for (let i = 0; i < 500; i++) {
+      const next = generateKeyBetween(null, first);
+      expect(next < first).toBe(true);
+      first = next;
+    }
+    expect(first.length).toBeLessThanOrEqual(4);
+  });
+
+  it("keeps keys short when repeatedly dragging to the end", () => {
+    let last = "a0";
+    for (let i = 0; i < 500; i++) {
+      const next = generateKeyBetween(last, null);
+      expect(next > last).toBe(true);
+      last = next;
+    }
+    expect(last.length).toBeLessThanOrEqual(4);
+  });
+
+  it("always produces a strictly ordered key when bisecting repeatedly", () => {
+    let low = "a0";
+    const high = "a1";
+    for (let i = 0; i < 200; i++) {
+      const mid = generateKeyBetween(low, high);
+      expect(low < mid && mid < high).toBe(true);
+      expect(isValidKey(mid)).toBe(true);
+      low = mid;
+    }
+  });
+});
+
+describe("generateNKeysBetween", () => {
+  it("returns no keys for n = 0", () => {
+    expect(generateNKeysBetween("a0", "a1", 0)).toEqual([]);
+  });
+
+  it("returns ascending keys strictly inside the bounds", () => {
+    const keys = generateNKeysBetween("a0", "a1", 20);
+    expect(keys).toHaveLength(20);
+    expectAscending(["a0", ...keys, "a1"]);
+    expect(new Set(keys).size).toBe(20);
+  });
+
+  it("handles open bounds on either side", () => {
+    expectAscending(generateNKeysBetween(null, null, 5));
+    expectAscending([...generateNKeysBetween(null, "a0", 5), "a0"]);
+    expectAscending(["a0", ...generateNKeysBetween("a0", null, 5)]);
+  });
+});
+
+describe("keyBetweenNeighbours", () => {
+  it("treats missing neighbours as open ends", () => {
+    expect(keyBetweenNeighbours(undefined, "")).toBe("a0");
+  });
+
+  it("returns null instead of throwing for stale neighbours", () => {
+    expect(keyBetweenNeighbours("a2", "a1")).toBeNull();
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, expect, it } from "vitest";
+import { applyPatch, PatchError } from "@/lib/propsPatch";
+
+function board() {
+  return {
+    filter: "",
+    selectedTaskId: "a" as string | null,
+    columns: [
+      {
+        id: "todo",
+        tasks: [
+          { id: "a", title: "A" },
+          { id: "b", title: "B" },
+        ],
+      },
+    ],
+  };
+}
+
+describe("applyPatch", () => {
+  it("replaces and removes values in place", () => {
+    const props: Record<string, unknown> = board();
+    const columns = props.columns;
+
+    applyPatch(props, [
+      { op: "replace", path: ["columns", 0, "tasks", 1, "title"], value: "B2" },
+      { op: "replace", path: ["filter"], value: "bug" },
+      { op: "remove", path: ["selectedTaskId"] },
+    ]);
+
+    expect(props.columns).toBe(columns);
+    expect(props).toEqual({
+      filter: "bug",
+      columns: [
+        {
+          id: "todo",
+          tasks: [
+            { id: "a", title: "A" },
+            { id: "b", title: "B2" },
+          ],
+        },
+      ],
+    });
+  });
+
+  it("reorders keyed lists, keeping existing items", () => {
+    const props = board();
+    const [a, b] = props.columns[0].tasks;
+
+    applyPatch(props, [
+      {
+        op: "order",
+        path: ["columns", 0, "tasks"],
+        ids: ["b", "c", "a"],
+        added: { c: { id: "c", title: "C" } },
+      },
+    ]);
+
+    const tasks = props.columns[0].tasks;
+    expect(tasks.map((task) => task.id)).toEqual(["b", "c", "a"]);
+    expect(tasks[0]).toBe(b);
+    expect(tasks[2]).toBe(a);
+  });
+
+  it("replaces all props for an empty path", () => {
+    const props: Record<string, unknown> = board();
+    applyPatch(props, [{ op: "replace", path: [], value: { filter: "x" } }]);
+    expect(props).toEqual({ filter: "x" });
+  });
+
+  it("throws when the ops do not fit the props", () => {
+    expect(() =>
+      applyPatch(board(), [
+        { op: "replace", path: ["columns", 3, "name"], value: "Done" },
+      ]),
+    ).toThrow(PatchError);
+    expect(() =>
+      applyPatch(board(), [
+        { op: "order", path: ["columns", 0, "tasks"], ids: ["z"], added: {} },
+      ]),
+    ).toThrow(PatchError);
+  });
+});
@@ -0,0 +1,197 @@
+// @vitest-environment jsdom
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ShortcutManager, type ShortcutDefinition } from "@/lib/shortcuts";
+
+function press(
+  manager: ShortcutManager,
+  key: string,
+  init: KeyboardEventInit = {},
+  target: HTMLElement = document.body,
+): KeyboardEvent {
+  const event = new KeyboardEvent("keydown", {
+    key,
+    cancelable: true,
+    bubbles: true,
+    ...init,
+  });
+  target.dispatchEvent(event);
+  manager.handleKeydown(event);
+  return event;
+}
+
+describe("ShortcutManager", () => {
+  let manager: ShortcutManager;
+  let fired: string[];
+
+  const shortcut = (
+    name: string,
+    definition: Partial<ShortcutDefinition> & { keys: string },
+  ): ShortcutDefinition => ({
+    description: name,
+    context: "global",
+    handler: () => {
+      fired.push(name);
+    },
+    ...definition,
+  });
+
+  beforeEach(() => {
+    manager = new ShortcutManager();
+    fired = [];
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    document.body.innerHTML = "";
+  });
+
+  it("fires a matching shortcut and prevents the default", () => {
+    manager.register(shortcut("help", { keys: "?" }));
+
+    const event = press(manager, "?", { shiftKey: true });
+    expect(fired).toEqual(["help"]);
+    expect(event.defaultPrevented).toBe(true);
+
+    press(manager, "x");
+    expect(fired).toEqual(["help"]);
+  });
+
+  it("matches mod on either Cmd or Ctrl, and checks shift on letters", () => {
+    manager.register(shortcut("palette", { keys: "mod+k" }));
+    manager.register(shortcut("up", { keys: "shift+arrowup" }));
+
+    press(manager, "k", { metaKey: true });
+    press(manager, "k", { ctrlKey: true });
+    press(manager, "k");
+    press(manager, "ArrowUp");
+    press(manager, "ArrowUp", { shiftKey: true });
+    expect(fired).toEqual(["palette", "palette", "up"]);
+  });
+
+  it("only fires shortcuts of active contexts", () => {
+    manager.register(shortcut("new task", { keys: "n", context: "board" }));
+
+    press(manager, "n");
+    const leave = manager.enterContext("board");
+    press(manager, "n");
+    leave();
+    leave();
+    press(manager, "n");
+
+    expect(fired).toEqual(["new task"]);
+  });
+
+  it("prefers the more specific context, then the latest registration", () => {
+    const inPanel = { keys: "escape", context: "taskPanel" } as const;
+    manager.register(shortcut("global", { keys: "escape" }));
+    manager.register(shortcut("panel", inPanel));
+    manager.enterContext("taskPanel");
+
+    press(manager, "Escape");
+    manager.register(shortcut("later", inPanel));
+    press(manager, "Escape");
+
+    expect(fired).toEqual(["panel", "later"]);
+  });
+
+  it("falls through when a handler returns false", () => {
+    manager.register(shortcut("global", { keys: "escape" }));
+    manager.register({
+      ...shortcut("panel", { keys: "escape", context: "taskPanel" }),
+      handler: () => false,
+    });
+    manager.enterContext("taskPanel");
+
+    const event = press(manager, "Escape");
+    expect(fired).toEqual(["global"]);
+    expect(event.defaultPrevented).toBe(true);
+  });
+
+  it("hides board and task panel shortcuts behind a modal", () => {
+    manager.register(shortcut("board", { keys: "n", context: "board" }));
+    manager.register(shortcut("help", { keys: "?" }));
+    manager.enterContext("board");
+    manager.enterContext("taskPanel");
+    const closeModal = manager.enterContext("modal");
+
+    expect(manager.activeContexts()).toEqual(["modal", "global"]);
+    press(manager, "n");
+    press(manager, "?");
+    closeModal();
+    press(manager, "n");
+
+    expect(fired).toEqual(["help", "board"]);
+    expect(manager.currentContext()).toBe("taskPanel");
+  });
+
+  it("fires a chord pressed within the timeout", () => {
+    vi.useFakeTimers();
+    manager.register(shortcut("boards", { keys: "g b" }));
+
+    const first = press(manager, "g");
+    expect(first.defaultPrevented).toBe(true);
+    vi.advanceTimersByTime(500);
+    press(manager, "b");
+
+    expect(fired).toEqual(["boards"]);
+  });
+
+  it("drops a chord after the timeout", () => {
+    vi.useFakeTimers();
+    manager.register(shortcut("boards", { keys: "g b" }));
+    manager.register(shortcut("bold", { keys: "b" }));
+
+    press(manager, "g");
+    vi.advanceTimersByTime(1000);
+    press(manager, "b");
+
+    expect(fired).toEqual(["bold"]);
+  });
+
+  it("starts over on a stroke that does not continue the chord", () => {
+    manager.register(shortcut("boards", { keys: "g b" }));
+    manager.register(shortcut("new", { keys: "n" }));
+
+    press(manager, "g");
+    press(manager, "n");
+    press(manager, "b");
+
+    expect(fired).toEqual(["new"]);
+  });
+
+  it("ignores typing in inputs unless the shortcut allows it", () => {
+    manager.register(shortcut("new", { keys: "n" }));
+    manager.register(shortcut("close", { keys: "escape", allowInInput: true }));
+    const input = document.createElement("input");
+    document.body.appendChild(input);
+
+    press(manager, "n", {}, input);
+    press(manager, "Escape", {}, input);
+
+    expect(fired).toEqual(["close"]);
+  });
+
+  it("lists the active shortcuts without shadowed or hidden ones", () => {
+    manager.register(shortcut("global", { keys: "escape" }));
+    manager.register(shortcut("panel", { keys: "esc", context: "taskPanel" }));
+    manager.register(shortcut("secret", { keys: "x", hidden: true }));
+    manager.enterContext("taskPanel");
+
+    expect(manager.activeShortcuts().map((s) => s.description)).toEqual([
+      "panel",
+    ]);
+  });
+
+  it("stops firing once unregistered", () => {
+    const unregister = manager.registerAll([
+      shortcut("new", { keys: "n" }),
+      shortcut("help", { keys: "?" }),
+    ]);
+
+    unregister();
+    press(manager, "n");
+    press(manager, "?");
+
+    expect(fired).toEqual([]);
+  });
+});
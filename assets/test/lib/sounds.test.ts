@@ -0,0 +1,171 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  DEFAULT_SETTINGS,
+  MAX_CUSTOM_SOUND_BYTES,
+  canPlay,
+  customSoundError,
+  findSound,
+  forgetSound,
+  inQuietHours,
+  loadCustomSounds,
+  loadSoundSettings,
+  minutesOf,
+  saveCustomSounds,
+  saveSoundSettings,
+  setEventSound,
+  soundForEvent,
+} from "@/lib/sounds";
+
+function at(time: string): Date {
+  return new Date(`2026-10-19T${time}:00`);
+}
+
+describe("minutesOf", () => {
+  it("reads HH:MM times", () => {
+    expect(minutesOf("08:30")).toBe(510);
+    expect(minutesOf("24:00")).toBeNull();
+    expect(minutesOf("noon")).toBeNull();
+  });
+});
+
+describe("inQuietHours", () => {
+  it("is quiet within the hours, also when they run past midnight", () => {
+    const day = { enabled: true, start: "09:00", end: "17:00" };
+    const night = { enabled: true, start: "22:00", end: "08:00" };
+
+    expect(inQuietHours(day, at("12:00"))).toBe(true);
+    expect(inQuietHours(day, at("17:00"))).toBe(false);
+    expect(inQuietHours(night, at("23:30"))).toBe(true);
+    expect(inQuietHours(night, at("07:59"))).toBe(true);
+    expect(inQuietHours(night, at("12:00"))).toBe(false);
+  });
+
+  it("is never quiet when disabled", () => {
+    const night = { enabled: false, start: "22:00", end: "08:00" };
+    expect(inQuietHours(night, at("23:30"))).toBe(false);
+  });
+});
+
+describe("canPlay", () => {
+  it("stays silent when muted, at zero volume or in quiet hours", () => {
+    const noon = at("12:00");
+
+    expect(canPlay(DEFAULT_SETTINGS, noon)).toBe(true);
+    expect(canPlay({ ...DEFAULT_SETTINGS, muted: true }, noon)).toBe(false);
+    expect(canPlay({ ...DEFAULT_SETTINGS, volume: 0 }, noon)).toBe(false);
+    expect(
+      canPlay(
+        {
+          ...DEFAULT_SETTINGS,
+          quietHours: { enabled: true, start: "11:00", end: "13:00" },
+        },
+        noon,
+      ),
+    ).toBe(false);
+  });
+});
+
+describe("soundForEvent", () => {
+  it("plays the board's pick, or the event's default", () => {
+    const settings = setEventSound(
+      setEventSound(DEFAULT_SETTINGS, "board", "hook_failed", "woof"),
+      "board",
+      "pr_merged",
+      null,
+    );
+
+    expect(soundForEvent(settings, "board", "hook_failed")).toBe("woof");
+    expect(soundForEvent(settings, "board", "pr_merged")).toBeNull();
+    expect(soundForEvent(settings, "other", "hook_failed")).toBe("bell");
+    expect(soundForEvent(settings, "other", "hook_completed")).toBeNull();
+  });
+
+  it("goes back to the default when the picked sound is removed", () => {
+    const settings = forgetSound(
+      setEventSound(DEFAULT_SETTINGS, "board", "agent_error", "custom:1"),
+      "custom:1",
+    );
+
+    expect(soundForEvent(settings, "board", "agent_error")).toBe(
+      "notification",
+    );
+  });
+});
+
+describe("findSound", () => {
+  it("finds bundled and uploaded sounds", () => {
+    const custom = [{ id: "custom:1", name: "Horn", url: "data:audio/mp3," }];
+
+    expect(findSound("bell", custom)?.url).toBe("/sounds/bell.wav");
+    expect(findSound("custom:1", custom)?.name).toBe("Horn");
+    expect(findSound("custom:2", custom)).toBeUndefined();
+  });
+});
+
+describe("customSoundError", () => {
+  it("accepts small audio files only", () => {
+    expect(customSoundError({ size: 1024, type: "audio/mpeg" })).toBeNull();
+    expect(customSoundError({ size: 1024, type: "image/png" })).toBe(
+      "Not an audio file",
+    );
+    expect(
+      customSoundError({ size: MAX_CUSTOM_SOUND_BYTES + 1, type: "audio/wav" }),
+    ).toMatch(/up to 300 KB/);
+  });
+});
+
+describe("storage", () => {
+  let store: Map<string, string>;
+
+  beforeEach(() => {
+    store = new Map<string, string>();
+    vi.stubGlobal("localStorage", {
+      getItem: (key: string) => store.get(key) ?? null,
+      setItem: (key: string, value: string) => store.set(key, value),
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("round-trips the settings and falls back on bad values", () => {
+    expect(loadSoundSettings()).toEqual(DEFAULT_SETTINGS);
+
+    const settings = { ...DEFAULT_SETTINGS, volume: 0.3, muted: true };
+    saveSoundSettings(settings);
+    expect(loadSoundSettings()).toEqual(settings);
+
+    store.set("viban:sounds", JSON.stringify({ volume: 4 }));
+    expect(loadSoundSettings().volume).toBe(DEFAULT_SETTINGS.volume);
+  });
+
+  it("drops board picks that aren't events with a sound", () => {
+    const boards = {
+      b1: { hook_failed: "ding", pr_merged: null, gone: "x", agent_error: 1 },
+      b2: "loud",
+    };
+    store.set("viban:sounds", JSON.stringify({ boards }));
+
+    expect(loadSoundSettings().boards).toEqual({
+      b1: { hook_failed: "ding", pr_merged: null },
+    });
+  });
+
+  it("keeps the custom sounds unchanged when storage is full", () => {
+    const sound = { id: "custom:1", name: "Horn", url: "data:audio/mp3," };
+    expect(saveCustomSounds([sound])).toBe(true);
+    expect(loadCustomSounds()).toEqual([sound]);
+
+    vi.stubGlobal("localStorage", {
+      getItem: (key: string) => store.get(key) ?? null,
+      setItem: () => {
+        throw new Error("QuotaExceededError");
+      },
+    });
+    expect(saveCustomSounds([sound, { ...sound, id: "custom:2" }])).toBe(
+      false,
+    );
+    expect(loadCustomSounds()).toEqual([sound]);
+  });
+});
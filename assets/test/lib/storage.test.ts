@@ -0,0 +1,42 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { isRecord, readJson, writeJson } from "@/lib/storage";
+
+describe("readJson / writeJson", () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("round-trips values", () => {
+    const store = new Map<string, string>();
+    vi.stubGlobal("localStorage", {
+      getItem: (key: string) => store.get(key) ?? null,
+      setItem: (key: string, value: string) => store.set(key, value),
+    });
+
+    expect(readJson("key")).toBeUndefined();
+    expect(writeJson("key", { a: [1] })).toBe(true);
+    expect(readJson("key")).toEqual({ a: [1] });
+
+    store.set("key", "{not json");
+    expect(readJson("key")).toBeUndefined();
+  });
+
+  it("never throws when storage is disabled or full", () => {
+    vi.stubGlobal("localStorage", {
+      getItem: () => {
+        throw new Error("SecurityError");
+      },
+      setItem: () => {
+        throw new Error("QuotaExceededError");
+      },
+    });
+
+    expect(readJson("key")).toBeUndefined();
+    expect(writeJson("key", 1)).toBe(false);
+  });
+
+  it("tells plain objects from other stored values", () => {
+    expect(isRecord({ a: 1 })).toBe(true);
+    expect([[], null, "x", 1].some(isRecord)).toBe(false);
+  });
+});
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { subtaskProgress, subtasksOf } from "@/lib/subtasks";
+import { column, task } from "../fixtures";
+
+const columns = [
+  column("TODO", [
+    task("parent", { is_parent: true }),
+    task("c", { parent_task_id: "parent", subtask_position: 2 }),
+  ]),
+  column("In Progress", [
+    task("a", { parent_task_id: "parent", subtask_position: 0 }),
+  ]),
+  column("Done", [
+    task("b", { parent_task_id: "parent", subtask_position: 1 }),
+    task("other", { parent_task_id: "elsewhere" }),
+  ]),
+];
+
+describe("subtasksOf", () => {
+  it("lists the parent's subtasks in checklist order with their column", () => {
+    expect(
+      subtasksOf(columns, "parent").map((e) => [
+        e.task.id,
+        e.column.name,
+        e.done,
+      ]),
+    ).toEqual([
+      ["a", "In Progress", false],
+      ["b", "Done", true],
+      ["c", "TODO", false],
+    ]);
+  });
+});
+
+describe("subtaskProgress", () => {
+  it("counts done and total subtasks per parent", () => {
+    const progress = subtaskProgress(columns);
+    expect(progress.get("parent")).toEqual({ done: 1, total: 3 });
+    expect(progress.get("elsewhere")).toEqual({ done: 1, total: 1 });
+    expect(progress.has("a")).toBe(false);
+  });
+});
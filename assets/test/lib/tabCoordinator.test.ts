@@ -0,0 +1,208 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  JOIN_GRACE_MS,
+  PEER_TIMEOUT_MS,
+  TabCoordinator,
+  electLeader,
+  saveSyncEnabled,
+  type TabChannel,
+  type TabMessage,
+} from "@/lib/tabCoordinator";
+
+// BroadcastChannel between the coordinators of one test: a message reaches
+// every other open channel of the same name
+function createBus() {
+  const channels: { name: string; channel: TabChannel }[] = [];
+
+  return (name: string): TabChannel => {
+    const channel: TabChannel = {
+      onmessage: null,
+      postMessage(message: TabMessage) {
+        for (const other of channels) {
+          if (other.name === name && other.channel !== channel) {
+            other.channel.onmessage?.({ data: message });
+          }
+        }
+      },
+      close() {
+        channels.splice(
+          channels.findIndex((c) => c.channel === channel),
+          1,
+        );
+      },
+    };
+    channels.push({ name, channel });
+    return channel;
+  };
+}
+
+describe("electLeader", () => {
+  const idle = { focused: false, audio: false, leading: false };
+  const audio = { ...idle, audio: true };
+
+  it("picks the oldest tab still heard from", () => {
+    const peers = new Map([
+      ["a", { lastSeen: 0, ...idle }],
+      ["b", { lastSeen: PEER_TIMEOUT_MS, ...idle }],
+    ]);
+
+    expect(electLeader("c", idle, peers, PEER_TIMEOUT_MS)).toBe("b");
+    expect(electLeader("c", idle, peers, 0)).toBe("a");
+  });
+
+  it("prefers a tab with unlocked audio, then a focused one", () => {
+    const peers = new Map([
+      ["a", { lastSeen: 0, ...idle }],
+      ["b", { lastSeen: 0, ...idle, focused: true }],
+    ]);
+
+    expect(electLeader("c", idle, peers, 0)).toBe("b");
+    expect(electLeader("c", audio, peers, 0)).toBe("c");
+
+    peers.set("d", { lastSeen: 0, ...audio, focused: true });
+    expect(electLeader("c", audio, peers, 0)).toBe("d");
+  });
+
+  it("keeps the leader while it can play sounds, or no tab can", () => {
+    const peers = new Map([["a", { lastSeen: 0, ...idle, leading: true }]]);
+
+    expect(electLeader("b", { ...idle, focused: true }, peers, 0)).toBe("a");
+    expect(electLeader("b", audio, peers, 0)).toBe("b");
+
+    peers.set("a", { lastSeen: 0, ...audio, leading: true });
+    expect(electLeader("b", { ...audio, focused: true }, peers, 0)).toBe("a");
+  });
+});
+
+describe("TabCoordinator", () => {
+  let store: Map<string, string>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    store = new Map<string, string>();
+    vi.stubGlobal("localStorage", {
+      getItem: (key: string) => store.get(key) ?? null,
+      setItem: (key: string, value: string) => store.set(key, value),
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  // The tabs, opened a millisecond apart, and their channels
+  function openTabs(count: number) {
+    const bus = createBus();
+    const channels: TabChannel[] = [];
+    const open = (name: string) => {
+      const channel = bus(name);
+      channels.push(channel);
+      return channel;
+    };
+
+    const opened = Array.from({ length: count }, () => {
+      vi.advanceTimersByTime(1);
+      const tab = new TabCoordinator(open, () => false);
+      tab.join("board");
+      return tab;
+    });
+    return Object.assign(opened, { channels, open });
+  }
+
+  it("lets one tab lead, and hands over when it leaves", () => {
+    const [first, second, third] = openTabs(3);
+
+    expect([first, second, third].map((t) => t.isLeader())).toEqual([
+      true,
+      false,
+      false,
+    ]);
+
+    first.leave();
+    expect(second.isLeader()).toBe(true);
+    expect(third.isLeader()).toBe(false);
+  });
+
+  it("takes over from a tab that stopped answering", () => {
+    const tabs = openTabs(2);
+    const [, second] = tabs;
+
+    // The first tab hangs: no heartbeat, no goodbye
+    tabs.channels[0].postMessage = () => {};
+
+    expect(second.isLeader()).toBe(false);
+    vi.advanceTimersByTime(PEER_TIMEOUT_MS);
+    expect(second.isLeader()).toBe(true);
+  });
+
+  it("hands the lead to a tab whose audio was unlocked", () => {
+    const tabs = openTabs(2);
+    const [first, second] = tabs;
+    let unlocked = false;
+    const third = new TabCoordinator(tabs.open, () => false, () => unlocked);
+    third.join("board");
+
+    expect([first, second, third].map((t) => t.isLeader())).toEqual([
+      true,
+      false,
+      false,
+    ]);
+
+    unlocked = true;
+    third.announce();
+    expect([first, second, third].map((t) => t.isLeader())).toEqual([
+      false,
+      false,
+      true,
+    ]);
+  });
+
+  it("keeps the leader when focus moves between tabs that play sounds", () => {
+    const tabs = openTabs(0);
+    let focused = 0;
+    const [first, second] = [0, 1].map((index) => {
+      vi.advanceTimersByTime(1);
+      const tab = new TabCoordinator(
+        tabs.open,
+        () => focused === index,
+        () => true,
+      );
+      tab.join("board");
+      return tab;
+    });
+    const leaders = () => [first.isLeader(), second.isLeader()];
+
+    expect(leaders()).toEqual([true, false]);
+
+    focused = 1;
+    second.announce();
+    first.announce();
+    expect(leaders()).toEqual([true, false]);
+
+    focused = 0;
+    first.announce();
+    second.announce();
+    expect(leaders()).toEqual([true, false]);
+  });
+
+  it("waits for the other tabs before leading", () => {
+    const [alone] = openTabs(1);
+
+    expect(alone.isLeader()).toBe(false);
+    vi.advanceTimersByTime(JOIN_GRACE_MS);
+    expect(alone.isLeader()).toBe(true);
+  });
+
+  it("shares state only when sync is on", () => {
+    const [first, second] = openTabs(2);
+    const received: unknown[] = [];
+    second.subscribe("selected_task", (value) => received.push(value));
+
+    first.publish("selected_task", "t1");
+    saveSyncEnabled(true);
+    first.publish("selected_task", "t2");
+
+    expect(received).toEqual(["t2"]);
+  });
+});
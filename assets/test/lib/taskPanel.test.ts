@@ -0,0 +1,66 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  DEFAULT_LAYOUT,
+  MIN_WIDTH,
+  clampWidth,
+  cycleTab,
+  loadLayout,
+  panelTabs,
+  saveLayout,
+} from "@/lib/taskPanel";
+
+describe("cycleTab", () => {
+  it("moves through the tabs, wrapping around", () => {
+    expect(cycleTab("details", 1)).toBe("activity");
+    expect(cycleTab("settings", 1)).toBe("details");
+    expect(cycleTab("details", -1)).toBe("settings");
+  });
+
+  it("skips tabs the task doesn't have", () => {
+    const tabs = panelTabs({ variant_group_id: null });
+    expect(cycleTab("diff", 1, tabs)).toBe("settings");
+    expect(cycleTab("diff", 1, panelTabs({ variant_group_id: "g" }))).toBe(
+      "variants",
+    );
+  });
+});
+
+describe("clampWidth", () => {
+  it("keeps the panel between its minimum and the viewport", () => {
+    expect(clampWidth(100, 1600)).toBe(MIN_WIDTH);
+    expect(clampWidth(700.4, 1600)).toBe(700);
+    expect(clampWidth(3000, 1600)).toBe(1440);
+    expect(clampWidth(600, 400)).toBe(MIN_WIDTH);
+  });
+});
+
+describe("loadLayout / saveLayout", () => {
+  let store: Map<string, string>;
+
+  beforeEach(() => {
+    store = new Map<string, string>();
+    vi.stubGlobal("localStorage", {
+      getItem: (key: string) => store.get(key) ?? null,
+      setItem: (key: string, value: string) => store.set(key, value),
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("remembers the tab and width", () => {
+    expect(loadLayout()).toEqual(DEFAULT_LAYOUT);
+
+    saveLayout({ tab: "settings", width: 640 });
+    expect(loadLayout()).toEqual({ tab: "settings", width: 640 });
+  });
+
+  it("ignores stored values it doesn't know", () => {
+    store.set("viban:task-panel", JSON.stringify({ tab: "files", width: "x" }));
+    expect(loadLayout()).toEqual(DEFAULT_LAYOUT);
+
+    store.set("viban:task-panel", "not json");
+    expect(loadLayout()).toEqual(DEFAULT_LAYOUT);
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, expect, it } from "vitest";
+import { groupToolCalls, shellExitCode } from "@/lib/toolCalls";
+import type { ActivityItem } from "@/types/domain";
+
+const item = (
+  id: string,
+  metadata: Record<string, unknown>,
+  content = "",
+): ActivityItem => ({
+  type: "executor_message",
+  id,
+  role: "tool",
+  content,
+  metadata,
+  session_id: null,
+  inserted_at: "2026-01-01T00:00:00Z",
+  timestamp: `2026-01-01T00:00:0${id.length}Z`,
+});
+
+const kinds = {
+  isRendered: (kind: string) => ["shell", "file_read"].includes(kind),
+  groupsConsecutive: (kind: string) => kind === "file_read",
+};
+
+describe("groupToolCalls", () => {
+  it("attaches results to their calls and hides them", () => {
+    const grouped = groupToolCalls(
+      [
+        item("1", { type: "shell", command: "ls", tool_use_id: "tu1" }),
+        item("2", { type: "tool_result", tool_use_id: "tu1" }, "a.txt"),
+      ],
+      kinds,
+    );
+
+    expect(grouped).toHaveLength(1);
+    expect(grouped[0]).toMatchObject({
+      type: "tool_calls",
+      kind: "shell",
+      calls: [{ id: "1", result: { output: "a.txt", isError: false } }],
+    });
+  });
+
+  it("groups consecutive calls only for grouping kinds", () => {
+    const grouped = groupToolCalls(
+      [
+        item("1", { type: "file_read", path: "a", tool_use_id: "r1" }),
+        item("2", { type: "tool_result", tool_use_id: "r1" }, "..."),
+        item("3", { type: "file_read", path: "b" }),
+        item("4", { type: "shell", command: "ls" }),
+        item("5", { type: "shell", command: "pwd" }),
+      ],
+      kinds,
+    );
+
+    expect(
+      grouped.map((entry) =>
+        entry.type === "tool_calls"
+          ? entry.calls.map((call) => call.id).join(",")
+          : entry.id,
+      ),
+    ).toEqual(["1,3", "4", "5"]);
+  });
+
+  it("leaves unrendered kinds and their results alone", () => {
+    const grouped = groupToolCalls(
+      [
+        item("1", { tool: "Grep", tool_use_id: "g1" }, "Using tool: Grep"),
+        item("2", { type: "tool_result", tool_use_id: "g1" }, "match"),
+        item("3", { type: "tool_result", tool_use_id: "orphan" }, "out"),
+        item("4", {}, "hello"),
+      ],
+      kinds,
+    );
+
+    expect(grouped.map((entry) => entry.id)).toEqual(["1", "3", "4"]);
+  });
+});
+
+describe("shellExitCode", () => {
+  it("reads the exit code of failed commands", () => {
+    expect(shellExitCode(null)).toBeNull();
+    expect(shellExitCode({ output: "ok", isError: false })).toBe(0);
+    expect(shellExitCode({ output: "Exit code 2\nboom", isError: true })).toBe(
+      2,
+    );
+    expect(shellExitCode({ output: "denied", isError: true })).toBeNull();
+  });
+});
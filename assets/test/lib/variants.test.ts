@@ -0,0 +1,89 @@
+import { describe, expect, it } from "vitest";
+import { compareFiles, stackVariants, variantsOf } from "@/lib/variants";
+import type { DiffFile, TaskDiff } from "@/lib/worktreeDiff";
+import type { Task } from "@/types/domain";
+import { column, task } from "../fixtures";
+
+function variant(id: string, number: number, status = "candidate"): Task {
+  return task(id, {
+    variant_group_id: "group",
+    variant_number: number,
+    variant_status: status as Task["variant_status"],
+  });
+}
+
+const ids = (tasks: Task[]) => tasks.map((t) => t.id);
+
+describe("variantsOf", () => {
+  it("lists the group's variants in number order with their column", () => {
+    const columns = [
+      column("TODO", [variant("v3", 3), task("other")]),
+      column("In Progress", [variant("v1", 1), variant("v2", 2)]),
+    ];
+
+    expect(
+      variantsOf(columns, "group").map((e) => [e.task.id, e.column.name]),
+    ).toEqual([
+      ["v1", "In Progress"],
+      ["v2", "In Progress"],
+      ["v3", "TODO"],
+    ]);
+  });
+});
+
+describe("stackVariants", () => {
+  it("collapses a column's candidates into the first card", () => {
+    const columns = [
+      column("TODO", [variant("v2", 2), task("a"), variant("v1", 1)]),
+    ];
+    const { columns: stacked, stacks } = stackVariants(columns);
+
+    expect(ids(stacked[0].tasks)).toEqual(["v2", "a"]);
+    expect(ids(stacks.get("v2") ?? [])).toEqual(["v1", "v2"]);
+  });
+
+  it("stacks per column and leaves single and selected variants alone", () => {
+    const columns = [
+      column("TODO", [variant("v1", 1), variant("v2", 2)]),
+      column("Done", [variant("v3", 3), variant("v4", 4, "selected")]),
+    ];
+    const { columns: stacked, stacks } = stackVariants(columns);
+
+    expect(stacked[1]).toBe(columns[1]);
+    expect([...stacks.keys()]).toEqual(["v1"]);
+  });
+});
+
+describe("compareFiles", () => {
+  function file(path: string, additions: number): DiffFile {
+    return { path, status: "modified", additions, deletions: 0, binary: false };
+  }
+
+  function diff(files: DiffFile[]): TaskDiff {
+    return {
+      base_ref: "origin/main",
+      sections: [
+        { section: "all", additions: 0, deletions: 0, files },
+        { section: "staged", additions: 0, deletions: 0, files: [] },
+      ],
+    };
+  }
+
+  it("lines up the files changed in each variant by path", () => {
+    const compared = compareFiles({
+      v1: diff([file("lib/b.ex", 1), file("lib/a.ex", 2)]),
+      v2: diff([file("lib/b.ex", 3)]),
+    });
+
+    expect(
+      compared.map((f) => [
+        f.path,
+        f.changes.v1?.additions ?? null,
+        f.changes.v2?.additions ?? null,
+      ]),
+    ).toEqual([
+      ["lib/a.ex", 2, null],
+      ["lib/b.ex", 1, 3],
+    ]);
+  });
+});
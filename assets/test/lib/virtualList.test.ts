@@ -0,0 +1,74 @@
+import { describe, expect, it } from "vitest";
+import {
+  indexAt,
+  itemOffsets,
+  visibleRange,
+  withMeasuredSizes,
+} from "@/lib/virtualList";
+
+describe("itemOffsets", () => {
+  it("stacks the items from the top", () => {
+    expect(itemOffsets([10, 20, 30])).toEqual([0, 10, 30, 60]);
+    expect(itemOffsets([])).toEqual([0]);
+  });
+});
+
+describe("indexAt", () => {
+  const offsets = itemOffsets([10, 20, 30]);
+
+  it("finds the item under a point", () => {
+    expect(indexAt(offsets, 0)).toBe(0);
+    expect(indexAt(offsets, 9)).toBe(0);
+    expect(indexAt(offsets, 10)).toBe(1);
+    expect(indexAt(offsets, 45)).toBe(2);
+  });
+
+  it("clamps points outside the list", () => {
+    expect(indexAt(offsets, -100)).toBe(0);
+    expect(indexAt(offsets, 1000)).toBe(2);
+  });
+});
+
+describe("visibleRange", () => {
+  // 100 items of 50px
+  const offsets = itemOffsets(new Array(100).fill(50));
+
+  it("covers the viewport", () => {
+    expect(visibleRange(offsets, 0, 200, 0)).toEqual({ start: 0, end: 5 });
+    expect(visibleRange(offsets, 1000, 200, 0)).toEqual({ start: 20, end: 25 });
+  });
+
+  it("adds the overscan on both sides", () => {
+    expect(visibleRange(offsets, 1000, 200, 100)).toEqual({
+      start: 18,
+      end: 27,
+    });
+  });
+
+  it("stops at the ends of the list", () => {
+    expect(visibleRange(offsets, 0, 200, 600)).toEqual({ start: 0, end: 17 });
+    expect(visibleRange(offsets, 4800, 200, 600)).toEqual({
+      start: 84,
+      end: 100,
+    });
+  });
+});
+
+describe("withMeasuredSizes", () => {
+  const sizes = new Map([["a", 58]]);
+
+  it("adds the gap to the measured heights", () => {
+    expect(withMeasuredSizes(sizes, [["a", 60], ["b", 40]], 8)).toEqual(
+      new Map([
+        ["a", 68],
+        ["b", 48],
+      ]),
+    );
+    expect(sizes.get("a")).toBe(58);
+  });
+
+  it("is null when no size changed", () => {
+    expect(withMeasuredSizes(sizes, [["a", 50]], 8)).toBeNull();
+    expect(withMeasuredSizes(sizes, [["a", 0]], 8)).toBeNull();
+  });
+});
@@ -0,0 +1,39 @@
+defmodule Mix.Tasks.Viban.Gen.Types do
+  @shortdoc "Generates the TypeScript domain types from the Ash resources"
+
+  @moduledoc """
+  Writes `assets/js/types/domain.ts` from the Ash resources, see `VibanWeb.DomainTypes`.
+
+      mix viban.gen.types
+
+  ## Options
+
+    * `--check` - fail instead of writing when the file is out of date (used in CI)
+  """
+  use Mix.Task
+
+  alias VibanWeb.DomainTypes
+
+  @path "assets/js/types/domain.ts"
+
+  @requirements ["compile"]
+
+  @impl Mix.Task
+  def run(args) do
+    {opts, _args} = OptionParser.parse!(args, strict: [check: :boolean])
+    source = DomainTypes.render()
+
+    cond do
+      !opts[:check] ->
+        File.mkdir_p!(Path.dirname(@path))
+        File.write!(@path, source)
+        Mix.shell().info("Wrote #{@path}")
+
+      File.read(@path) == {:ok, source} ->
+        Mix.shell().info("#{@path} is up to date")
+
+      true ->
+        Mix.raise("#{@path} is out of date, run `mix viban.gen.types` and commit the result")
+    end
+  end
+end
@@ -4,9 +4,10 @@ defmodule Viban.Executors.Actions.Execute do
 
   This action:
   1. Verifies the executor type is available on the system
-  2. Updates the task status to executing
-  3. Starts the executor runner process
-  4. Returns the runner information
+  2. Verifies the executor supports the requested model and mode
+  3. Updates the task status to executing
+  4. Starts the executor runner process
+  5. Returns the runner information
   """
 
   use Ash.Resource.Actions.Implementation
@@ -29,10 +30,13 @@ defmodule Viban.Executors.Actions.Execute do
     working_directory = Map.get(input.arguments, :working_directory)
     images = Map.get(input.arguments, :images, [])
     continue_session = Map.get(input.arguments, :continue_session, false)
+    agent_opts = [model: Map.get(input.arguments, :model), mode: Map.get(input.arguments, :mode, :execute)]
 
     with :ok <- verify_executor_available(executor_type),
+         :ok <- verify_agent_opts(executor_type, agent_opts),
          :ok <- update_task_status(task_id, executor_type),
-         {:ok, pid} <- start_runner(task_id, executor_type, prompt, working_directory, images, continue_session) do
+         {:ok, pid} <-
+           start_runner(task_id, executor_type, prompt, working_directory, images, continue_session, agent_opts) do
       {:ok,
        %{
          status: :started,
@@ -51,6 +55,13 @@ defmodule Viban.Executors.Actions.Execute do
     end
   end
 
+  defp verify_agent_opts(executor_type, agent_opts) do
+    case Registry.validate_agent_opts(executor_type, agent_opts) do
+      :ok -> :ok
+      {:error, message} -> {:error, Invalid.exception(message: message)}
+    end
+  end
+
   defp update_task_status(task_id, executor_type) do
     case Task.get(task_id) do
       {:ok, task} ->
@@ -76,14 +87,16 @@ defmodule Viban.Executors.Actions.Execute do
     end
   end
 
-  defp start_runner(task_id, executor_type, prompt, working_directory, images, continue_session) do
+  defp start_runner(task_id, executor_type, prompt, working_directory, images, continue_session, agent_opts) do
     case Runner.start(
-           task_id: task_id,
-           executor_type: executor_type,
-           prompt: prompt,
-           working_directory: working_directory,
-           images: images,
-           continue_session: continue_session
+           [
+             task_id: task_id,
+             executor_type: executor_type,
+             prompt: prompt,
+             working_directory: working_directory,
+             images: images,
+             continue_session: continue_session
+           ] ++ agent_opts
          ) do
       {:ok, pid} ->
         {:ok, pid}
@@ -34,7 +34,7 @@ defmodule Viban.Executors.Behaviour do
       end
   """
 
-  @type capability :: :streaming | :interactive | :mcp_support | :follow_up
+  @type capability :: :streaming | :interactive | :mcp_support | :follow_up | :plan_mode
   @type executor_type ::
           :claude_code | :gemini_cli | :codex | :opencode | :api_anthropic | :api_openai
   @type output_event ::
@@ -79,9 +79,16 @@ defmodule Viban.Executors.Behaviour do
   - :interactive - Supports interactive input/output
   - :mcp_support - Supports MCP server configuration
   - :follow_up - Supports follow-up prompts in same session
+  - :plan_mode - Can run in `mode: :plan`, planning changes without making them
   """
   @callback capabilities() :: [capability()]
 
+  @doc """
+  Models that can be passed as the `:model` option of `build_command/2`.
+  Without a model the executor uses its own default.
+  """
+  @callback models() :: [String.t()]
+
   @doc """
   Parse raw output from the executor into structured events.
   This is used for executors that output structured data (like stream-json).
@@ -93,5 +100,5 @@ defmodule Viban.Executors.Behaviour do
   """
   @callback env() :: [{String.t(), String.t()}]
 
-  @optional_callbacks [parse_output: 1, env: 0]
+  @optional_callbacks [parse_output: 1, env: 0, models: 0]
 end
@@ -71,7 +71,8 @@ defmodule Viban.Executors.Executor do
           name: String.t(),
           type: executor_type(),
           available: boolean(),
-          capabilities: [capability()]
+          capabilities: [capability()],
+          models: [String.t()]
         }
 
   @type image_attachment :: %{
@@ -176,6 +177,16 @@ defmodule Viban.Executors.Executor do
         description "Whether to continue the most recent conversation in this working directory"
       end
 
+      argument :model, :string do
+        description "Model to run, one of the executor's listed models (nil for the executor's default)"
+      end
+
+      argument :mode, :atom do
+        default :execute
+        constraints one_of: [:execute, :plan]
+        description "Whether the agent may change files (:execute) or only plans (:plan)"
+      end
+
       run Viban.Executors.Actions.Execute
     end
 
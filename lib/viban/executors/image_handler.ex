@@ -4,6 +4,8 @@ defmodule Viban.Executors.ImageHandler do
 
   This module is responsible for:
   - Saving base64-encoded images to the working directory
+  - Copying files attached to chat messages to the working directory, from the `"path"` that
+    `Viban.Kanban.Task.ImageManager.resolve_queued_images/2` gives them
   - Building prompts with image file references
   - Sanitizing filenames for safe file system operations
   """
@@ -15,10 +17,11 @@ defmodule Viban.Executors.ImageHandler do
   @type image_map :: %{optional(String.t() | atom()) => String.t()}
 
   @doc """
-  Saves images from base64 data URLs to the working directory.
+  Saves images from base64 data URLs, and attachments from their stored
+  `"path"`, to the working directory.
 
   Creates a `.viban-images` subdirectory in the working directory and
-  saves each image with a numbered prefix.
+  saves each file with a numbered prefix.
 
   Returns a list of file paths for successfully saved images.
 
@@ -73,12 +76,12 @@ defmodule Viban.Executors.ImageHandler do
   @doc """
   Builds the enhanced prompt with image file path references.
 
-  This prompt instructs the executor to use its Read tool to view the images.
+  This prompt instructs the executor to use its Read tool to view the files.
 
   ## Examples
 
       build_prompt_with_images("Analyze this", ["/path/to/img.png"])
-      # => "Analyze this\\n\\nI've attached the following image(s)..."
+      # => "Analyze this\\n\\nI've attached the following file(s)..."
   """
   @spec build_prompt_with_images(String.t(), [String.t()]) :: String.t()
   def build_prompt_with_images(prompt, []), do: prompt
@@ -87,10 +90,10 @@ defmodule Viban.Executors.ImageHandler do
     image_refs =
       image_paths
       |> Enum.with_index(1)
-      |> Enum.map_join("\n", fn {path, index} -> "Image #{index}: #{path}" end)
+      |> Enum.map_join("\n", fn {path, index} -> "File #{index}: #{path}" end)
 
     image_section = """
-    I've attached the following image(s) for you to analyze. Please use the Read tool to view them:
+    I've attached the following file(s) for you to look at. Please use the Read tool to view them:
 
     #{image_refs}
     """
@@ -104,6 +107,21 @@ defmodule Viban.Executors.ImageHandler do
 
   # Private functions
 
+  defp save_single_image(%{"path" => source} = attachment, images_dir, index) when is_binary(source) do
+    name = Map.get(attachment, "name") || Path.basename(source)
+    file_path = Path.join(images_dir, "#{index + 1}-#{sanitize_filename(name, "bin")}")
+
+    case File.cp(source, file_path) do
+      :ok ->
+        Logger.info("[ImageHandler] Copied attachment to #{file_path}")
+        file_path
+
+      {:error, reason} ->
+        Logger.error("[ImageHandler] Failed to copy attachment #{source}: #{inspect(reason)}")
+        nil
+    end
+  end
+
   defp save_single_image(image, images_dir, index) do
     data_url = Map.get(image, "data") || Map.get(image, :data)
     name = Map.get(image, "name") || Map.get(image, :name) || "image-#{index}.png"
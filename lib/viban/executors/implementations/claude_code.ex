@@ -98,6 +98,8 @@ defmodule Viban.Executors.Implementations.ClaudeCode do
     mcp_config = Keyword.get(opts, :mcp_config)
     resume_session_id = Keyword.get(opts, :resume_session_id)
     continue_session = Keyword.get(opts, :continue_session, false)
+    model = Keyword.get(opts, :model)
+    plan_mode = Keyword.get(opts, :mode) == :plan
 
     claude_executable = find_claude_executable() || "claude"
 
@@ -106,7 +108,10 @@ defmodule Viban.Executors.Implementations.ClaudeCode do
       |> add_arg("--output-format", "stream-json")
       |> add_flag("--verbose")
       |> add_arg("--max-turns", to_string(max_turns))
-      |> maybe_add_flag(skip_permissions, "--dangerously-skip-permissions")
+      |> maybe_add_arg(model, "--model")
+      # Skipping permissions would also skip plan mode's read-only restriction
+      |> maybe_add_flag(skip_permissions and not plan_mode, "--dangerously-skip-permissions")
+      |> maybe_add_arg(if(plan_mode, do: "plan"), "--permission-mode")
       |> maybe_add_arg(system_prompt, "--append-system-prompt")
       |> maybe_add_arg(mcp_config, "--mcp-config")
       |> maybe_add_arg(working_dir, "--add-dir")
@@ -127,7 +132,12 @@ defmodule Viban.Executors.Implementations.ClaudeCode do
 
   @impl true
   def capabilities do
-    [:streaming, :mcp_support, :follow_up]
+    [:streaming, :mcp_support, :follow_up, :plan_mode]
+  end
+
+  @impl true
+  def models do
+    ["sonnet", "opus", "haiku"]
   end
 
   @impl true
@@ -194,10 +204,14 @@ defmodule Viban.Executors.Implementations.ClaudeCode do
   end
 
   defp normalize_event(%{"type" => "tool_use", "name" => name} = event) do
+    input = Map.get(event, "input")
+
     %{
       type: :tool_use,
+      id: Map.get(event, "id"),
       tool: name,
-      input: Map.get(event, "input"),
+      input: input,
+      metadata: tool_metadata(name, if(is_map(input), do: input, else: %{})),
       raw: event
     }
   end
@@ -205,7 +219,9 @@ defmodule Viban.Executors.Implementations.ClaudeCode do
   defp normalize_event(%{"type" => "tool_result"} = event) do
     %{
       type: :tool_result,
-      content: Map.get(event, "content"),
+      tool_use_id: Map.get(event, "tool_use_id"),
+      is_error: Map.get(event, "is_error") == true,
+      content: extract_content(event),
       raw: event
     }
   end
@@ -227,6 +243,31 @@ defmodule Viban.Executors.Implementations.ClaudeCode do
     }
   end
 
+  # Activity metadata for the tools the board has a dedicated renderer for, keyed by `type`
+  # (see assets/js/lib/toolCalls.ts). Other tools only get the tool name.
+  defp tool_metadata("Bash", input) do
+    %{type: "shell", command: input["command"] || "", description: input["description"]}
+  end
+
+  defp tool_metadata("Edit", input) do
+    %{type: "file_edit", path: input["file_path"], edits: [file_edit(input)]}
+  end
+
+  defp tool_metadata("MultiEdit", input) do
+    %{type: "file_edit", path: input["file_path"], edits: Enum.map(input["edits"] || [], &file_edit/1)}
+  end
+
+  defp tool_metadata("Write", input) do
+    %{type: "file_edit", path: input["file_path"], edits: [%{old_string: "", new_string: input["content"] || ""}]}
+  end
+
+  defp tool_metadata("Read", input), do: %{type: "file_read", path: input["file_path"]}
+  defp tool_metadata(_name, _input), do: %{}
+
+  defp file_edit(edit) do
+    %{old_string: edit["old_string"] || "", new_string: edit["new_string"] || ""}
+  end
+
   defp extract_content(%{"content" => content}) when is_list(content) do
     Enum.map_join(content, "", fn
       %{"type" => "text", "text" => text} -> text
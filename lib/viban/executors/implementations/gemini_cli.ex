@@ -63,6 +63,11 @@ defmodule Viban.Executors.Implementations.GeminiCLI do
     [:streaming]
   end
 
+  @impl true
+  def models do
+    ["gemini-2.5-pro", "gemini-2.5-flash"]
+  end
+
   @impl true
   def parse_output(raw) do
     # Gemini CLI outputs plain text, no special parsing needed
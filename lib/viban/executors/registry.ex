@@ -70,12 +70,43 @@ defmodule Viban.Executors.Registry do
     end
   end
 
+  @doc """
+  Check that an executor type supports the given `:model` and `:mode` options.
+  A `nil` model means the executor's default.
+  """
+  def validate_agent_opts(type, opts) do
+    model = Keyword.get(opts, :model)
+    mode = Keyword.get(opts, :mode, :execute)
+
+    case get_by_type(type) do
+      nil ->
+        {:error, "Unknown executor #{type}"}
+
+      executor ->
+        cond do
+          model != nil and model not in models(executor) ->
+            {:error, "#{executor.name()} has no model #{model}"}
+
+          mode == :plan and :plan_mode not in executor.capabilities() ->
+            {:error, "#{executor.name()} does not support plan mode"}
+
+          true ->
+            :ok
+        end
+    end
+  end
+
   defp executor_info(executor) do
     %{
       name: executor.name(),
       type: to_string(executor.type()),
       available: executor.available?(),
-      capabilities: Enum.map(executor.capabilities(), &to_string/1)
+      capabilities: Enum.map(executor.capabilities(), &to_string/1),
+      models: models(executor)
     }
   end
+
+  defp models(executor) do
+    if Code.ensure_loaded?(executor) and function_exported?(executor, :models, 0), do: executor.models(), else: []
+  end
 end
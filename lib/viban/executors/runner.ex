@@ -91,6 +91,7 @@ defmodule Viban.Executors.Runner do
           exit_code: integer() | nil,
           image_paths: [String.t()],
           continue_session: boolean(),
+          agent_opts: keyword(),
           last_error: String.t() | nil
         }
 
@@ -108,6 +109,7 @@ defmodule Viban.Executors.Runner do
     :exit_code,
     :image_paths,
     :continue_session,
+    :agent_opts,
     :last_error
   ]
 
@@ -125,6 +127,8 @@ defmodule Viban.Executors.Runner do
   - `:prompt` - Required. The prompt/instruction for the executor
   - `:working_directory` - Optional. Working directory for the executor
   - `:images` - Optional. List of image attachments
+  - `:model` - Optional. Model to run, one of the executor's `models/0`
+  - `:mode` - Optional. `:execute` (default) or `:plan` for executors with the `:plan_mode` capability
 
   ## Returns
 
@@ -238,6 +242,7 @@ defmodule Viban.Executors.Runner do
     working_directory = Keyword.get(opts, :working_directory)
     images = Keyword.get(opts, :images, [])
     continue_session = Keyword.get(opts, :continue_session, false)
+    agent_opts = opts |> Keyword.take([:model, :mode]) |> Enum.reject(fn {_key, value} -> is_nil(value) end)
 
     case Registry.get_by_type(executor_type) do
       nil ->
@@ -251,7 +256,8 @@ defmodule Viban.Executors.Runner do
           prompt,
           working_directory,
           images,
-          continue_session
+          continue_session,
+          agent_opts
         )
     end
   end
@@ -265,13 +271,15 @@ defmodule Viban.Executors.Runner do
       task_id: task_id,
       session_id: session_id,
       image_paths: image_paths,
-      continue_session: continue_session
+      continue_session: continue_session,
+      agent_opts: agent_opts
     } = state
 
     enhanced_prompt = ImageHandler.build_prompt_with_images(prompt, image_paths || [])
 
     executor_opts =
       executor_module.default_opts()
+      |> Keyword.merge(agent_opts)
       |> Keyword.put(:working_directory, working_directory)
       |> Keyword.put(:continue_session, continue_session)
 
@@ -389,7 +397,16 @@ defmodule Viban.Executors.Runner do
     {:via, Elixir.Registry, {@runner_registry, task_id}}
   end
 
-  defp init_with_executor(executor_module, task_id, executor_type, prompt, working_directory, images, continue_session) do
+  defp init_with_executor(
+         executor_module,
+         task_id,
+         executor_type,
+         prompt,
+         working_directory,
+         images,
+         continue_session,
+         agent_opts
+       ) do
     if executor_module.available?() do
       image_paths = ImageHandler.save_to_directory(images, working_directory)
 
@@ -406,7 +423,8 @@ defmodule Viban.Executors.Runner do
             started_at: DateTime.utc_now(),
             output_buffer: [],
             image_paths: image_paths,
-            continue_session: continue_session
+            continue_session: continue_session,
+            agent_opts: agent_opts
           }
 
           send(self(), :start_executor)
@@ -535,12 +553,27 @@ defmodule Viban.Executors.Runner do
   end
 
   defp handle_parsed_output({:ok, %{type: :todo_update, todos: todos}}, task_id, session_id) do
-    save_message(task_id, session_id, :system, "todos", %{todos: todos})
+    save_message(task_id, session_id, :system, "todos", %{type: "todo_list", todos: todos})
   end
 
   defp handle_parsed_output({:ok, %{type: :tool_use} = event}, task_id, session_id) do
     tool_name = Map.get(event, :tool, "unknown")
-    save_message(task_id, session_id, :tool, "Using tool: #{tool_name}", %{tool: tool_name})
+
+    metadata =
+      event
+      |> Map.get(:metadata, %{})
+      |> Map.merge(%{tool: tool_name, tool_use_id: Map.get(event, :id)})
+
+    save_message(task_id, session_id, :tool, "Using tool: #{tool_name}", metadata)
+  end
+
+  # Saved so the activity feed can show a tool call's output next to the call
+  defp handle_parsed_output({:ok, %{type: :tool_result, tool_use_id: tool_use_id} = event}, task_id, session_id)
+       when is_binary(tool_use_id) do
+    content = if String.trim(event.content) == "", do: "(no output)", else: event.content
+    metadata = %{type: "tool_result", tool_use_id: tool_use_id, is_error: event.is_error}
+
+    save_message(task_id, session_id, :tool, content, metadata)
   end
 
   defp handle_parsed_output({:ok, %{type: :result, content: content}}, task_id, _session_id) do
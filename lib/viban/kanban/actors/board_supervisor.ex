@@ -14,6 +14,7 @@ defmodule Viban.Kanban.Actors.BoardSupervisor do
 
   1. **DynamicSupervisor** - Manages TaskActor processes for each task
   2. **BoardActor** - Monitors task events and manages TaskActor lifecycle
+  3. **DiffStatsWatcher** - Keeps the line diff stats of the board's worktrees current
 
   ## Registry
 
@@ -23,6 +24,7 @@ defmodule Viban.Kanban.Actors.BoardSupervisor do
 
   alias Viban.CallerTracking
   alias Viban.Kanban.Actors.BoardActor
+  alias Viban.Kanban.Actors.DiffStatsWatcher
 
   # Registry for actor lookups
   @registry Viban.Kanban.ActorRegistry
@@ -82,7 +84,9 @@ defmodule Viban.Kanban.Actors.BoardSupervisor do
       # DynamicSupervisor for TaskActors - started first
       {DynamicSupervisor, name: task_supervisor_name(board_id), strategy: @task_supervision_strategy},
       # BoardActor that manages task actors - depends on DynamicSupervisor
-      {BoardActor, board_id}
+      {BoardActor, board_id},
+      # Line diff stats of the board's worktrees, for the task cards
+      {DiffStatsWatcher, board_id}
     ]
 
     Supervisor.init(children, strategy: @supervision_strategy)
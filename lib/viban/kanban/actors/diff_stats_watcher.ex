@@ -0,0 +1,308 @@
+defmodule Viban.Kanban.Actors.DiffStatsWatcher do
+  @moduledoc """
+  Keeps the line diff stats of a board's task worktrees current.
+
+  Measures the board's worktrees with `Viban.Kanban.Task.WorktreeDiff.summary/2` every few seconds,
+  so the numbers follow the agent as it writes files, and measures a task again shortly after it
+  changes. While a LiveView watches the board (see `watch/1`) every worktree is measured;
+  otherwise only the tasks whose agent is at work are, and the others keep their last stats. Tasks
+  without a worktree, or whose worktree can't be measured, are left out.
+
+  The git commands run in a task under `Viban.Kanban.Actors.DiffStatsTaskSupervisor`, one
+  measurement at a time, so the watcher stays responsive. Task changes are collected for a short
+  while and measured together.
+
+  ## PubSub Topics
+
+  Subscribes to `board:<board_id>` for task changes, and broadcasts `{:diff_stats, stats}` there
+  whenever the stats change, where `stats` maps task ids to
+  `%{additions: integer, deletions: integer, files: integer}`.
+
+  ## Configuration
+
+      config :viban, diff_stats_interval: to_timeout(second: 5)
+
+  ## Registry
+
+  Registered via `Viban.Kanban.ActorRegistry` with key `{:diff_stats_watcher, board_id}`.
+  """
+  use GenServer
+
+  alias Viban.CallerTracking
+  alias Viban.Kanban.Column
+  alias Viban.Kanban.Task
+  alias Viban.Kanban.Task.WorktreeDiff
+
+  require Logger
+
+  # Registry name
+  @registry Viban.Kanban.ActorRegistry
+
+  @task_supervisor Viban.Kanban.Actors.DiffStatsTaskSupervisor
+
+  @default_interval to_timeout(second: 5)
+
+  # How long task changes are collected before they're measured
+  @changes_delay 500
+
+  # How long `stats/1` waits for a watcher that is busy
+  @stats_timeout to_timeout(second: 1)
+
+  @active_agent_statuses [:thinking, :executing]
+
+  @type stats :: %{String.t() => WorktreeDiff.stats()}
+
+  @type state :: %__MODULE__{
+          board_id: String.t(),
+          stats: stats(),
+          viewers: MapSet.t(pid()),
+          job: reference() | nil,
+          board_due: boolean(),
+          changed: %{String.t() => Task.t()},
+          changes_timer: reference() | nil
+        }
+
+  defstruct [:board_id, :job, :changes_timer, stats: %{}, viewers: MapSet.new(), board_due: false, changed: %{}]
+
+  # ============================================================================
+  # Client API
+  # ============================================================================
+
+  @doc """
+  Starts the DiffStatsWatcher for a specific board.
+  """
+  @spec start_link(String.t()) :: GenServer.on_start()
+  def start_link(board_id) do
+    callers = CallerTracking.capture_callers()
+    GenServer.start_link(__MODULE__, {callers, board_id}, name: via_tuple(board_id))
+  end
+
+  @doc """
+  Returns the via tuple for registry lookup.
+  """
+  @spec via_tuple(String.t()) :: {:via, Registry, {atom(), term()}}
+  def via_tuple(board_id) do
+    {:via, Registry, {@registry, {:diff_stats_watcher, board_id}}}
+  end
+
+  @doc """
+  Returns the latest stats of the board's tasks.
+
+  Returns an empty map when the watcher isn't running or is busy; the next broadcast brings the
+  stats.
+  """
+  @spec stats(String.t()) :: stats()
+  def stats(board_id) do
+    case Registry.lookup(@registry, {:diff_stats_watcher, board_id}) do
+      [{pid, _}] -> GenServer.call(pid, :stats, @stats_timeout)
+      [] -> %{}
+    end
+  catch
+    :exit, _ -> %{}
+  end
+
+  @doc """
+  Measures every worktree of the board for as long as the calling process lives.
+
+  Called by the board's LiveView, so tasks idling on a board nobody looks at aren't measured.
+  """
+  @spec watch(String.t()) :: :ok
+  def watch(board_id) do
+    case Registry.lookup(@registry, {:diff_stats_watcher, board_id}) do
+      [{pid, _}] -> GenServer.cast(pid, {:watch, self()})
+      [] -> :ok
+    end
+  end
+
+  # ============================================================================
+  # Server Callbacks
+  # ============================================================================
+
+  @impl true
+  def init({callers, board_id}) do
+    CallerTracking.restore_callers(callers)
+
+    Phoenix.PubSub.subscribe(Viban.PubSub, "board:#{board_id}")
+    send(self(), :measure)
+
+    {:ok, %__MODULE__{board_id: board_id}}
+  end
+
+  @impl true
+  def handle_cast({:watch, pid}, state) do
+    Process.monitor(pid)
+    watched? = watched?(state)
+    state = %{state | viewers: MapSet.put(state.viewers, pid)}
+
+    # The idle tasks' stats may be old, so bring them up to date for the new viewer
+    if watched?, do: {:noreply, state}, else: {:noreply, start_job(%{state | board_due: true})}
+  end
+
+  @impl true
+  def handle_info(:measure, state) do
+    Process.send_after(self(), :measure, interval())
+    {:noreply, start_job(%{state | board_due: true})}
+  end
+
+  @impl true
+  def handle_info({:task_changed, %{task: task, action: :destroy}}, state) do
+    state = %{state | changed: Map.delete(state.changed, task.id)}
+    {:noreply, put_stats(state, Map.delete(state.stats, task.id))}
+  end
+
+  @impl true
+  def handle_info({:task_changed, %{task: task}}, state) do
+    if watched?(state) or active?(task) do
+      {:noreply, schedule_changes(%{state | changed: Map.put(state.changed, task.id, task)})}
+    else
+      {:noreply, state}
+    end
+  end
+
+  @impl true
+  def handle_info(:measure_changes, state) do
+    {:noreply, start_job(%{state | changes_timer: nil})}
+  end
+
+  @impl true
+  def handle_info({ref, {known, measured}}, %{job: ref} = state) do
+    Process.demonitor(ref, [:flush])
+
+    state = %{state | job: nil}
+    {:noreply, state |> put_measured(known, measured) |> start_job()}
+  end
+
+  @impl true
+  def handle_info({:DOWN, ref, :process, _pid, reason}, %{job: ref} = state) do
+    Logger.warning("DiffStatsWatcher: Measuring board #{state.board_id} failed: #{inspect(reason)}")
+    {:noreply, start_job(%{state | job: nil})}
+  end
+
+  @impl true
+  def handle_info({:DOWN, _ref, :process, pid, _reason}, state) do
+    {:noreply, %{state | viewers: MapSet.delete(state.viewers, pid)}}
+  end
+
+  @impl true
+  def handle_info(_msg, state) do
+    {:noreply, state}
+  end
+
+  @impl true
+  def handle_call(:stats, _from, state) do
+    {:reply, state.stats, state}
+  end
+
+  # ============================================================================
+  # Measuring
+  # ============================================================================
+
+  # Starts measuring what's due, unless a measurement is still running: its result starts the next
+  defp start_job(%{job: ref} = state) when is_reference(ref), do: state
+
+  defp start_job(%{board_due: true} = state) do
+    %{board_id: board_id} = state
+    watched? = watched?(state)
+
+    run_job(%{state | board_due: false}, fn -> measure_board(board_id, watched?) end)
+  end
+
+  defp start_job(%{changes_timer: nil, changed: changed} = state) when map_size(changed) > 0 do
+    %{board_id: board_id} = state
+    tasks = Map.values(changed)
+
+    run_job(%{state | changed: %{}}, fn -> {:all, measure_tasks(tasks, board_id)} end)
+  end
+
+  defp start_job(state), do: state
+
+  defp run_job(state, fun) do
+    %{ref: ref} = Elixir.Task.Supervisor.async_nolink(@task_supervisor, fun)
+    %{state | job: ref}
+  end
+
+  defp schedule_changes(%{changes_timer: nil} = state) do
+    %{state | changes_timer: Process.send_after(self(), :measure_changes, @changes_delay)}
+  end
+
+  defp schedule_changes(state), do: state
+
+  # Returns the ids of all worktree tasks, so stats of tasks gone from the board are dropped
+  defp measure_board(board_id, watched?) do
+    tasks = worktree_tasks(board_id)
+    measured = tasks |> Enum.filter(&(watched? or active?(&1))) |> measure_tasks(board_id)
+
+    {Enum.map(tasks, & &1.id), measured}
+  end
+
+  defp measure_tasks(tasks, board_id) do
+    base_ref = WorktreeDiff.base_ref(board_id)
+    Map.new(tasks, &{&1.id, measure_task(&1, base_ref)})
+  end
+
+  defp worktree_tasks(board_id) do
+    case Column.for_board(board_id) do
+      {:ok, columns} ->
+        columns
+        |> Enum.flat_map(&column_tasks/1)
+        |> Enum.filter(& &1.worktree_path)
+
+      {:error, reason} ->
+        Logger.warning("DiffStatsWatcher: Failed to load columns for board #{board_id}: #{inspect(reason)}")
+        []
+    end
+  end
+
+  defp column_tasks(column) do
+    case Task.for_column(column.id) do
+      {:ok, tasks} -> tasks
+      {:error, _} -> []
+    end
+  end
+
+  defp measure_task(%{worktree_path: nil}, _base_ref), do: :error
+  defp measure_task(_task, {:error, _}), do: :error
+
+  defp measure_task(task, {:ok, base_ref}) do
+    case WorktreeDiff.summary(task.worktree_path, base_ref) do
+      {:ok, stats} ->
+        {:ok, stats}
+
+      {:error, reason} ->
+        Logger.debug("DiffStatsWatcher: Could not measure task #{task.id}: #{inspect(reason)}")
+        :error
+    end
+  end
+
+  # `known` is the ids of the tasks whose stats stay, or `:all`
+  defp put_measured(state, known, measured) do
+    stats = if known == :all, do: state.stats, else: Map.take(state.stats, known)
+
+    stats =
+      Enum.reduce(measured, stats, fn
+        {task_id, {:ok, task_stats}}, stats -> Map.put(stats, task_id, task_stats)
+        {task_id, :error}, stats -> Map.delete(stats, task_id)
+      end)
+
+    put_stats(state, stats)
+  end
+
+  # ============================================================================
+  # Helpers
+  # ============================================================================
+
+  defp put_stats(%{stats: stats} = state, stats), do: state
+
+  defp put_stats(state, stats) do
+    Phoenix.PubSub.broadcast(Viban.PubSub, "board:#{state.board_id}", {:diff_stats, stats})
+    %{state | stats: stats}
+  end
+
+  defp watched?(state), do: MapSet.size(state.viewers) > 0
+
+  defp active?(task), do: task.in_progress or task.agent_status in @active_agent_statuses
+
+  defp interval do
+    Application.get_env(:viban, :diff_stats_interval, @default_interval)
+  end
+end
@@ -49,7 +49,7 @@ defmodule Viban.Kanban.HookExecution do
 
     attribute :skip_reason, :atom do
       public? true
-      constraints one_of: [:error, :disabled, :column_change, :server_restart, :user_cancelled]
+      constraints one_of: [:error, :disabled, :column_change, :server_restart, :user_cancelled, :task_settings]
     end
 
     attribute :error_message, :string do
@@ -169,6 +169,16 @@ defmodule Viban.Kanban.HookExecution do
       prepare build(sort: [queued_at: :desc])
     end
 
+    # The task's newest `limit` items from before `before` (or from all of them), newest first
+    read :page_for_task do
+      argument :task_id, :uuid, allow_nil?: false
+      argument :before, :utc_datetime_usec
+      argument :limit, :integer, allow_nil?: false
+
+      filter expr(task_id == ^arg(:task_id) and (is_nil(^arg(:before)) or queued_at < ^arg(:before)))
+      prepare build(sort: [queued_at: :desc], limit: arg(:limit))
+    end
+
     read :for_task_and_column do
       argument :task_id, :uuid, allow_nil?: false
       argument :column_id, :uuid, allow_nil?: false
@@ -201,6 +211,7 @@ defmodule Viban.Kanban.HookExecution do
     define :pending_for_task, args: [:task_id]
     define :active_for_task, args: [:task_id]
     define :history_for_task, args: [:task_id]
+    define :page_for_task, args: [:task_id, :before, :limit]
     define :for_task_and_column, args: [:task_id, :column_id]
     define :active_for_task_and_column, args: [:task_id, :column_id]
     define :get, action: :read, get_by: [:id]
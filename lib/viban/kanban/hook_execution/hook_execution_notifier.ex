@@ -4,16 +4,30 @@ defmodule Viban.Kanban.HookExecution.HookExecutionNotifier do
 
   This is a cross-cutting concern - hooks don't need to know about broadcasting.
   All state transitions (queue, start, complete, fail, cancel, skip) are
-  automatically broadcast to `task:{task_id}` topic.
+  automatically broadcast to `task:{task_id}` topic. Completed and failed
+  executions are also broadcast to the `board:{board_id}` topic of the column
+  that triggered them, for the board's sounds.
   """
 
   use Ash.Notifier
 
+  alias Viban.Kanban.Column
   alias Viban.Kanban.TaskActivityNotifier
 
   @impl true
   def notify(%Ash.Notifier.Notification{resource: Viban.Kanban.HookExecution, data: execution}) do
     TaskActivityNotifier.broadcast_hook_execution(execution.task_id, execution)
+    maybe_broadcast_finished(execution)
     :ok
   end
+
+  defp maybe_broadcast_finished(%{status: status, triggering_column_id: column_id} = execution)
+       when status in [:completed, :failed] and not is_nil(column_id) do
+    case Column.get(column_id) do
+      {:ok, column} -> TaskActivityNotifier.broadcast_hook_finished(column.board_id, execution)
+      _ -> :ok
+    end
+  end
+
+  defp maybe_broadcast_finished(_execution), do: :ok
 end
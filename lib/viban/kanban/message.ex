@@ -138,6 +138,16 @@ defmodule Viban.Kanban.Message do
       filter expr(task_id == ^arg(:task_id))
       prepare build(sort: [sequence: :desc], limit: 1)
     end
+
+    # The task's newest `limit` items from before `before` (or from all of them), newest first
+    read :page_for_task do
+      argument :task_id, :uuid, allow_nil?: false
+      argument :before, :utc_datetime_usec
+      argument :limit, :integer, allow_nil?: false
+
+      filter expr(task_id == ^arg(:task_id) and (is_nil(^arg(:before)) or inserted_at < ^arg(:before)))
+      prepare build(sort: [inserted_at: :desc], limit: arg(:limit))
+    end
   end
 
   code_interface do
@@ -152,5 +162,6 @@ defmodule Viban.Kanban.Message do
     define :append_content, args: [:content]
     define :for_task, args: [:task_id]
     define :latest_for_task, args: [:task_id]
+    define :page_for_task, args: [:task_id, :before, :limit]
   end
 end
@@ -27,6 +27,7 @@ defmodule Viban.Kanban.SystemHooks.ExecuteAIHook do
   alias Viban.Executors.Executor
   alias Viban.Kanban.ExecutorSession
   alias Viban.Kanban.Task
+  alias Viban.Kanban.Task.ImageManager
 
   require Logger
 
@@ -115,7 +116,7 @@ defmodule Viban.Kanban.SystemHooks.ExecuteAIHook do
   defp start_without_message(task, nil, worktree_path) do
     prompt = build_initial_prompt(task)
     Logger.info("[ExecuteAIHook] First session - starting with task content for #{task.id}")
-    start_executor(task, prompt, @default_executor, worktree_path, [], false)
+    start_executor(task, prompt, task.executor_type || @default_executor, worktree_path, [], false, [])
   end
 
   defp start_without_message(task, previous_session, worktree_path) do
@@ -123,13 +124,14 @@ defmodule Viban.Kanban.SystemHooks.ExecuteAIHook do
 
     Logger.info("[ExecuteAIHook] Continuing session for task #{task.id} (previous session: #{previous_session.id})")
 
-    start_executor(task, prompt, @default_executor, worktree_path, [], true)
+    start_executor(task, prompt, task.executor_type || @default_executor, worktree_path, [], true, [])
   end
 
   defp start_with_queued_message(task, message, previous_session, worktree_path) do
     user_prompt = message.prompt || ""
     executor_type = parse_executor_type(message.executor_type)
-    images = message.images || []
+    images = ImageManager.resolve_queued_images(task.id, message.images || [])
+    agent_opts = [model: message.model, mode: message.mode || :execute]
     continue_session = previous_session != nil
 
     prompt =
@@ -141,13 +143,14 @@ defmodule Viban.Kanban.SystemHooks.ExecuteAIHook do
 
     Logger.info(
       "[ExecuteAIHook] Processing message for task #{task.id}, " <>
-        "executor: #{executor_type}, images: #{length(images)}, " <>
+        "executor: #{executor_type}, model: #{agent_opts[:model] || "default"}, mode: #{agent_opts[:mode]}, " <>
+        "images: #{length(images)}, " <>
         "continue_session: #{continue_session}"
     )
 
     case Task.pop_message(task) do
       {:ok, _updated_task} ->
-        start_executor(task, prompt, executor_type, worktree_path, images, continue_session)
+        start_executor(task, prompt, executor_type, worktree_path, images, continue_session, agent_opts)
 
       {:error, error} ->
         Logger.error("[ExecuteAIHook] Failed to pop message: #{inspect(error)}")
@@ -155,14 +158,15 @@ defmodule Viban.Kanban.SystemHooks.ExecuteAIHook do
     end
   end
 
-  defp start_executor(task, prompt, executor_type, worktree_path, images, continue_session) do
+  defp start_executor(task, prompt, executor_type, worktree_path, images, continue_session, agent_opts) do
     Task.set_in_progress(task, %{in_progress: true})
 
-    opts = %{
-      working_directory: worktree_path,
-      images: images,
-      continue_session: continue_session
-    }
+    opts =
+      Map.merge(Map.new(agent_opts), %{
+        working_directory: worktree_path,
+        images: images,
+        continue_session: continue_session
+      })
 
     case Executor.execute(task.id, prompt, executor_type, opts) do
       {:ok, _session} ->
@@ -2,9 +2,11 @@ defmodule Viban.Kanban.SystemHooks.PlaySoundHook do
   @moduledoc """
   System hook that triggers browser sound playback when a task enters a column.
 
-  When executed, broadcasts a hook_executed event with play_sound effect to all
-  clients via Phoenix PubSub. The frontend receives this event and plays the
-  configured sound.
+  When executed, broadcasts a play_sound effect to the board's clients via
+  Phoenix PubSub. The LiveView pushes it as a hook_executed event and the
+  browser's sound engine plays it, at the user's volume and outside their quiet
+  hours. A notify effect goes along, for a desktop notification in tabs that
+  aren't focused.
 
   ## Settings
 
@@ -14,6 +16,7 @@ defmodule Viban.Kanban.SystemHooks.PlaySoundHook do
 
   @behaviour Viban.Kanban.SystemHooks.Behaviour
 
+  alias Viban.Kanban.Column
   alias Viban.Kanban.TaskActivityNotifier
 
   require Logger
@@ -33,25 +36,37 @@ defmodule Viban.Kanban.SystemHooks.PlaySoundHook do
   end
 
   @impl true
-  def execute(task, _column, opts) do
+  def execute(task, column, opts) do
     hook_settings = Keyword.get(opts, :hook_settings, %{})
     execution = Keyword.get(opts, :execution)
+    board_id = Keyword.get(opts, :board_id)
 
     sound = get_sound_from_settings(hook_settings)
 
     Logger.info("[PlaySoundHook] Broadcasting play-sound effect, sound: #{sound}")
 
-    if execution do
-      TaskActivityNotifier.broadcast_hook_effect(task.id, execution, %{
-        play_sound: %{sound: sound}
+    if execution && board_id do
+      TaskActivityNotifier.broadcast_hook_effect(board_id, task.id, execution, %{
+        play_sound: %{sound: sound},
+        notify: %{title: task.title, body: "Entered #{column_name(column, task)}"}
       })
     else
-      Logger.warning("[PlaySoundHook] Missing execution, cannot broadcast effect")
+      Logger.warning("[PlaySoundHook] Missing execution or board, cannot broadcast effect")
     end
 
     :ok
   end
 
+  # The runner doesn't pass the column; the task is in it by now
+  defp column_name(%Column{name: name}, _task), do: name
+
+  defp column_name(_column, task) do
+    case Column.get(task.column_id) do
+      {:ok, column} -> column.name
+      _ -> "a new column"
+    end
+  end
+
   defp get_sound_from_settings(settings) when is_map(settings) do
     # Support both atom and string keys
     settings[:sound] || settings["sound"] || @default_sound
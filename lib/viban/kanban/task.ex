@@ -181,6 +181,46 @@ defmodule Viban.Kanban.Task do
       allow_nil? false
     end
 
+    # =========================================================================
+    # Per-Task Settings
+    # =========================================================================
+
+    # Executor for runs that don't pick one, e.g. the first run; nil for the default
+    attribute :executor_type, :atom do
+      public? true
+      constraints one_of: [:claude_code, :gemini_cli]
+      allow_nil? true
+    end
+
+    # Column hook ids that are skipped when the task enters their column
+    attribute :skipped_hooks, {:array, :string} do
+      public? true
+      default []
+    end
+
+    # =========================================================================
+    # Parallel Variants
+    # =========================================================================
+
+    # Shared by the tasks that run the same spec side by side; nil for other tasks
+    attribute :variant_group_id, :uuid do
+      public? true
+      allow_nil? true
+    end
+
+    attribute :variant_number, :integer do
+      public? true
+      constraints min: 1
+      allow_nil? true
+    end
+
+    # Archived variants lost to the selected one and are hidden from the board
+    attribute :variant_status, :atom do
+      public? true
+      constraints one_of: [:candidate, :selected, :archived]
+      allow_nil? true
+    end
+
     timestamps()
   end
 
@@ -262,6 +302,10 @@ defmodule Viban.Kanban.Task do
       change ProcessDescriptionImages
     end
 
+    update :update_settings do
+      accept [:auto_start, :custom_branch_name, :executor_type, :skipped_hooks]
+    end
+
     destroy :destroy do
       primary? true
       require_atomic? false
@@ -405,6 +449,7 @@ defmodule Viban.Kanban.Task do
       end
 
       change TaskChanges.SetupSubtask
+      change TaskChanges.SetInitialPosition
       change TaskChanges.MarkParentAsParent
     end
 
@@ -412,10 +457,29 @@ defmodule Viban.Kanban.Task do
       accept [:subtask_generation_status]
     end
 
+    update :set_subtask_position do
+      accept [:subtask_position]
+    end
+
     update :mark_as_parent do
       change set_attribute(:is_parent, true)
     end
 
+    # =========================================================================
+    # Parallel Variant Actions
+    # =========================================================================
+
+    create :create_variant do
+      accept [:title, :description, :column_id, :auto_start, :variant_group_id, :variant_number]
+
+      change set_attribute(:variant_status, :candidate)
+      change TaskChanges.SetInitialPosition
+    end
+
+    update :set_variant_status do
+      accept [:variant_status]
+    end
+
     # =========================================================================
     # Hook Execution Tracking
     # =========================================================================
@@ -452,9 +516,56 @@ defmodule Viban.Kanban.Task do
         default []
       end
 
+      argument :model, :string
+
+      argument :mode, :atom do
+        default :execute
+        constraints one_of: [:execute, :plan]
+      end
+
+      # The user message shown in the activity feed for this prompt
+      argument :message_id, :uuid
+
       change TaskChanges.QueueMessage
     end
 
+    update :update_queued_message do
+      accept []
+      require_atomic? false
+
+      argument :message_id, :string do
+        allow_nil? false
+      end
+
+      argument :prompt, :string do
+        allow_nil? false
+      end
+
+      change TaskChanges.UpdateQueuedMessage
+    end
+
+    update :remove_queued_message do
+      accept []
+      require_atomic? false
+
+      argument :message_id, :string do
+        allow_nil? false
+      end
+
+      change TaskChanges.RemoveQueuedMessage
+    end
+
+    update :reorder_message_queue do
+      accept []
+      require_atomic? false
+
+      argument :message_ids, {:array, :string} do
+        allow_nil? false
+      end
+
+      change TaskChanges.ReorderMessageQueue
+    end
+
     update :pop_message do
       accept []
       require_atomic? false
@@ -499,6 +610,18 @@ defmodule Viban.Kanban.Task do
       run Actions.GenerateSubtasks
     end
 
+    action :reorder_subtasks, :map do
+      argument :parent_task_id, :uuid do
+        allow_nil? false
+      end
+
+      argument :subtask_ids, {:array, :uuid} do
+        allow_nil? false
+      end
+
+      run Actions.ReorderSubtasks
+    end
+
     action :create_pr, :map do
       argument :task_id, :uuid do
         allow_nil? false
@@ -516,6 +639,37 @@ defmodule Viban.Kanban.Task do
       run Actions.CreatePR
     end
 
+    action :create_variants, :map do
+      argument :column_id, :uuid do
+        allow_nil? false
+      end
+
+      argument :count, :integer do
+        allow_nil? false
+        constraints min: 2, max: 5
+      end
+
+      argument :title, :string do
+        allow_nil? false
+      end
+
+      argument :description, :string
+      argument :auto_start, :boolean, default: false
+
+      # All variants or none
+      transaction? true
+
+      run Actions.CreateVariants
+    end
+
+    action :select_variant, :map do
+      argument :task_id, :uuid do
+        allow_nil? false
+      end
+
+      run Actions.SelectVariant
+    end
+
     # =========================================================================
     # Read Actions
     # =========================================================================
@@ -525,7 +679,7 @@ defmodule Viban.Kanban.Task do
         allow_nil? false
       end
 
-      filter expr(column_id == ^arg(:column_id))
+      filter expr(column_id == ^arg(:column_id) and (is_nil(variant_status) or variant_status != :archived))
       prepare build(sort: [position: :asc])
     end
 
@@ -542,6 +696,15 @@ defmodule Viban.Kanban.Task do
       filter expr(parent_task_id == ^arg(:parent_task_id))
       prepare build(sort: [subtask_position: :asc])
     end
+
+    read :variants do
+      argument :variant_group_id, :uuid do
+        allow_nil? false
+      end
+
+      filter expr(variant_group_id == ^arg(:variant_group_id))
+      prepare build(sort: [variant_number: :asc])
+    end
   end
 
   code_interface do
@@ -549,6 +712,7 @@ defmodule Viban.Kanban.Task do
     define :create
     define :read
     define :update
+    define :update_settings
     define :destroy
     define :get, action: :read, get_by: [:id]
 
@@ -579,13 +743,24 @@ defmodule Viban.Kanban.Task do
     # Subtask management
     define :create_subtask, args: [:parent_task_id]
     define :set_generation_status
+    define :set_subtask_position
     define :mark_as_parent
+    define :reorder_subtasks, args: [:parent_task_id, :subtask_ids]
+
+    # Parallel variants
+    define :create_variant
+    define :set_variant_status
+    define :create_variants, args: [:column_id, :count]
+    define :select_variant, args: [:task_id]
 
     # Hook execution tracking
     define :mark_hook_executed, args: [:column_hook_id]
 
     # Message queue
     define :queue_message, args: [:prompt, :executor_type, :images]
+    define :update_queued_message, args: [:message_id, :prompt]
+    define :remove_queued_message, args: [:message_id]
+    define :reorder_message_queue, args: [:message_ids]
     define :pop_message
     define :clear_message_queue
 
@@ -599,5 +774,6 @@ defmodule Viban.Kanban.Task do
     define :for_column, args: [:column_id]
     define :queued
     define :subtasks, args: [:parent_task_id]
+    define :variants, args: [:variant_group_id]
   end
 end
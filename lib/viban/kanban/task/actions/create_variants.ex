@@ -0,0 +1,33 @@
+defmodule Viban.Kanban.Task.Actions.CreateVariants do
+  @moduledoc """
+  Creates `count` variants of one spec: tasks with the same title and description that share a new
+  `variant_group_id` and are numbered from 1.
+
+  The variants are created in one transaction, so a failure leaves none behind. Each variant runs
+  in its own worktree like any other task and moves on its own; the board shows candidates that
+  share a column as one stacked card, and dragging that card moves each of them. They stay
+  candidates until one of them is picked with `Viban.Kanban.Task.select_variant/1`.
+  """
+
+  use Ash.Resource.Actions.Implementation
+
+  alias Viban.Kanban.Task
+
+  @impl true
+  def run(input, _opts, _context) do
+    variant_group_id = Ash.UUID.generate()
+    attrs = Map.take(input.arguments, [:title, :description, :column_id, :auto_start])
+
+    1..input.arguments.count
+    |> Enum.reduce_while({:ok, []}, fn number, {:ok, created} ->
+      case Task.create_variant(Map.merge(attrs, %{variant_group_id: variant_group_id, variant_number: number})) do
+        {:ok, task} -> {:cont, {:ok, [task.id | created]}}
+        {:error, _} = error -> {:halt, error}
+      end
+    end)
+    |> case do
+      {:ok, created} -> {:ok, %{variant_group_id: variant_group_id, task_ids: Enum.reverse(created)}}
+      error -> error
+    end
+  end
+end
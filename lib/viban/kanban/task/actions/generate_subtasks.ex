@@ -1,14 +1,34 @@
 defmodule Viban.Kanban.Task.Actions.GenerateSubtasks do
   @moduledoc """
-  Generates subtasks for a parent task using AI (SQLite version).
+  Queues AI subtask generation for a parent task.
+
+  The work happens in `Viban.Workers.SubtaskGenerationWorker`, which tracks its progress in the
+  task's `subtask_generation_status`. Generation already under way is not queued again.
   """
 
   use Ash.Resource.Actions.Implementation
 
-  alias Viban.Kanban.Task.Actions.GenerateSubtasks, as: KanbanGenerateSubtasks
+  alias Viban.Kanban.Task
+  alias Viban.Workers.SubtaskGenerationWorker
 
   @impl true
-  def run(input, opts, context) do
-    KanbanGenerateSubtasks.run(input, opts, context)
+  def run(input, _opts, _context) do
+    with {:ok, task} <- Task.get(input.arguments.task_id) do
+      if task.subtask_generation_status == :generating do
+        {:error, "Subtasks are already being generated"}
+      else
+        enqueue(task)
+      end
+    end
+  end
+
+  defp enqueue(task) do
+    %{task_id: task.id}
+    |> SubtaskGenerationWorker.new()
+    |> Oban.insert()
+    |> case do
+      {:ok, job} -> {:ok, %{job_id: job.id}}
+      {:error, reason} -> {:error, reason}
+    end
   end
 end
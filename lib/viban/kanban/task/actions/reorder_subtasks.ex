@@ -0,0 +1,37 @@
+defmodule Viban.Kanban.Task.Actions.ReorderSubtasks do
+  @moduledoc """
+  Puts a parent task's subtasks in the order of the `subtask_ids` argument.
+
+  Ids that aren't subtasks of the parent are ignored, and subtasks missing from `subtask_ids`
+  (added while the client was reordering) keep their relative order after the listed ones.
+  """
+
+  use Ash.Resource.Actions.Implementation
+
+  alias Viban.Kanban.Task
+
+  @impl true
+  def run(input, _opts, _context) do
+    %{parent_task_id: parent_task_id, subtask_ids: subtask_ids} = input.arguments
+
+    with {:ok, subtasks} <- Task.subtasks(parent_task_id) do
+      by_id = Map.new(subtasks, &{&1.id, &1})
+      listed = subtask_ids |> Enum.uniq() |> Enum.flat_map(&List.wrap(by_id[&1]))
+      rest = Enum.reject(subtasks, &(&1.id in subtask_ids))
+
+      (listed ++ rest)
+      |> Enum.with_index()
+      |> Enum.reject(fn {subtask, position} -> subtask.subtask_position == position end)
+      |> Enum.reduce_while({:ok, []}, fn {subtask, position}, {:ok, updated} ->
+        case Task.set_subtask_position(subtask, %{subtask_position: position}) do
+          {:ok, subtask} -> {:cont, {:ok, [subtask.id | updated]}}
+          {:error, _} = error -> {:halt, error}
+        end
+      end)
+      |> case do
+        {:ok, updated} -> {:ok, %{updated: Enum.reverse(updated)}}
+        error -> error
+      end
+    end
+  end
+end
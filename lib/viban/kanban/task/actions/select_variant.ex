@@ -0,0 +1,52 @@
+defmodule Viban.Kanban.Task.Actions.SelectVariant do
+  @moduledoc """
+  Picks the winner of a variant group.
+
+  The winner becomes `:selected` and carries on as a normal task. The other candidates are
+  archived: their agents are stopped, their worktrees and branches removed, and they leave the
+  board. Archived tasks keep their activity in the database.
+  """
+
+  use Ash.Resource.Actions.Implementation
+
+  alias Viban.Executors.Runner
+  alias Viban.Kanban.Task
+  alias Viban.Kanban.Task.TaskServer
+  alias Viban.Kanban.Task.WorktreeManager
+
+  require Logger
+
+  @impl true
+  def run(input, _opts, _context) do
+    with {:ok, task} <- Task.get(input.arguments.task_id),
+         :ok <- check_candidate(task),
+         {:ok, variants} <- Task.variants(task.variant_group_id),
+         {:ok, _task} <- Task.set_variant_status(task, %{variant_status: :selected}) do
+      archived =
+        variants
+        |> Enum.filter(&(&1.id != task.id and &1.variant_status == :candidate))
+        |> Enum.flat_map(&archive/1)
+
+      {:ok, %{selected: task.id, archived: archived}}
+    end
+  end
+
+  defp check_candidate(%{variant_status: :candidate}), do: :ok
+  defp check_candidate(%{variant_status: nil}), do: {:error, "Task is not a variant"}
+  defp check_candidate(_task), do: {:error, "A winner was already selected for these variants"}
+
+  defp archive(variant) do
+    TaskServer.stop_execution(variant.id)
+    Runner.stop_by_task(variant.id, :user_cancelled)
+    WorktreeManager.remove_worktree(variant.id, variant.worktree_path, variant.worktree_branch)
+
+    with {:ok, variant} <- Task.clear_worktree(variant),
+         {:ok, variant} <- Task.set_variant_status(variant, %{variant_status: :archived}) do
+      [variant.id]
+    else
+      {:error, reason} ->
+        Logger.warning("SelectVariant: Failed to archive variant #{variant.id}: #{inspect(reason)}")
+        []
+    end
+  end
+end
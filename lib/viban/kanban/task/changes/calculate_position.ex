@@ -1,6 +1,10 @@
 defmodule Viban.Kanban.Task.Changes.CalculatePosition do
   @moduledoc """
   Ash change that calculates the fractional index position for a task (SQLite version).
+
+  A `position` passed with the move is the key the client already placed the task at. It is kept
+  when it is a valid key strictly between the neighbours and no other task of the column has it,
+  so the card doesn't jump once the move is confirmed; otherwise the position is recalculated.
   """
 
   use Ash.Resource.Change
@@ -19,11 +23,15 @@ defmodule Viban.Kanban.Task.Changes.CalculatePosition do
     task_id = Ash.Changeset.get_data(changeset, :id)
     current_position = Ash.Changeset.get_data(changeset, :position)
 
+    requested_position =
+      if Ash.Changeset.changing_attribute?(changeset, :position),
+        do: Ash.Changeset.get_attribute(changeset, :position)
+
     Logger.info(
       "[CalculatePosition] task=#{task_id} before=#{inspect(before_task_id)} after=#{inspect(after_task_id)} column=#{target_column_id} current_pos=#{current_position}"
     )
 
-    case calculate_position(before_task_id, after_task_id, target_column_id, task_id) do
+    case calculate_position(before_task_id, after_task_id, target_column_id, task_id, requested_position) do
       {:ok, position} ->
         Logger.info("[CalculatePosition] task=#{task_id} new_position=#{position}")
         Ash.Changeset.force_change_attribute(changeset, :position, position)
@@ -38,31 +46,42 @@ defmodule Viban.Kanban.Task.Changes.CalculatePosition do
     end
   end
 
-  defp calculate_position(before_task_id, after_task_id, column_id, current_task_id) do
-    before_position = get_task_position(before_task_id)
-    after_position = get_task_position(after_task_id)
+  defp calculate_position(before_task_id, after_task_id, column_id, current_task_id, requested_position) do
+    {lower, upper} = bounds(before_task_id, after_task_id, column_id, current_task_id)
 
-    case {before_position, after_position} do
-      {nil, nil} ->
-        case get_last_task_position(column_id, current_task_id) do
-          nil ->
-            FractionalIndex.generate_key_between(nil, nil)
+    if fits?(requested_position, lower, upper) and
+         not position_taken?(column_id, requested_position, current_task_id) do
+      {:ok, requested_position}
+    else
+      FractionalIndex.generate_key_between(lower, upper)
+    end
+  end
 
-          last_position ->
-            FractionalIndex.generate_key_between(last_position, nil)
-        end
+  # Without neighbours the task goes to the end of the column
+  defp bounds(before_task_id, after_task_id, column_id, current_task_id) do
+    case {get_task_position(before_task_id), get_task_position(after_task_id)} do
+      {nil, nil} -> {get_last_task_position(column_id, current_task_id), nil}
+      bounds -> bounds
+    end
+  end
 
-      {nil, after_pos} ->
-        FractionalIndex.generate_key_between(nil, after_pos)
+  defp fits?(position, lower, upper) when is_binary(position) do
+    valid_key?(position) and (is_nil(lower) or lower < position) and (is_nil(upper) or position < upper)
+  end
 
-      {before_pos, nil} ->
-        FractionalIndex.generate_key_between(before_pos, nil)
+  defp fits?(_position, _lower, _upper), do: false
 
-      {before_pos, after_pos} ->
-        FractionalIndex.generate_key_between(before_pos, after_pos)
-    end
+  # Base 62: an integer part whose length its head gives ("a0", "b10", "Zz"), then a fraction
+  # without trailing zeros
+  defp valid_key?(<<head, rest::binary>> = key) when head in ?a..?z or head in ?A..?Z do
+    integer_digits = if head in ?a..?z, do: head - ?a + 1, else: ?Z - head + 1
+
+    String.match?(key, ~r/\A[0-9A-Za-z]+\z/) and byte_size(rest) >= integer_digits and
+      not String.ends_with?(binary_part(rest, integer_digits, byte_size(rest) - integer_digits), "0")
   end
 
+  defp valid_key?(_key), do: false
+
   defp get_task_position(nil), do: nil
 
   defp get_task_position(task_id) do
@@ -72,6 +91,15 @@ defmodule Viban.Kanban.Task.Changes.CalculatePosition do
     end
   end
 
+  defp position_taken?(column_id, position, exclude_task_id) do
+    import Ecto.Query
+
+    "tasks"
+    |> from(where: [column_id: ^column_id, position: ^position])
+    |> where([t], t.id != ^exclude_task_id)
+    |> Viban.RepoSqlite.exists?()
+  end
+
   defp get_last_task_position(column_id, exclude_task_id) do
     import Ecto.Query
 
@@ -10,6 +10,9 @@ defmodule Viban.Kanban.Task.Changes.QueueMessage do
     prompt = Ash.Changeset.get_argument(changeset, :prompt)
     executor_type = Ash.Changeset.get_argument(changeset, :executor_type) || :claude_code
     images = Ash.Changeset.get_argument(changeset, :images) || []
+    model = Ash.Changeset.get_argument(changeset, :model)
+    mode = Ash.Changeset.get_argument(changeset, :mode) || :execute
+    message_id = Ash.Changeset.get_argument(changeset, :message_id)
     current_queue = Ash.Changeset.get_data(changeset, :message_queue) || []
 
     if is_nil(prompt) or prompt == "" do
@@ -20,6 +23,9 @@ defmodule Viban.Kanban.Task.Changes.QueueMessage do
         "prompt" => prompt,
         "executor_type" => to_string(executor_type),
         "images" => images,
+        "model" => model,
+        "mode" => to_string(mode),
+        "message_id" => message_id,
         "queued_at" => DateTime.to_iso8601(DateTime.utc_now())
       }
 
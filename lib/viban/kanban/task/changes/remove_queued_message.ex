@@ -0,0 +1,21 @@
+defmodule Viban.Kanban.Task.Changes.RemoveQueuedMessage do
+  @moduledoc """
+  Ash change that cancels a message still waiting in the task's message queue.
+  """
+
+  use Ash.Resource.Change
+
+  @impl true
+  def change(changeset, _opts, _context) do
+    message_id = Ash.Changeset.get_argument(changeset, :message_id)
+    current_queue = Ash.Changeset.get_data(changeset, :message_queue) || []
+
+    case Enum.split_with(current_queue, &(&1.id == message_id)) do
+      {[], _queue} ->
+        Ash.Changeset.add_error(changeset, field: :message_id, message: "Message is no longer queued")
+
+      {_removed, rest} ->
+        Ash.Changeset.change_attribute(changeset, :message_queue, rest)
+    end
+  end
+end
@@ -0,0 +1,22 @@
+defmodule Viban.Kanban.Task.Changes.ReorderMessageQueue do
+  @moduledoc """
+  Ash change that puts the task's queued messages in the order of the `message_ids` argument.
+
+  Ids no longer in the queue are ignored, and messages missing from `message_ids` (queued
+  while the client was reordering) keep their relative order after the listed ones.
+  """
+
+  use Ash.Resource.Change
+
+  @impl true
+  def change(changeset, _opts, _context) do
+    message_ids = Ash.Changeset.get_argument(changeset, :message_ids) || []
+    current_queue = Ash.Changeset.get_data(changeset, :message_queue) || []
+
+    by_id = Map.new(current_queue, &{&1.id, &1})
+    listed = message_ids |> Enum.uniq() |> Enum.flat_map(&List.wrap(by_id[&1]))
+    rest = Enum.reject(current_queue, &(&1.id in message_ids))
+
+    Ash.Changeset.change_attribute(changeset, :message_queue, listed ++ rest)
+  end
+end
@@ -0,0 +1,31 @@
+defmodule Viban.Kanban.Task.Changes.UpdateQueuedMessage do
+  @moduledoc """
+  Ash change that replaces the prompt of a message still waiting in the task's message queue.
+  """
+
+  use Ash.Resource.Change
+
+  @impl true
+  def change(changeset, _opts, _context) do
+    message_id = Ash.Changeset.get_argument(changeset, :message_id)
+    prompt = Ash.Changeset.get_argument(changeset, :prompt)
+    current_queue = Ash.Changeset.get_data(changeset, :message_queue) || []
+
+    cond do
+      is_nil(prompt) or String.trim(prompt) == "" ->
+        Ash.Changeset.add_error(changeset, field: :prompt, message: "Prompt is required")
+
+      not Enum.any?(current_queue, &(&1.id == message_id)) ->
+        Ash.Changeset.add_error(changeset, field: :message_id, message: "Message is no longer queued")
+
+      true ->
+        updated_queue =
+          Enum.map(current_queue, fn
+            %{id: ^message_id} = entry -> %{entry | prompt: prompt}
+            entry -> entry
+          end)
+
+        Ash.Changeset.change_attribute(changeset, :message_queue, updated_queue)
+    end
+  end
+end
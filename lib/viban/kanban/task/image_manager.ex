@@ -1,12 +1,16 @@
 defmodule Viban.Kanban.Task.ImageManager do
   @moduledoc """
-  Manages task description images.
+  Manages task description images and files attached to task chat messages.
 
   Images are stored in the filesystem under the task's data directory.
   Supports saving new images, syncing with existing images, and cleanup.
+
+  Attachments live in the same directory. Their id is the stored file name, a UUID followed by
+  the sanitized original name, so the name needs no separate record.
   """
 
   @images_dir Path.expand("~/.viban/images")
+  @attachment_id ~r/^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}-[\w.-]+$/
 
   @doc """
   Save images for a task.
@@ -74,6 +78,59 @@ defmodule Viban.Kanban.Task.ImageManager do
     end
   end
 
+  @doc """
+  Save a file uploaded for a task chat message, copying it from `source_path`.
+  Returns {:ok, attachment} or {:error, reason}
+  """
+  def save_attachment(task_id, source_path, filename) do
+    task_dir = task_images_dir(task_id)
+    File.mkdir_p!(task_dir)
+
+    id = "#{Ash.UUID.generate()}-#{sanitize_filename(filename)}"
+
+    case File.cp(source_path, Path.join(task_dir, id)) do
+      :ok -> {:ok, attachment(task_id, id)}
+      {:error, reason} -> {:error, reason}
+    end
+  end
+
+  @doc """
+  Look up attachments by id, in order. Each attachment includes the `"path"` of its file.
+  Returns {:ok, [attachment]} or {:error, :not_found} if any of them is missing.
+  """
+  def get_attachments(task_id, ids) when is_list(ids) do
+    if Enum.all?(ids, &attachment_exists?(task_id, &1)) do
+      {:ok, Enum.map(ids, &attachment(task_id, &1))}
+    else
+      {:error, :not_found}
+    end
+  end
+
+  @doc """
+  Resolve the images of a queued message for the executor.
+
+  Chat attachments are queued by `"attachment_id"` and get the `"path"` of their stored file here;
+  attachments deleted since are left out. Any other `"path"` is dropped, so a client can't have
+  the executor copy arbitrary local files into the worktree.
+  """
+  def resolve_queued_images(task_id, images) when is_list(images) do
+    Enum.flat_map(images, fn
+      %{"attachment_id" => id} ->
+        case get_attachments(task_id, [id]) do
+          {:ok, attachments} -> attachments
+          {:error, :not_found} -> []
+        end
+
+      image when is_map(image) ->
+        [Map.drop(image, ["path", :path])]
+
+      _ ->
+        []
+    end)
+  end
+
+  def resolve_queued_images(_task_id, _images), do: []
+
   @doc """
   Delete all images for a task.
   """
@@ -95,6 +152,30 @@ defmodule Viban.Kanban.Task.ImageManager do
     Path.join(@images_dir, to_string(task_id))
   end
 
+  defp attachment_exists?(task_id, id) do
+    is_binary(id) and Regex.match?(@attachment_id, id) and File.regular?(Path.join(task_images_dir(task_id), id))
+  end
+
+  defp attachment(task_id, id) do
+    path = Path.join(task_images_dir(task_id), id)
+
+    %{
+      "id" => id,
+      "name" => String.slice(id, 37..-1//1),
+      "content_type" => MIME.from_path(path),
+      "size" => File.stat!(path).size,
+      "url" => "/api/tasks/#{task_id}/images/#{id}",
+      "path" => path
+    }
+  end
+
+  defp sanitize_filename(filename) do
+    case filename |> Path.basename() |> String.replace(~r/[^\w.-]/, "_") |> String.slice(0, 100) do
+      "" -> "file"
+      name -> name
+    end
+  end
+
   defp url_to_path(task_id, url) do
     filename = Path.basename(url)
     Path.join(task_images_dir(task_id), filename)
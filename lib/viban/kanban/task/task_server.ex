@@ -372,6 +372,16 @@ defmodule Viban.Kanban.Task.TaskServer do
           not MapSet.member?(already_queued_column_hook_ids, column_hook.id)
       end)
 
+    # Hooks the task's settings turn off for this task
+    skipped_hooks = (task && task.skipped_hooks) || []
+
+    {skipped_by_task, entry_hooks} =
+      Enum.split_with(entry_hooks, fn {column_hook, _hook} -> column_hook.id in skipped_hooks end)
+
+    Enum.each(skipped_by_task, fn {column_hook, hook} ->
+      create_hook_execution(task_id, column_hook, hook, column_id, :skipped, :task_settings)
+    end)
+
     if hooks_enabled do
       {transparent_hooks, normal_hooks} =
         Enum.split_with(entry_hooks, fn {column_hook, _hook} -> column_hook.transparent end)
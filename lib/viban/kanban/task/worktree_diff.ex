@@ -0,0 +1,314 @@
+defmodule Viban.Kanban.Task.WorktreeDiff do
+  @moduledoc """
+  Line diff statistics for task worktrees.
+
+  Changes are measured from the merge base of the worktree's HEAD and the base ref (the board
+  repository's `origin/<default_branch>`), so commits that land on the base branch after the
+  worktree was created don't count. The totals compare the merge base with the working tree and
+  include untracked files: everything the agent has written so far, committed or not.
+
+  `details/2` also splits the changes into sections, each measured on its own:
+
+  - `:committed` - merge base to HEAD
+  - `:staged` - HEAD to the index
+  - `:unstaged` - the index to the working tree, plus untracked files
+
+  A line changed in more than one section counts in each, so the sections don't always add up to
+  the totals (the `:all` section).
+
+  Counts come from `git diff --numstat`, so they match `git diff --stat`. Binary files are listed
+  with no line counts, and so are untracked files too large to read or past the first few hundred
+  untracked files. See `docs/PR_LINE_DIFF_DESIGN.md` for the design.
+
+  ## Usage
+
+      {:ok, base_ref} = WorktreeDiff.base_ref(board_id)
+
+      # Totals, for the task card
+      {:ok, %{additions: 42, deletions: 15, files: 3}} = WorktreeDiff.summary(path, base_ref)
+
+      # Files per section, for the task panel
+      {:ok, %{base_ref: "origin/main", sections: sections}} = WorktreeDiff.details(path, base_ref)
+
+      # Patch of one file
+      {:ok, patch} = WorktreeDiff.file_patch(path, base_ref, :staged, "lib/app.ex")
+  """
+
+  alias Viban.Kanban.Repository
+
+  @sections [:all, :committed, :staged, :unstaged]
+
+  # Patches past this size aren't sent to the browser
+  @max_patch_bytes 1_000_000
+
+  # Git's own binary check: a NUL byte within the first 8000 bytes
+  @binary_sniff_bytes 8000
+
+  # Untracked files are read whole to count their lines, so only this many, up to this size
+  @max_untracked_reads 500
+  @max_untracked_bytes 1_000_000
+
+  @numstat_line ~r/^(\d+|-)\t(\d+|-)\t(.+)$/
+  @summary_line ~r/^ (create|delete) mode \d+ (.+)$/
+
+  @type section :: :all | :committed | :staged | :unstaged
+
+  @type diff_file :: %{
+          path: String.t(),
+          status: :added | :modified | :deleted,
+          additions: non_neg_integer(),
+          deletions: non_neg_integer(),
+          binary: boolean()
+        }
+
+  @type section_diff :: %{
+          section: section(),
+          additions: non_neg_integer(),
+          deletions: non_neg_integer(),
+          files: [diff_file()]
+        }
+
+  @type stats :: %{additions: non_neg_integer(), deletions: non_neg_integer(), files: non_neg_integer()}
+
+  @type details :: %{base_ref: String.t(), sections: [section_diff()]}
+
+  @type diff_error ::
+          :no_repository
+          | :no_worktree
+          | :patch_too_large
+          | {:git_error, integer(), String.t()}
+
+  @doc """
+  The sections `details/2` returns, in order.
+  """
+  @spec sections() :: [section()]
+  def sections, do: @sections
+
+  @doc """
+  Returns the ref the worktrees of a board are compared with.
+  """
+  @spec base_ref(Ecto.UUID.t()) :: {:ok, String.t()} | {:error, :no_repository}
+  def base_ref(board_id) do
+    case Repository.for_board(board_id) do
+      {:ok, [repo | _]} -> {:ok, "origin/#{repo.default_branch || "main"}"}
+      _ -> {:error, :no_repository}
+    end
+  end
+
+  @doc """
+  Returns the total lines added and deleted in a worktree, and the number of files changed.
+  """
+  @spec summary(String.t() | nil, String.t()) :: {:ok, stats()} | {:error, diff_error()}
+  def summary(worktree_path, base_ref) do
+    with :ok <- check_worktree(worktree_path),
+         {:ok, merge_base} <- merge_base(worktree_path, base_ref),
+         {:ok, diff} <- section_diff(worktree_path, merge_base, :all) do
+      {:ok, %{additions: diff.additions, deletions: diff.deletions, files: length(diff.files)}}
+    end
+  end
+
+  @doc """
+  Returns the changed files of a worktree, per section.
+  """
+  @spec details(String.t() | nil, String.t()) :: {:ok, details()} | {:error, diff_error()}
+  def details(worktree_path, base_ref) do
+    with :ok <- check_worktree(worktree_path),
+         {:ok, merge_base} <- merge_base(worktree_path, base_ref),
+         {:ok, sections} <- section_diffs(worktree_path, merge_base) do
+      {:ok, %{base_ref: base_ref, sections: sections}}
+    end
+  end
+
+  @doc """
+  Returns the unified diff of one file in a section.
+
+  Untracked files are diffed against an empty file. Only files git reports as changed or
+  untracked in the worktree are read.
+  """
+  @spec file_patch(String.t() | nil, String.t(), section(), String.t()) :: {:ok, String.t()} | {:error, diff_error()}
+  def file_patch(worktree_path, base_ref, section, file) when section in @sections do
+    with :ok <- check_worktree(worktree_path),
+         {:ok, merge_base} <- merge_base(worktree_path, base_ref),
+         {:ok, patch} <- tracked_patch(worktree_path, merge_base, section, file),
+         {:ok, patch} <- maybe_untracked_patch(worktree_path, section, file, patch) do
+      if byte_size(patch) > @max_patch_bytes, do: {:error, :patch_too_large}, else: {:ok, patch}
+    end
+  end
+
+  @doc false
+  # Parses `git diff --numstat --summary` output into files
+  @spec parse_numstat(String.t()) :: [diff_file()]
+  def parse_numstat(output) do
+    lines = String.split(output, "\n", trim: true)
+
+    statuses =
+      Map.new(
+        for line <- lines, [_, kind, path] <- [Regex.run(@summary_line, line)] do
+          {decode_path(path), if(kind == "create", do: :added, else: :deleted)}
+        end
+      )
+
+    for line <- lines, [_, added, deleted, path] <- [Regex.run(@numstat_line, line)] do
+      path = decode_path(path)
+
+      %{
+        path: path,
+        status: Map.get(statuses, path, :modified),
+        additions: to_count(added),
+        deletions: to_count(deleted),
+        binary: added == "-"
+      }
+    end
+  end
+
+  # ---------------------------------------------------------------------------
+  # Private Functions - Sections
+  # ---------------------------------------------------------------------------
+
+  defp section_diffs(worktree_path, merge_base) do
+    Enum.reduce_while(Enum.reverse(@sections), {:ok, []}, fn section, {:ok, diffs} ->
+      case section_diff(worktree_path, merge_base, section) do
+        {:ok, diff} -> {:cont, {:ok, [diff | diffs]}}
+        error -> {:halt, error}
+      end
+    end)
+  end
+
+  defp section_diff(worktree_path, merge_base, section) do
+    with {:ok, output} <- git(worktree_path, ["diff", "--numstat", "--summary" | diff_args(merge_base, section)]),
+         {:ok, untracked} <- untracked_files(worktree_path, section) do
+      files = Enum.sort_by(parse_numstat(output) ++ untracked, & &1.path)
+
+      {:ok,
+       %{
+         section: section,
+         additions: files |> Enum.map(& &1.additions) |> Enum.sum(),
+         deletions: files |> Enum.map(& &1.deletions) |> Enum.sum(),
+         files: files
+       }}
+    end
+  end
+
+  defp diff_args(merge_base, :all), do: ["--no-renames", merge_base]
+  defp diff_args(merge_base, :committed), do: ["--no-renames", merge_base, "HEAD"]
+  defp diff_args(_merge_base, :staged), do: ["--no-renames", "--cached"]
+  defp diff_args(_merge_base, :unstaged), do: ["--no-renames"]
+
+  # ---------------------------------------------------------------------------
+  # Private Functions - Untracked Files
+  # ---------------------------------------------------------------------------
+
+  defp untracked_files(worktree_path, section) when section in [:all, :unstaged] do
+    with {:ok, paths} <- untracked_paths(worktree_path, []) do
+      {read, unread} = Enum.split(paths, @max_untracked_reads)
+      {:ok, Enum.map(read, &untracked_file(worktree_path, &1)) ++ Enum.map(unread, &unread_file/1)}
+    end
+  end
+
+  defp untracked_files(_worktree_path, _section), do: {:ok, []}
+
+  defp untracked_paths(worktree_path, pathspec) do
+    with {:ok, output} <- git(worktree_path, ["ls-files", "--others", "--exclude-standard", "-z", "--" | pathspec]) do
+      {:ok, String.split(output, <<0>>, trim: true)}
+    end
+  end
+
+  defp untracked_file(worktree_path, path) do
+    file = %{path: path, status: :added, additions: 0, deletions: 0, binary: false}
+    full_path = Path.join(worktree_path, path)
+
+    with {:ok, %{size: size}} when size <= @max_untracked_bytes <- File.stat(full_path),
+         {:ok, content} <- File.read(full_path) do
+      if binary_content?(content) do
+        %{file | binary: true}
+      else
+        %{file | additions: count_lines(content)}
+      end
+    else
+      {:ok, _too_large} -> unread_file(path)
+      {:error, _} -> file
+    end
+  end
+
+  # Listed like a binary file, without line counts
+  defp unread_file(path) do
+    %{path: path, status: :added, additions: 0, deletions: 0, binary: true}
+  end
+
+  defp binary_content?(content) do
+    sniffed = binary_part(content, 0, min(byte_size(content), @binary_sniff_bytes))
+    :binary.match(sniffed, <<0>>) != :nomatch
+  end
+
+  # Counted like git: a last line without a newline still counts
+  defp count_lines(""), do: 0
+
+  defp count_lines(content) do
+    newlines = length(:binary.matches(content, "\n"))
+    if String.ends_with?(content, "\n"), do: newlines, else: newlines + 1
+  end
+
+  # ---------------------------------------------------------------------------
+  # Private Functions - Patches
+  # ---------------------------------------------------------------------------
+
+  defp tracked_patch(worktree_path, merge_base, section, file) do
+    git(worktree_path, ["diff", "--no-color", "--no-ext-diff" | diff_args(merge_base, section)] ++ ["--", file])
+  end
+
+  defp maybe_untracked_patch(worktree_path, section, file, "") when section in [:all, :unstaged] do
+    case untracked_paths(worktree_path, [file]) do
+      {:ok, [^file]} -> untracked_patch(worktree_path, file)
+      {:ok, _} -> {:ok, ""}
+      error -> error
+    end
+  end
+
+  defp maybe_untracked_patch(_worktree_path, _section, _file, patch), do: {:ok, patch}
+
+  # `git diff --no-index` exits with 1 when the files differ
+  defp untracked_patch(worktree_path, file) do
+    args = ["-C", worktree_path, "diff", "--no-color", "--no-ext-diff", "--no-index", "--", "/dev/null", file]
+
+    case System.cmd("git", args, stderr_to_stdout: true) do
+      {output, code} when code in [0, 1] -> {:ok, output}
+      {output, code} -> {:error, {:git_error, code, output}}
+    end
+  end
+
+  # ---------------------------------------------------------------------------
+  # Private Functions - Git
+  # ---------------------------------------------------------------------------
+
+  defp check_worktree(nil), do: {:error, :no_worktree}
+
+  defp check_worktree(worktree_path) do
+    if File.dir?(worktree_path), do: :ok, else: {:error, :no_worktree}
+  end
+
+  defp merge_base(worktree_path, base_ref) do
+    with {:ok, output} <- git(worktree_path, ["merge-base", "HEAD", base_ref]) do
+      {:ok, String.trim(output)}
+    end
+  end
+
+  # Paths are left unescaped (`core.quotePath=false`); git still quotes those with quotes,
+  # backslashes or control characters
+  defp git(worktree_path, args) do
+    case System.cmd("git", ["-C", worktree_path, "-c", "core.quotePath=false" | args], stderr_to_stdout: true) do
+      {output, 0} -> {:ok, output}
+      {output, code} -> {:error, {:git_error, code, output}}
+    end
+  end
+
+  defp decode_path("\"" <> quoted) do
+    quoted
+    |> String.trim_trailing("\"")
+    |> Macro.unescape_string()
+  end
+
+  defp decode_path(path), do: path
+
+  defp to_count("-"), do: 0
+  defp to_count(count), do: String.to_integer(count)
+end
@@ -10,6 +10,13 @@ defmodule Viban.Kanban.TaskActivityNotifier do
   - `{:executor_message, payload}` - New executor output message
   - `{:executor_session_update, payload}` - Session status change
   - `{:hook_executed, payload}` - Hook execution status change
+
+  Hook effects and finished hooks go to the `board:{board_id}` topic instead,
+  so every client with the board open can play sounds for them, not only the
+  ones showing the task:
+
+  - `{:hook_effect, payload}` - Effect of a hook, e.g. play_sound
+  - `{:hook_finished, payload}` - Hook execution completed or failed
   """
 
   require Logger
@@ -72,10 +79,10 @@ defmodule Viban.Kanban.TaskActivityNotifier do
   end
 
   @doc """
-  Broadcasts a hook effect (e.g., play_sound).
+  Broadcasts a hook effect (e.g., play_sound) to the board topic.
   Effects are separate from status changes and are triggered by specific hooks.
   """
-  def broadcast_hook_effect(task_id, execution, effects) do
+  def broadcast_hook_effect(board_id, task_id, execution, effects) do
     payload = %{
       execution_id: execution.id,
       hook_id: execution.hook_id,
@@ -84,7 +91,23 @@ defmodule Viban.Kanban.TaskActivityNotifier do
       effects: effects
     }
 
-    broadcast(task_id, {:hook_effect, payload})
+    broadcast_board(board_id, {:hook_effect, payload})
+  end
+
+  @doc """
+  Broadcasts a completed or failed hook execution to the board topic.
+  Called automatically by the HookExecution Ash notifier.
+  """
+  def broadcast_hook_finished(board_id, execution) do
+    payload = %{
+      execution_id: execution.id,
+      hook_id: execution.hook_id,
+      hook_name: execution.hook_name,
+      task_id: execution.task_id,
+      status: execution.status
+    }
+
+    broadcast_board(board_id, {:hook_finished, payload})
   end
 
   defp broadcast(task_id, message) do
@@ -94,4 +117,12 @@ defmodule Viban.Kanban.TaskActivityNotifier do
 
     Phoenix.PubSub.broadcast(Viban.PubSub, topic, message)
   end
+
+  defp broadcast_board(board_id, message) do
+    topic = "board:#{board_id}"
+
+    Logger.debug("[TaskActivityNotifier] Broadcasting to #{topic}: #{inspect(elem(message, 0))}")
+
+    Phoenix.PubSub.broadcast(Viban.PubSub, topic, message)
+  end
 end
@@ -23,6 +23,22 @@ defmodule Viban.Kanban.Types.MessageQueueEntry do
       constraints one_of: [:claude_code, :gemini_cli]
     end
 
+    attribute :model, :string do
+      public? true
+    end
+
+    attribute :mode, :atom do
+      allow_nil? false
+      public? true
+      default :execute
+      constraints one_of: [:execute, :plan]
+    end
+
+    # The user message in the activity feed, for entries queued from the chat
+    attribute :message_id, :string do
+      public? true
+    end
+
     attribute :images, {:array, :map} do
       public? true
       default []
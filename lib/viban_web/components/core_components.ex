@@ -425,13 +425,19 @@ defmodule VibanWeb.CoreComponents do
   The component is mounted using the VueHook and receives props from LiveView assigns.
   All events are forwarded to LiveView via pushEvent.
 
+  Static or small props are passed with `props` and re-sent whole whenever they change.
+  Components with `live_props` instead receive targeted patches over the
+  `VibanWeb.LiveVue` channel, which the LiveView sets up for their id.
+
   ## Examples
 
-      <.vue id="kanban" component="KanbanBoard" props={%{columns: @columns, tasks: @tasks}} />
+      <.vue id="shortcut-help" component="ShortcutHelp" />
+      <.vue id="kanban-board" component="KanbanBoard" live_props />
   """
   attr :id, :string, required: true
   attr :component, :string, required: true
   attr :props, :map, default: %{}
+  attr :live_props, :boolean, default: false, doc: "receive props from `VibanWeb.LiveVue` instead of `props`"
   attr :class, :string, default: nil
 
   def vue(assigns) do
@@ -441,7 +447,8 @@ defmodule VibanWeb.CoreComponents do
       phx-hook="VueHook"
       phx-update="ignore"
       data-component={@component}
-      data-props={Jason.encode!(@props)}
+      data-props={!@live_props && Jason.encode!(@props)}
+      data-live-props={@live_props}
       class={@class}
     >
     </div>
@@ -3,22 +3,30 @@ defmodule VibanWeb.TaskController do
   Controller for task-related endpoints that cannot be handled via RPC.
 
   Most task operations are handled through Ash RPC, but binary file
-  serving (images) requires a traditional REST endpoint.
+  uploads and serving (images, chat attachments) require traditional
+  REST endpoints.
   """
 
   use VibanWeb, :controller
 
-  import VibanWeb.ControllerHelpers, only: [json_error: 3]
+  import VibanWeb.ControllerHelpers, only: [json_error: 3, json_ok: 2]
 
+  alias Viban.Kanban.Task
   alias Viban.Kanban.Task.ImageManager
 
   require Logger
 
+  # Shown in the page; any other file, e.g. an uploaded .html or .svg, is downloaded instead so it
+  # can't run as a page on the app's origin
+  @inline_types ~w(image/png image/jpeg image/gif image/webp)
+
   @doc """
   Serves an image file for a task.
 
   Images are stored in the task's working directory and served with
-  appropriate content types based on file extension.
+  appropriate content types based on file extension. Chat attachments
+  share the directory; those that are not plain images are served as
+  downloads.
 
   ## Path Parameters
 
@@ -37,6 +45,8 @@ defmodule VibanWeb.TaskController do
 
         conn
         |> put_resp_content_type(content_type)
+        |> put_resp_header("x-content-type-options", "nosniff")
+        |> put_disposition(content_type, image_id)
         |> send_file(200, filepath)
 
       {:error, :not_found} ->
@@ -47,4 +57,47 @@ defmodule VibanWeb.TaskController do
         json_error(conn, :internal_server_error, "Failed to retrieve image")
     end
   end
+
+  @doc """
+  Uploads a file to attach to a task chat message.
+
+  The composer uploads each file as soon as it is added and sends the
+  returned attachment id with the message.
+
+  ## Path Parameters
+
+  - `task_id` - The ID of the task
+
+  ## Body
+
+  Multipart form with the file in `file`.
+
+  ## Response
+
+  Returns `%{ok: true, attachment: %{id, name, content_type, size, url}}`.
+  """
+  def upload_attachment(conn, %{"task_id" => task_id, "file" => %Plug.Upload{} = upload}) do
+    with {:ok, _task} <- Task.get(task_id),
+         {:ok, attachment} <- ImageManager.save_attachment(task_id, upload.path, upload.filename) do
+      json_ok(conn, %{attachment: Map.delete(attachment, "path")})
+    else
+      {:error, %Ash.Error.Invalid{}} ->
+        json_error(conn, :not_found, "Task not found")
+
+      {:error, reason} ->
+        Logger.error("[TaskController] Failed to save attachment: #{inspect(reason)}")
+        json_error(conn, :internal_server_error, "Failed to save attachment")
+    end
+  end
+
+  def upload_attachment(conn, _params) do
+    json_error(conn, :bad_request, "Missing required parameter: file")
+  end
+
+  defp put_disposition(conn, content_type, _filename) when content_type in @inline_types, do: conn
+
+  defp put_disposition(conn, _content_type, filename) do
+    filename = String.replace(filename, ~r/[^\w.-]/, "_")
+    put_resp_header(conn, "content-disposition", ~s(attachment; filename="#{filename}"))
+  end
 end
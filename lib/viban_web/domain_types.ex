@@ -0,0 +1,144 @@
+defmodule VibanWeb.DomainTypes do
+  @moduledoc """
+  TypeScript types for the data BoardLive hands to its Vue components.
+
+  Each interface lists the fields its serializer puts in the props, in the same order. Fields
+  that come straight from an Ash resource attribute are given by name, and their TypeScript type
+  and nullability are read from the resource. Fields the serializer computes or reshapes are
+  given with their TypeScript type.
+
+  `mix viban.gen.types` writes `render/0` to `assets/js/types/domain.ts`; after changing a
+  resource or a serializer, update the lists below and run it.
+  """
+
+  alias Viban.Kanban
+
+  @interfaces [
+    {"Board", Kanban.Board, [:id, :name, :description]},
+    {"Task", Kanban.Task,
+     [
+       :id,
+       :title,
+       :description,
+       :position,
+       :column_id,
+       :parent_task_id,
+       :is_parent,
+       :subtask_position,
+       :subtask_generation_status,
+       :worktree_path,
+       :worktree_branch,
+       :agent_status,
+       :agent_status_message,
+       :pr_url,
+       :pr_number,
+       :pr_status,
+       :inserted_at,
+       :auto_start,
+       :custom_branch_name,
+       :executor_type,
+       :skipped_hooks,
+       :variant_group_id,
+       :variant_number,
+       :variant_status,
+       message_queue: "QueuedMessage[]"
+     ]},
+    {"QueuedMessage", Kanban.Types.MessageQueueEntry,
+     [:id, :prompt, :executor_type, :model, :mode, :message_id, :queued_at, attachment_count: "number"]},
+    {"ColumnData", Kanban.Column, [:id, :name, :position, :color, system: "boolean", tasks: "Task[]"]},
+    {"HookExecution", Kanban.HookExecution,
+     [
+       :type,
+       :id,
+       :hook_id,
+       :hook_name,
+       :status,
+       :skip_reason,
+       :error_message,
+       :hook_settings,
+       :queued_at,
+       :started_at,
+       :completed_at,
+       duration_ms: "number | null",
+       timestamp: "string"
+     ]},
+    {"Message", Kanban.Message, [:type, :id, :role, :content, :status, :metadata, :inserted_at, timestamp: "string"]},
+    {"ExecutorMessage", Kanban.ExecutorMessage,
+     [
+       {:type, ~s("executor_message")},
+       :id,
+       :role,
+       :content,
+       :metadata,
+       :session_id,
+       :inserted_at,
+       timestamp: "string"
+     ]}
+  ]
+
+  @unions [
+    {"ActivityItem", ["HookExecution", "Message", "ExecutorMessage"]}
+  ]
+
+  @string_types [Ash.Type.String, Ash.Type.CiString, Ash.Type.UUID]
+  @number_types [Ash.Type.Integer, Ash.Type.Float, Ash.Type.Decimal]
+  @datetime_types [Ash.Type.UtcDatetime, Ash.Type.UtcDatetimeUsec, Ash.Type.DateTime, Ash.Type.Date]
+
+  @header """
+  // Generated by `mix viban.gen.types` from the Ash resources in lib/viban/kanban
+  // (see VibanWeb.DomainTypes). Do not edit by hand.
+  """
+
+  @doc """
+  Returns the contents of `assets/js/types/domain.ts`.
+  """
+  @spec render() :: String.t()
+  def render do
+    interfaces = Enum.map(@interfaces, &render_interface/1)
+    unions = Enum.map(@unions, &render_union/1)
+
+    Enum.join([@header | interfaces ++ unions], "\n")
+  end
+
+  defp render_interface({name, resource, fields}) do
+    "export interface #{name} {\n" <> Enum.map_join(fields, &render_field(resource, &1)) <> "}\n"
+  end
+
+  defp render_union({name, members}) do
+    "export type #{name} = #{Enum.join(members, " | ")};\n"
+  end
+
+  defp render_field(_resource, {name, type}), do: "  #{name}: #{type};\n"
+
+  defp render_field(resource, name) do
+    case Ash.Resource.Info.attribute(resource, name) do
+      nil ->
+        raise ArgumentError, "#{inspect(resource)} has no attribute #{inspect(name)}"
+
+      attribute ->
+        type = ts_type(attribute.type, attribute.constraints)
+        type = if attribute.allow_nil?, do: "#{type} | null", else: type
+        "  #{name}: #{type};\n"
+    end
+  end
+
+  defp ts_type({:array, type}, constraints), do: "#{ts_type(type, constraints[:items] || [])}[]"
+
+  defp ts_type(Ash.Type.Atom, constraints) do
+    case constraints[:one_of] do
+      nil -> "string"
+      values -> Enum.map_join(values, " | ", fn value -> ~s("#{value}") end)
+    end
+  end
+
+  defp ts_type(Ash.Type.Boolean, _constraints), do: "boolean"
+  defp ts_type(Ash.Type.Map, _constraints), do: "Record<string, unknown>"
+  defp ts_type(type, _constraints) when type in @string_types, do: "string"
+  defp ts_type(type, _constraints) when type in @number_types, do: "number"
+  # Serialized as ISO 8601 strings by Jason
+  defp ts_type(type, _constraints) when type in @datetime_types, do: "string"
+
+  defp ts_type(type, _constraints) do
+    raise ArgumentError, "no TypeScript type for #{inspect(type)}, give the field's type explicitly"
+  end
+end
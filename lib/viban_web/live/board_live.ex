@@ -3,6 +3,10 @@ defmodule VibanWeb.BoardLive do
   use VibanWeb, :live_view
 
   alias Phoenix.PubSub
+  alias Viban.AppRuntime.SystemTools
+  alias Viban.Executors.Registry, as: ExecutorRegistry
+  alias Viban.Executors.Runner
+  alias Viban.Kanban.Actors.DiffStatsWatcher
   alias Viban.Kanban.Board
   alias Viban.Kanban.Column
   alias Viban.Kanban.ColumnHook
@@ -14,10 +18,20 @@ defmodule VibanWeb.BoardLive do
   alias Viban.Kanban.Repository
   alias Viban.Kanban.SystemHooks.Registry
   alias Viban.Kanban.Task
+  alias Viban.Kanban.Task.ImageManager
+  alias Viban.Kanban.Task.TaskServer
+  alias Viban.Kanban.Task.WorktreeDiff
   alias Viban.Kanban.TaskTemplate
+  alias VibanWeb.LiveVue
 
   require Logger
 
+  # Activity items sent to the task panel at a time; older ones are loaded on demand
+  @activity_page_size 100
+
+  # Used when a message doesn't pick an executor, e.g. bulk prompts
+  @default_agent %{executor_type: :claude_code, model: nil, mode: :execute}
+
   @impl true
   def mount(%{"board_id" => board_id, "task_id" => task_id}, session, socket) do
     mount(%{"id" => board_id, "task_id" => task_id}, session, socket)
@@ -31,6 +45,7 @@ defmodule VibanWeb.BoardLive do
       {:ok, board, columns} ->
         if connected?(socket) do
           PubSub.subscribe(Viban.PubSub, "board:#{board_id}")
+          DiffStatsWatcher.watch(board_id)
         end
 
         socket =
@@ -39,6 +54,7 @@ defmodule VibanWeb.BoardLive do
           |> assign(:board, serialize_board(board))
           |> assign(:columns, columns)
           |> assign(:user_id, user_id)
+          |> assign(:boards, load_user_boards(user_id))
           |> assign(:selected_task_id, task_id)
           |> assign(:selected_task, load_selected_task(task_id))
           |> assign(:show_create_task_modal, false)
@@ -52,7 +68,8 @@ defmodule VibanWeb.BoardLive do
             branch_name: "",
             base_branch: nil,
             is_refining: false,
-            auto_start: false
+            auto_start: false,
+            variants: 1
           })
           |> assign(:show_settings, false)
           |> assign(:settings_tab, "general")
@@ -81,13 +98,17 @@ defmodule VibanWeb.BoardLive do
           |> assign(:column_form, %{name: "", color: "#6366f1"})
           |> assign(:show_create_pr_modal, false)
           |> assign(:pr_form, %{title: "", body: ""})
-          |> assign(:show_keyboard_shortcuts, false)
           |> assign(:search_query, "")
           |> assign(:task_activity, [])
+          |> assign(:task_activity_has_more, false)
           |> assign(:task_sessions, [])
           |> assign(:task_panel_fullscreen, false)
           |> assign(:task_panel_hide_details, false)
+          |> assign(:task_panel_hooks, [])
+          |> assign(:diff_stats, DiffStatsWatcher.stats(board_id))
+          |> assign(:executors, load_executors())
           |> assign(:subscribed_task_id, nil)
+          |> LiveVue.attach(vue_components())
 
         {:ok, socket}
 
@@ -102,31 +123,19 @@ defmodule VibanWeb.BoardLive do
   end
 
   @impl true
-  def handle_params(%{"task_id" => task_id}, _uri, socket) do
+  def handle_params(%{"task_id" => task_id} = params, _uri, socket) do
+    socket = assign(socket, :search_query, params["q"] || "")
     subscribed_task_id = socket.assigns[:subscribed_task_id]
 
-    socket =
-      if connected?(socket) do
-        socket
-        |> maybe_unsubscribe_task(subscribed_task_id, task_id)
-        |> maybe_subscribe_task(subscribed_task_id, task_id)
-      else
-        socket
-      end
-
-    {activity, sessions} = load_task_activity(task_id)
-
-    socket =
-      socket
-      |> assign(:selected_task_id, task_id)
-      |> assign(:selected_task, load_selected_task(task_id))
-      |> assign(:task_activity, activity)
-      |> assign(:task_sessions, sessions)
-
-    {:noreply, socket}
+    # Only the filter changed; the open task is already loaded
+    if connected?(socket) && subscribed_task_id == task_id do
+      {:noreply, socket}
+    else
+      {:noreply, open_task(socket, subscribed_task_id, task_id)}
+    end
   end
 
-  def handle_params(_params, _uri, socket) do
+  def handle_params(params, _uri, socket) do
     subscribed_task_id = socket.assigns[:subscribed_task_id]
 
     socket =
@@ -139,14 +148,49 @@ defmodule VibanWeb.BoardLive do
 
     socket =
       socket
+      |> assign(:search_query, params["q"] || "")
       |> assign(:selected_task_id, nil)
       |> assign(:selected_task, nil)
       |> assign(:task_activity, [])
+      |> assign(:task_activity_has_more, false)
       |> assign(:task_sessions, [])
 
     {:noreply, socket}
   end
 
+  defp open_task(socket, subscribed_task_id, task_id) do
+    socket =
+      if connected?(socket) do
+        socket
+        |> maybe_unsubscribe_task(subscribed_task_id, task_id)
+        |> maybe_subscribe_task(subscribed_task_id, task_id)
+      else
+        socket
+      end
+
+    {page, has_more?} = load_activity_page(task_id, nil)
+
+    socket
+    |> assign(:selected_task_id, task_id)
+    |> assign(:selected_task, load_selected_task(task_id))
+    |> assign(:task_panel_hooks, load_task_panel_hooks(socket.assigns.board.id, socket.assigns.columns))
+    |> assign(:task_activity, page)
+    |> assign(:task_activity_has_more, has_more?)
+    |> assign(:task_sessions, load_task_sessions(task_id))
+  end
+
+  # Board URLs carry the current filter as `?q=` so it survives opening and
+  # closing tasks and can be shared
+  defp board_path(socket, task_id \\ nil) do
+    board_id = socket.assigns.board.id
+    path = if task_id, do: ~p"/boards/#{board_id}/tasks/#{task_id}", else: ~p"/boards/#{board_id}"
+
+    case socket.assigns.search_query do
+      "" -> path
+      query -> path <> "?" <> URI.encode_query(%{q: query})
+    end
+  end
+
   defp maybe_unsubscribe_task(socket, nil, _new_task_id), do: socket
 
   defp maybe_unsubscribe_task(socket, old_task_id, new_task_id) when old_task_id == new_task_id do
@@ -175,7 +219,7 @@ defmodule VibanWeb.BoardLive do
         <div class="px-4 sm:px-6 lg:px-8">
           <div class="flex items-center justify-between h-14">
             <div class="flex items-center gap-3">
-              <.link navigate={~p"/"} class="text-gray-400 hover:text-white transition-colors">
+              <.link navigate={~p"/"} data-keyboard-home class="text-gray-400 hover:text-white transition-colors">
                 <svg class="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                   <path
                     stroke-linecap="round"
@@ -206,6 +250,7 @@ defmodule VibanWeb.BoardLive do
                 <input
                   type="text"
                   placeholder="Filter tasks... (/)"
+                  title="Free text, or status:error pr:open branch:feat/* has:worktree is:parent"
                   value={@search_query}
                   phx-keyup="update_search"
                   phx-debounce="150"
@@ -232,7 +277,7 @@ defmodule VibanWeb.BoardLive do
 
             <div class="flex items-center gap-2">
               <button
-                phx-click="show_keyboard_shortcuts"
+                phx-click={JS.dispatch("viban:toggle-shortcuts")}
                 class="p-2 text-gray-400 hover:text-white hover:bg-gray-800 rounded-lg transition-colors"
                 title="Keyboard shortcuts (?)"
               >
@@ -272,33 +317,11 @@ defmodule VibanWeb.BoardLive do
       </header>
 
       <main class="flex-1 overflow-hidden">
-        <.vue
-          id="kanban-board"
-          component="KanbanBoard"
-          props={
-            %{
-              board: @board,
-              columns: filter_columns(@columns, @search_query),
-              selectedTaskId: @selected_task_id
-            }
-          }
-          class="h-full"
-        />
+        <.vue id="kanban-board" component="KanbanBoard" live_props class="h-full" />
       </main>
 
       <%= if @selected_task do %>
-        <.vue
-          id="task-details-panel"
-          component="TaskDetailsPanel"
-          props={
-            %{
-              task: serialize_task_for_vue(@selected_task),
-              activity: @task_activity,
-              fullscreen: @task_panel_fullscreen,
-              hideDetails: @task_panel_hide_details
-            }
-          }
-        />
+        <.vue id="task-details-panel" component="TaskDetailsPanel" live_props />
       <% end %>
 
       <%= if @show_create_task_modal do %>
@@ -343,112 +366,97 @@ defmodule VibanWeb.BoardLive do
         />
       <% end %>
 
-      <%= if @show_keyboard_shortcuts do %>
-        <.keyboard_shortcuts_panel />
-      <% end %>
+      <.vue id="shortcut-help" component="ShortcutHelp" />
+
+      <div
+        id="board-tab"
+        phx-hook="BoardTab"
+        data-board-id={@board.id}
+        data-selected-task-id={@selected_task_id}
+        data-fullscreen={to_string(@task_panel_fullscreen)}
+        data-search-query={@search_query}
+        class="hidden"
+      >
+      </div>
+
+      <.vue id="command-palette" component="CommandPalette" live_props />
 
       <button class="hidden" phx-click="keyboard_escape" data-keyboard-escape></button>
-      <button class="hidden" phx-click="show_keyboard_shortcuts" data-keyboard-help></button>
       <button class="hidden" phx-click="keyboard_new_task" data-keyboard-new-task></button>
     </div>
     """
   end
 
-  defp find_column(columns, column_id) do
-    Enum.find(columns, fn c -> c.id == column_id end)
+  # Vue components rendered with `live_props`: their props, and the assigns
+  # those are built from
+  defp vue_components do
+    [
+      {"kanban-board", [:board, :columns, :selected_task_id, :search_query, :diff_stats], &kanban_board_props/1},
+      {"task-details-panel",
+       [
+         :selected_task,
+         :task_activity,
+         :task_activity_has_more,
+         :task_panel_fullscreen,
+         :task_panel_hide_details,
+         :executors,
+         :columns,
+         :task_panel_hooks,
+         :diff_stats
+       ],
+       &task_details_panel_props/1},
+      {"command-palette", [:board, :columns, :boards, :selected_task_id], &command_palette_props/1}
+    ]
   end
 
-  defp filter_columns(columns, ""), do: columns
-  defp filter_columns(columns, nil), do: columns
-
-  defp filter_columns(columns, query) do
-    query = String.downcase(query)
-
-    Enum.map(columns, fn column ->
-      filtered_tasks =
-        Enum.filter(column.tasks, fn task ->
-          title_match = task.title && String.contains?(String.downcase(task.title), query)
-
-          desc_match =
-            task.description && String.contains?(String.downcase(task.description), query)
-
-          title_match || desc_match
-        end)
-
-      Map.put(column, :tasks, filtered_tasks)
-    end)
+  defp kanban_board_props(assigns) do
+    %{
+      board: assigns.board,
+      columns: assigns.columns,
+      selectedTaskId: assigns.selected_task_id,
+      filter: assigns.search_query,
+      # Line diff stats by task id, see DiffStatsWatcher
+      diffStats: assigns.diff_stats
+    }
   end
 
-  defp keyboard_shortcuts_panel(assigns) do
-    ~H"""
-    <div class="fixed inset-0 z-50 flex items-center justify-center">
-      <div phx-click="close_keyboard_shortcuts" class="fixed inset-0 bg-black/50 backdrop-blur-sm">
-      </div>
-      <div class="relative bg-gray-900 border border-gray-700 rounded-xl shadow-2xl w-full max-w-md mx-4 animate-in zoom-in-95 duration-200">
-        <div class="flex items-center justify-between px-6 py-4 border-b border-gray-800">
-          <h2 class="text-lg font-semibold text-white">Keyboard Shortcuts</h2>
-          <button
-            phx-click="close_keyboard_shortcuts"
-            class="p-1 text-gray-400 hover:text-white hover:bg-gray-800 rounded-lg transition-colors"
-          >
-            <svg class="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24">
-              <path
-                stroke-linecap="round"
-                stroke-linejoin="round"
-                stroke-width="2"
-                d="M6 18L18 6M6 6l12 12"
-              />
-            </svg>
-          </button>
-        </div>
-
-        <div class="p-6 space-y-4">
-          <div class="space-y-3">
-            <h3 class="text-sm font-medium text-gray-400 uppercase tracking-wider">General</h3>
-            <.shortcut_row key="?" description="Show this help" />
-            <.shortcut_row key="Esc" description="Close panel/modal" />
-            <.shortcut_row key="/" description="Focus search" />
-            <.shortcut_row key="," description="Open board settings" />
-          </div>
+  defp task_details_panel_props(%{selected_task: nil}), do: nil
 
-          <div class="space-y-3 pt-2">
-            <h3 class="text-sm font-medium text-gray-400 uppercase tracking-wider">Tasks</h3>
-            <.shortcut_row key="n" description="Create new task" />
-          </div>
+  defp task_details_panel_props(assigns) do
+    %{
+      task: assigns.selected_task,
+      activity: assigns.task_activity,
+      hasOlderActivity: assigns.task_activity_has_more,
+      fullscreen: assigns.task_panel_fullscreen,
+      hideDetails: assigns.task_panel_hide_details,
+      executors: assigns.executors,
+      # For the task's subtasks and parent, see lib/subtasks.ts
+      columns: assigns.columns,
+      hooks: assigns.task_panel_hooks,
+      diffStats: Map.get(assigns.diff_stats, assigns.selected_task.id),
+      # For the comparison of the task's variants, by task id
+      variantStats: variant_stats(assigns)
+    }
+  end
 
-          <div class="space-y-3 pt-2">
-            <h3 class="text-sm font-medium text-gray-400 uppercase tracking-wider">Task Panel</h3>
-            <.shortcut_row key="Ctrl+D" description="Duplicate task" />
-            <.shortcut_row key="Ctrl+E" description="Open folder" />
-            <.shortcut_row key="Ctrl+O" description="Open in editor" />
-            <.shortcut_row key="Del" description="Delete task" />
-          </div>
-        </div>
+  defp variant_stats(%{selected_task: %{variant_group_id: nil}}), do: %{}
 
-        <div class="px-6 py-4 border-t border-gray-800 bg-gray-900/50 rounded-b-xl">
-          <p class="text-xs text-gray-500 text-center">
-            Press
-            <kbd class="px-1.5 py-0.5 bg-gray-800 rounded text-gray-300 font-mono text-xs">Esc</kbd>
-            to close
-          </p>
-        </div>
-      </div>
-    </div>
-    """
+  defp variant_stats(%{selected_task: %{variant_group_id: group_id}} = assigns) do
+    ids = for column <- assigns.columns, task <- column.tasks, task.variant_group_id == group_id, do: task.id
+    Map.take(assigns.diff_stats, ids)
   end
 
-  attr :key, :string, required: true
-  attr :description, :string, required: true
+  defp command_palette_props(assigns) do
+    %{
+      boardId: assigns.board.id,
+      columns: assigns.columns,
+      boards: assigns.boards,
+      selectedTaskId: assigns.selected_task_id
+    }
+  end
 
-  defp shortcut_row(assigns) do
-    ~H"""
-    <div class="flex items-center justify-between">
-      <span class="text-gray-300 text-sm">{@description}</span>
-      <kbd class="px-2 py-1 bg-gray-800 border border-gray-700 rounded text-gray-300 font-mono text-sm min-w-[2rem] text-center">
-        {@key}
-      </kbd>
-    </div>
-    """
+  defp find_column(columns, column_id) do
+    Enum.find(columns, fn c -> c.id == column_id end)
   end
 
   attr :column_id, :string, required: true
@@ -458,7 +466,12 @@ defmodule VibanWeb.BoardLive do
 
   defp create_task_modal(assigns) do
     ~H"""
-    <div class="fixed inset-0 z-50 overflow-y-auto">
+    <div
+      id="create-task-modal"
+      phx-hook="ShortcutContext"
+      data-shortcut-context="modal"
+      class="fixed inset-0 z-50 overflow-y-auto"
+    >
       <div class="flex min-h-full items-center justify-center p-4">
         <div phx-click="hide_create_task_modal" class="fixed inset-0 bg-black/60 transition-opacity">
         </div>
@@ -599,14 +612,38 @@ defmodule VibanWeb.BoardLive do
                     value={@form.branch_name}
                     phx-change="update_create_task_form"
                     phx-debounce="150"
-                    class="min-w-0 flex-1 px-3 py-2 bg-gray-800 border border-gray-700 rounded-r-lg text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-brand-500 focus:border-transparent font-mono text-sm"
+                    disabled={@form.variants > 1}
+                    class="min-w-0 flex-1 disabled:opacity-50 px-3 py-2 bg-gray-800 border border-gray-700 rounded-r-lg text-white placeholder-gray-500 focus:outline-none focus:ring-2 focus:ring-brand-500 focus:border-transparent font-mono text-sm"
                     placeholder="auto-generated-from-title"
                   />
                 </div>
-                <p class="mt-1 text-xs text-gray-500">Leave empty to use task ID</p>
+                <p class="mt-1 text-xs text-gray-500">
+                  {if @form.variants > 1, do: "Each variant uses its task ID", else: "Leave empty to use task ID"}
+                </p>
               </div>
             </div>
 
+            <div>
+              <label for="task_variants" class="block text-sm font-medium text-gray-300 mb-1">
+                Variants
+              </label>
+              <select
+                id="task_variants"
+                name="variants"
+                phx-change="update_create_task_form"
+                class="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-lg text-white focus:outline-none focus:ring-2 focus:ring-brand-500 focus:border-transparent"
+              >
+                <%= for count <- 1..5 do %>
+                  <option value={count} selected={@form.variants == count}>
+                    {if count == 1, do: "Single task", else: "#{count} variants"}
+                  </option>
+                <% end %>
+              </select>
+              <p class="mt-1 text-xs text-gray-500">
+                Variants run agents on the same spec side by side; compare them and select the winner in the task panel
+              </p>
+            </div>
+
             <div>
               <label class="flex items-center gap-3 cursor-pointer">
                 <input
@@ -653,7 +690,12 @@ defmodule VibanWeb.BoardLive do
 
   defp create_pr_modal(assigns) do
     ~H"""
-    <div class="fixed inset-0 z-50 overflow-y-auto">
+    <div
+      id="create-pr-modal"
+      phx-hook="ShortcutContext"
+      data-shortcut-context="modal"
+      class="fixed inset-0 z-50 overflow-y-auto"
+    >
       <div class="flex min-h-full items-center justify-center p-4">
         <div phx-click="hide_create_pr_modal" class="fixed inset-0 bg-black/60 transition-opacity">
         </div>
@@ -764,7 +806,12 @@ defmodule VibanWeb.BoardLive do
 
   defp settings_panel(assigns) do
     ~H"""
-    <div class="fixed inset-0 z-50 flex justify-end">
+    <div
+      id="settings-panel"
+      phx-hook="ShortcutContext"
+      data-shortcut-context="modal"
+      class="fixed inset-0 z-50 flex justify-end"
+    >
       <div phx-click="close_settings" class="fixed inset-0 bg-black/50 backdrop-blur-sm"></div>
       <div class="relative bg-gray-900 border-l border-gray-800 w-full max-w-2xl h-full shadow-2xl flex flex-col animate-in slide-in-from-right duration-200">
         <div class="flex-shrink-0 bg-gray-900 border-b border-gray-800 px-6 py-4 flex items-center justify-between">
@@ -813,6 +860,20 @@ defmodule VibanWeb.BoardLive do
           >
             Columns
           </button>
+          <button
+            phx-click="set_settings_tab"
+            phx-value-tab="sounds"
+            class={"px-3 py-2 text-sm font-medium border-b-2 transition-colors #{if @active_tab == "sounds", do: "border-brand-500 text-brand-400", else: "border-transparent text-gray-400 hover:text-white"}"}
+          >
+            Sounds
+          </button>
+          <button
+            phx-click="set_settings_tab"
+            phx-value-tab="notifications"
+            class={"px-3 py-2 text-sm font-medium border-b-2 transition-colors #{if @active_tab == "notifications", do: "border-brand-500 text-brand-400", else: "border-transparent text-gray-400 hover:text-white"}"}
+          >
+            Notifications
+          </button>
         </div>
 
         <div class="flex-1 overflow-y-auto px-6 py-4">
@@ -835,11 +896,23 @@ defmodule VibanWeb.BoardLive do
                   hook_form={@hook_form}
                 />
               <% else %>
-                <.settings_columns_tab
-                columns={@columns}
-                is_creating_column={@is_creating_column}
-                column_form={@column_form}
-              />
+                <%= if @active_tab == "sounds" do %>
+                  <.vue id="sound-settings" component="SoundSettings" props={%{boardId: @board.id}} />
+                <% else %>
+                  <%= if @active_tab == "notifications" do %>
+                    <.vue
+                      id="notification-settings"
+                      component="NotificationSettings"
+                      props={%{boardId: @board.id}}
+                    />
+                  <% else %>
+                    <.settings_columns_tab
+                      columns={@columns}
+                      is_creating_column={@is_creating_column}
+                      column_form={@column_form}
+                    />
+                  <% end %>
+                <% end %>
               <% end %>
             <% end %>
           <% end %>
@@ -927,6 +1000,10 @@ defmodule VibanWeb.BoardLive do
         </div>
       <% end %>
 
+      <div class="pt-6 border-t border-gray-800">
+        <.vue id="tab-sync-settings" component="TabSyncSettings" />
+      </div>
+
       <div class="pt-6 border-t border-gray-800">
         <h3 class="text-sm font-medium text-gray-400 mb-3">Danger Zone</h3>
         <button
@@ -1513,7 +1590,12 @@ defmodule VibanWeb.BoardLive do
 
   defp column_settings_panel(assigns) do
     ~H"""
-    <div class="fixed inset-0 z-50 flex justify-end">
+    <div
+      id="column-settings-panel"
+      phx-hook="ShortcutContext"
+      data-shortcut-context="modal"
+      class="fixed inset-0 z-50 flex justify-end"
+    >
       <div phx-click="close_column_settings" class="fixed inset-0 bg-black/50 backdrop-blur-sm"></div>
       <div class="relative w-[28rem] bg-gray-900 border-l border-gray-800 shadow-xl h-full overflow-hidden flex flex-col animate-in slide-in-from-right duration-200">
         <div class="flex items-center justify-between p-4 border-b border-gray-800">
@@ -1832,51 +1914,89 @@ defmodule VibanWeb.BoardLive do
 
   # Event handlers
 
+  @impl true
+  def handle_event("vue:resync", %{"id" => id}, socket) do
+    LiveVue.resync(socket, id)
+  end
+
   @impl true
   def handle_event("move_task", params, socket) do
     task_id = params["taskId"]
     column_id = params["columnId"]
     prev_task_id = params["prevTaskId"]
     next_task_id = params["nextTaskId"]
+    move_id = params["moveId"]
 
-    Logger.info("[BoardLive] move_task: task=#{task_id} to column=#{column_id}")
+    Logger.info("[BoardLive] move_task: task=#{task_id} to column=#{column_id} move=#{move_id}")
 
     case Task.get(task_id) do
       {:ok, task} ->
-        move_params = %{
-          column_id: column_id,
-          before_task_id: normalize_id(prev_task_id),
-          after_task_id: normalize_id(next_task_id)
-        }
+        move_params =
+          put_client_position(
+            %{
+              column_id: column_id,
+              before_task_id: normalize_id(prev_task_id),
+              after_task_id: normalize_id(next_task_id)
+            },
+            params["position"]
+          )
 
         case Task.move(task, move_params) do
-          {:ok, _updated_task} ->
-            {:noreply, socket}
+          {:ok, updated_task} ->
+            reply = %{
+              ok: true,
+              move_id: move_id,
+              task: %{
+                id: updated_task.id,
+                column_id: updated_task.column_id,
+                position: updated_task.position
+              }
+            }
+
+            {:reply, reply, socket}
 
           {:error, error} ->
             Logger.error("[BoardLive] Failed to move task: #{inspect(error)}")
-            {:noreply, put_flash(socket, :error, "Failed to move task")}
+            {:reply, %{ok: false, move_id: move_id, error: move_error_message(error)}, socket}
         end
 
       {:error, _} ->
-        {:noreply, put_flash(socket, :error, "Task not found")}
+        {:reply, %{ok: false, move_id: move_id, error: "Task not found"}, socket}
     end
   end
 
   @impl true
   def handle_event("select_task", %{"taskId" => task_id}, socket) do
-    {:noreply, push_patch(socket, to: ~p"/boards/#{socket.assigns.board.id}/tasks/#{task_id}")}
+    {:noreply, push_patch(socket, to: board_path(socket, task_id))}
   end
 
   @impl true
   def handle_event("close_task_details", _params, socket) do
-    {:noreply, push_patch(socket, to: ~p"/boards/#{socket.assigns.board.id}")}
+    {:noreply, push_patch(socket, to: board_path(socket))}
+  end
+
+  @impl true
+  def handle_event("load_older_activity", _params, socket) do
+    %{selected_task_id: task_id, task_activity: activity} = socket.assigns
+
+    {older, has_more?} =
+      case activity do
+        [oldest | _] -> load_activity_page(task_id, oldest.timestamp)
+        [] -> {[], false}
+      end
+
+    socket =
+      socket
+      |> assign(:task_activity, older ++ activity)
+      |> assign(:task_activity_has_more, has_more?)
+
+    {:reply, %{count: length(older)}, socket}
   end
 
   @impl true
   def handle_event("maybe_send_message", %{"key" => "Enter", "metaKey" => true, "value" => message} = params, socket) do
     task_id = params["task-id"]
-    handle_event("send_message", %{"task_id" => task_id, "message" => message}, socket)
+    handle_event("send_message", %{"taskId" => task_id, "message" => message}, socket)
   end
 
   def handle_event("maybe_send_message", _params, socket) do
@@ -1884,53 +2004,145 @@ defmodule VibanWeb.BoardLive do
   end
 
   @impl true
-  def handle_event("send_message", %{"task_id" => task_id, "message" => message}, socket) do
+  def handle_event("send_message", %{"taskId" => task_id, "message" => message} = params, socket) do
     message = String.trim(message)
+    attachment_ids = params["attachmentIds"] || []
 
-    if message == "" do
+    if message == "" and attachment_ids == [] do
       {:noreply, socket}
     else
       Logger.info("[BoardLive] send_message: task=#{task_id} message=#{String.slice(message, 0, 50)}...")
 
-      case Task.get(task_id) do
-        {:ok, task} ->
-          save_user_message(task_id, message)
-
-          case queue_and_move_task(task, message) do
-            {:ok, updated_task} ->
-              now = DateTime.utc_now()
-
-              activity_item = %{
-                type: :message,
-                id: Ecto.UUID.generate(),
-                content: message,
-                role: :user,
-                status: :pending,
-                metadata: %{},
-                inserted_at: now,
-                timestamp: now
-              }
+      result =
+        case agent_choice(params) do
+          {:ok, agent} -> send_task_message(task_id, message, attachment_ids, agent)
+          error -> error
+        end
 
-              activity = socket.assigns.task_activity ++ [activity_item]
+      case result do
+        {:ok, updated_task, user_message} ->
+          socket =
+            socket
+            |> append_user_message_activity(user_message)
+            |> assign(:selected_task, serialize_task(updated_task))
 
-              socket =
-                socket
-                |> assign(:task_activity, activity)
-                |> assign(:selected_task, serialize_task(updated_task))
+          {:noreply, socket}
 
-              {:noreply, socket}
+        {:error, :not_found} ->
+          {:noreply, put_flash(socket, :error, "Task not found")}
 
-            {:error, reason} ->
-              Logger.error("[BoardLive] Failed to queue message: #{inspect(reason)}")
-              {:noreply, put_flash(socket, :error, "Failed to send message")}
-          end
+        {:error, :attachment_not_found} ->
+          {:noreply, put_flash(socket, :error, "An attachment is no longer available, attach it again")}
 
-        {:error, _} ->
-          {:noreply, put_flash(socket, :error, "Task not found")}
+        {:error, {:invalid_agent, reason}} ->
+          {:noreply, put_flash(socket, :error, reason)}
+
+        {:error, reason} ->
+          Logger.error("[BoardLive] Failed to queue message: #{inspect(reason)}")
+          {:noreply, put_flash(socket, :error, "Failed to send message")}
       end
     end
   end
 
+  @impl true
+  def handle_event("update_queued_message", %{"taskId" => task_id, "messageId" => id, "prompt" => prompt}, socket) do
+    prompt = String.trim(prompt)
+
+    if prompt == "" do
+      {:noreply, socket}
+    else
+      queue_change = &Task.update_queued_message(&1, id, prompt)
+      message_change = &Message.update(&1, %{content: prompt})
+      {:noreply, change_queued_message(socket, task_id, id, queue_change, message_change)}
+    end
+  end
+
+  @impl true
+  def handle_event("cancel_queued_message", %{"taskId" => task_id, "messageId" => id}, socket) do
+    queue_change = &Task.remove_queued_message(&1, id)
+    {:noreply, change_queued_message(socket, task_id, id, queue_change, &Message.destroy/1)}
+  end
+
+  @impl true
+  def handle_event("reorder_message_queue", %{"taskId" => task_id, "messageIds" => ids}, socket) do
+    queue_change = &Task.reorder_message_queue(&1, ids)
+    {:noreply, change_queued_message(socket, task_id, nil, queue_change, nil)}
+  end
+
+  @impl true
+  def handle_event("stop_execution", %{"taskId" => task_id}, socket) do
+    Logger.info("[BoardLive] stop_execution: task=#{task_id}")
+
+    # Queued messages stay queued; they run the next time the task enters In Progress
+    TaskServer.stop_execution(task_id)
+    Runner.stop_by_task(task_id, :user_cancelled)
+
+    {:noreply, socket}
+  end
+
+  @impl true
+  def handle_event("update_task_settings", %{"taskId" => task_id} = params, socket) do
+    settings = %{
+      auto_start: params["autoStart"] == true,
+      custom_branch_name: blank_to_nil(params["customBranchName"]),
+      executor_type: settings_executor(params["executor"]),
+      skipped_hooks: params["skippedHooks"] || []
+    }
+
+    with {:ok, task} <- Task.get(task_id),
+         {:ok, updated_task} <- Task.update_settings(task, settings) do
+      {:noreply, maybe_assign_selected_task(socket, updated_task)}
+    else
+      {:error, _} -> {:noreply, put_flash(socket, :error, "Failed to save task settings")}
+    end
+  end
+
+  @impl true
+  def handle_event("create_subtask", %{"taskId" => task_id, "title" => title}, socket) do
+    case String.trim(title) do
+      "" ->
+        {:noreply, socket}
+
+      title ->
+        case Task.create_subtask(task_id, %{title: title}) do
+          {:ok, _subtask} -> {:noreply, socket}
+          {:error, _} -> {:noreply, put_flash(socket, :error, "Failed to add subtask")}
+        end
+    end
+  end
+
+  @impl true
+  def handle_event("reorder_subtasks", %{"taskId" => task_id, "subtaskIds" => ids}, socket) do
+    case Task.reorder_subtasks(task_id, ids) do
+      {:ok, _} -> {:noreply, socket}
+      {:error, _} -> {:noreply, put_flash(socket, :error, "Failed to reorder subtasks")}
+    end
+  end
+
+  @impl true
+  def handle_event("generate_subtasks", %{"taskId" => task_id}, socket) do
+    case Task.generate_subtasks(task_id) do
+      {:ok, _} ->
+        {:noreply, socket}
+
+      {:error, reason} ->
+        Logger.warning("[BoardLive] Failed to queue subtask generation: #{inspect(reason)}")
+        {:noreply, put_flash(socket, :error, "Failed to generate subtasks")}
+    end
+  end
+
+  @impl true
+  def handle_event("select_variant", %{"taskId" => task_id}, socket) do
+    case Task.select_variant(task_id) do
+      {:ok, %{archived: archived}} ->
+        {:noreply, put_flash(socket, :info, "Winner selected, #{length(archived)} other variant(s) archived")}
+
+      {:error, reason} ->
+        Logger.warning("[BoardLive] Failed to select variant: #{inspect(reason)}")
+        {:noreply, put_flash(socket, :error, "Failed to select the winner")}
+    end
+  end
+
   @impl true
   def handle_event("toggle_fullscreen", _params, socket) do
     {:noreply, assign(socket, :task_panel_fullscreen, !socket.assigns.task_panel_fullscreen)}
@@ -1966,23 +2178,49 @@ defmodule VibanWeb.BoardLive do
   end
 
   @impl true
-  def handle_event("create_worktree", %{"task_id" => task_id}, socket) do
-    alias Viban.Kanban.Task.WorktreeManager
+  def handle_event("create_worktree", %{"taskId" => task_id}, socket) do
+    case create_task_worktree(task_id) do
+      {:ok, _updated} ->
+        {:noreply, put_flash(socket, :info, "Worktree created successfully")}
 
-    with {:ok, task} <- Task.get(task_id),
-         {:ok, column} <- Column.get(task.column_id),
-         {:ok, worktree_path, branch_name} <-
-           WorktreeManager.create_worktree(column.board_id, task_id, task.custom_branch_name),
-         {:ok, _updated} <-
-           Task.assign_worktree(task, %{worktree_path: worktree_path, worktree_branch: branch_name}) do
-      {:noreply, put_flash(socket, :info, "Worktree created successfully")}
-    else
       {:error, reason} ->
         Logger.warning("[BoardLive] Failed to create worktree: #{inspect(reason)}")
         {:noreply, put_flash(socket, :error, "Failed to create worktree: #{inspect(reason)}")}
     end
   end
 
+  # Git can take a while on a large worktree, so the diffs are read off the LiveView process
+  @impl true
+  def handle_event("load_task_diff", %{"taskId" => task_id}, socket) do
+    board_id = socket.assigns.board.id
+
+    LiveVue.reply_async(socket, fn ->
+      with {:ok, task} <- Task.get(task_id),
+           {:ok, base_ref} <- WorktreeDiff.base_ref(board_id),
+           {:ok, diff} <- WorktreeDiff.details(task.worktree_path, base_ref) do
+        %{ok: true, diff: diff}
+      else
+        error -> %{ok: false, error: diff_error_message(error)}
+      end
+    end)
+  end
+
+  @impl true
+  def handle_event("load_task_file_diff", %{"taskId" => task_id, "section" => section, "path" => path}, socket) do
+    board_id = socket.assigns.board.id
+
+    LiveVue.reply_async(socket, fn ->
+      with {:ok, section} <- diff_section(section),
+           {:ok, task} <- Task.get(task_id),
+           {:ok, base_ref} <- WorktreeDiff.base_ref(board_id),
+           {:ok, patch} <- WorktreeDiff.file_patch(task.worktree_path, base_ref, section, path) do
+        %{ok: true, patch: patch}
+      else
+        error -> %{ok: false, error: diff_error_message(error)}
+      end
+    end)
+  end
+
   @impl true
   def handle_event("show_create_task_modal", %{"columnId" => column_id}, socket) do
     board_id = socket.assigns.board.id
@@ -2003,7 +2241,8 @@ defmodule VibanWeb.BoardLive do
         branch_name: "",
         base_branch: repository && repository.default_branch,
         is_refining: false,
-        auto_start: false
+        auto_start: false,
+        variants: 1
       })
 
     {:noreply, socket}
@@ -2032,6 +2271,12 @@ defmodule VibanWeb.BoardLive do
         form
       end
 
+    form =
+      case Integer.parse(params["variants"] || "") do
+        {count, ""} -> %{form | variants: count}
+        _ -> form
+      end
+
     {:noreply, assign(socket, :create_task_form, form)}
   end
 
@@ -2090,8 +2335,16 @@ defmodule VibanWeb.BoardLive do
       auto_start: form.auto_start
     }
 
-    case Task.create(attrs) do
-      {:ok, _task} ->
+    # Variants each get their own branch, named after the task id
+    result =
+      if form.variants > 1 do
+        Task.create_variants(column_id, form.variants, Map.drop(attrs, [:column_id, :custom_branch_name]))
+      else
+        Task.create(attrs)
+      end
+
+    case result do
+      {:ok, _task_or_variants} ->
         socket =
           socket
           |> assign(:show_create_task_modal, false)
@@ -2119,6 +2372,28 @@ defmodule VibanWeb.BoardLive do
     end
   end
 
+  # Saves a title or description edited in the task panel. `base` is the value the edit started
+  # from; when the task no longer has it (e.g. an AI refine ran meanwhile) nothing is saved and the
+  # reply carries the current value, so the user can decide which one to keep.
+  @impl true
+  def handle_event("update_task", %{"taskId" => task_id, "field" => field, "value" => value} = params, socket)
+      when field in ["title", "description"] do
+    field = String.to_existing_atom(field)
+
+    with {:ok, task} <- Task.get(task_id),
+         :ok <- check_unchanged(Map.get(task, field), params["base"]),
+         {:ok, updated_task} <- Task.update(task, %{field => value}) do
+      {:reply, %{ok: true}, maybe_assign_selected_task(socket, updated_task)}
+    else
+      {:conflict, current} ->
+        {:reply, %{ok: false, error: "conflict", current: current}, socket}
+
+      {:error, error} ->
+        Logger.warning("[BoardLive] Failed to update #{field} of task #{task_id}: #{inspect(error)}")
+        {:reply, %{ok: false, error: "Failed to update task"}, socket}
+    end
+  end
+
   @impl true
   def handle_event("update_task_description", %{"task-id" => task_id, "value" => description}, socket) do
     case Task.get(task_id) do
@@ -2134,7 +2409,7 @@ defmodule VibanWeb.BoardLive do
   end
 
   @impl true
-  def handle_event("delete_task", %{"task-id" => task_id}, socket) do
+  def handle_event("delete_task", %{"taskId" => task_id}, socket) do
     case Task.get(task_id) do
       {:ok, task} ->
         case Task.destroy(task) do
@@ -2143,7 +2418,7 @@ defmodule VibanWeb.BoardLive do
               socket
               |> assign(:selected_task_id, nil)
               |> assign(:selected_task, nil)
-              |> push_patch(to: ~p"/boards/#{socket.assigns.board.id}")
+              |> push_patch(to: board_path(socket))
 
             {:noreply, socket}
 
@@ -2156,6 +2431,99 @@ defmodule VibanWeb.BoardLive do
     end
   end
 
+  @impl true
+  def handle_event("bulk_move_tasks", %{"taskIds" => task_ids, "columnId" => column_id} = params, socket) do
+    next_task_id = normalize_id(params["nextTaskId"])
+
+    Logger.info("[BoardLive] bulk_move_tasks: #{length(task_ids)} tasks to column=#{column_id}")
+
+    # Each task is placed right after the previously moved one, so the group
+    # keeps its relative order inside the drop slot.
+    {_last_id, moved, errors} =
+      Enum.reduce(task_ids, {normalize_id(params["prevTaskId"]), [], []}, fn task_id, {before_id, moved, errors} ->
+        move_params = %{column_id: column_id, before_task_id: before_id, after_task_id: next_task_id}
+
+        with {:ok, task} <- Task.get(task_id),
+             {:ok, updated_task} <- Task.move(task, move_params) do
+          moved_task = %{id: updated_task.id, column_id: updated_task.column_id, position: updated_task.position}
+          {updated_task.id, [moved_task | moved], errors}
+        else
+          {:error, error} ->
+            Logger.error("[BoardLive] Failed to move task #{task_id}: #{inspect(error)}")
+            {before_id, moved, [%{id: task_id, error: move_error_message(error)} | errors]}
+        end
+      end)
+
+    {:reply, %{ok: errors == [], tasks: Enum.reverse(moved), errors: Enum.reverse(errors)}, socket}
+  end
+
+  @impl true
+  def handle_event("bulk_delete_tasks", %{"taskIds" => task_ids}, socket) do
+    results =
+      Enum.map(task_ids, fn task_id ->
+        with {:ok, task} <- Task.get(task_id), :ok <- Task.destroy(task) do
+          {:ok, task_id}
+        end
+      end)
+
+    deleted_ids = for {:ok, task_id} <- results, do: task_id
+
+    socket =
+      if socket.assigns.selected_task_id in deleted_ids do
+        socket
+        |> assign(:selected_task_id, nil)
+        |> assign(:selected_task, nil)
+        |> push_patch(to: board_path(socket))
+      else
+        socket
+      end
+
+    {:noreply, put_bulk_result_flash(socket, "Deleted", length(deleted_ids), length(task_ids))}
+  end
+
+  @impl true
+  def handle_event("bulk_create_worktrees", %{"taskIds" => task_ids}, socket) do
+    results =
+      task_ids
+      |> Enum.map(&Task.get/1)
+      |> Enum.flat_map(fn
+        {:ok, %{worktree_path: nil} = task} -> [create_task_worktree(task.id)]
+        {:ok, _task_with_worktree} -> []
+        {:error, error} -> [{:error, error}]
+      end)
+
+    created = Enum.count(results, &match?({:ok, _}, &1))
+
+    {:noreply, put_bulk_result_flash(socket, "Created worktrees for", created, length(results))}
+  end
+
+  @impl true
+  def handle_event("bulk_send_message", %{"taskIds" => task_ids, "message" => message}, socket) do
+    message = String.trim(message)
+
+    if message == "" do
+      {:noreply, socket}
+    else
+      Logger.info("[BoardLive] bulk_send_message: #{length(task_ids)} tasks message=#{String.slice(message, 0, 50)}...")
+
+      results = Enum.map(task_ids, fn task_id -> {task_id, send_task_message(task_id, message, [], nil)} end)
+      sent = Enum.count(results, &match?({_, {:ok, _, _}}, &1))
+
+      socket =
+        case List.keyfind(results, socket.assigns.selected_task_id, 0) do
+          {_task_id, {:ok, updated_task, user_message}} ->
+            socket
+            |> append_user_message_activity(user_message)
+            |> assign(:selected_task, serialize_task(updated_task))
+
+          _ ->
+            socket
+        end
+
+      {:noreply, put_bulk_result_flash(socket, "Sent prompt to", sent, length(task_ids))}
+    end
+  end
+
   @impl true
   def handle_event("open_settings", _params, socket) do
     board_id = socket.assigns.board.id
@@ -2238,23 +2606,10 @@ defmodule VibanWeb.BoardLive do
     {:noreply, assign(socket, :show_settings, false)}
   end
 
-  @impl true
-  def handle_event("show_keyboard_shortcuts", _params, socket) do
-    {:noreply, assign(socket, :show_keyboard_shortcuts, true)}
-  end
-
-  @impl true
-  def handle_event("close_keyboard_shortcuts", _params, socket) do
-    {:noreply, assign(socket, :show_keyboard_shortcuts, false)}
-  end
-
   @impl true
   def handle_event("keyboard_escape", _params, socket) do
     socket =
       cond do
-        socket.assigns.show_keyboard_shortcuts ->
-          assign(socket, :show_keyboard_shortcuts, false)
-
         socket.assigns.show_create_pr_modal ->
           socket
           |> assign(:show_create_pr_modal, false)
@@ -2310,7 +2665,8 @@ defmodule VibanWeb.BoardLive do
           branch_name: "",
           base_branch: repository && repository.default_branch,
           is_refining: false,
-          auto_start: false
+          auto_start: false,
+          variants: 1
         })
 
       {:noreply, socket}
@@ -2321,12 +2677,14 @@ defmodule VibanWeb.BoardLive do
 
   @impl true
   def handle_event("update_search", %{"value" => query}, socket) do
-    {:noreply, assign(socket, :search_query, query)}
+    socket = assign(socket, :search_query, query)
+    {:noreply, push_patch(socket, to: board_path(socket, socket.assigns.selected_task_id), replace: true)}
   end
 
   @impl true
   def handle_event("clear_search", _params, socket) do
-    {:noreply, assign(socket, :search_query, "")}
+    socket = assign(socket, :search_query, "")
+    {:noreply, push_patch(socket, to: board_path(socket, socket.assigns.selected_task_id), replace: true)}
   end
 
   @impl true
@@ -2379,7 +2737,7 @@ defmodule VibanWeb.BoardLive do
   end
 
   @impl true
-  def handle_event("duplicate_task", %{"task-id" => task_id}, socket) do
+  def handle_event("duplicate_task", %{"taskId" => task_id}, socket) do
     case Task.get(task_id) do
       {:ok, task} ->
         duplicate_params = %{
@@ -2390,7 +2748,7 @@ defmodule VibanWeb.BoardLive do
 
         case Task.create(duplicate_params) do
           {:ok, new_task} ->
-            {:noreply, push_patch(socket, to: ~p"/boards/#{socket.assigns.board.id}/tasks/#{new_task.id}")}
+            {:noreply, push_patch(socket, to: board_path(socket, new_task.id))}
 
           {:error, _error} ->
             {:noreply, put_flash(socket, :error, "Failed to duplicate task")}
@@ -2402,7 +2760,7 @@ defmodule VibanWeb.BoardLive do
   end
 
   @impl true
-  def handle_event("open_in_editor", %{"task-id" => task_id}, socket) do
+  def handle_event("open_in_editor", %{"taskId" => task_id}, socket) do
     case Task.get(task_id) do
       {:ok, task} when not is_nil(task.worktree_path) ->
         System.cmd("code", [task.worktree_path], stderr_to_stdout: true)
@@ -2414,7 +2772,7 @@ defmodule VibanWeb.BoardLive do
   end
 
   @impl true
-  def handle_event("open_folder", %{"task-id" => task_id}, socket) do
+  def handle_event("open_folder", %{"taskId" => task_id}, socket) do
     case Task.get(task_id) do
       {:ok, task} when not is_nil(task.worktree_path) ->
         System.cmd("open", [task.worktree_path], stderr_to_stdout: true)
@@ -2549,7 +2907,7 @@ defmodule VibanWeb.BoardLive do
 
   @impl true
   def handle_event("preview_sound", %{"sound" => sound}, socket) do
-    {:noreply, push_event(socket, "hook_executed", %{effects: %{play_sound: %{sound: sound}}})}
+    {:noreply, push_event(socket, "hook_executed", %{effects: %{play_sound: %{sound: sound, preview: true}}})}
   end
 
   @impl true
@@ -2936,7 +3294,7 @@ defmodule VibanWeb.BoardLive do
   end
 
   @impl true
-  def handle_event("show_create_pr_modal", %{"task-id" => _task_id}, socket) do
+  def handle_event("show_create_pr_modal", %{"taskId" => _task_id}, socket) do
     task = socket.assigns.selected_task
     pr_title = (task && task.title) || ""
 
@@ -2989,12 +3347,20 @@ defmodule VibanWeb.BoardLive do
     end
   end
 
+  # Replies computed off the LiveView process, see LiveVue.reply_async/2
+
+  @impl true
+  def handle_async({:vue_reply, _ref} = name, result, socket) do
+    LiveVue.push_async_reply(name, result, socket)
+  end
+
   # Handle PubSub messages for real-time updates
 
   @impl true
   def handle_info({:task_changed, %{task: task, action: action}}, socket) do
     Logger.debug("[BoardLive] task_changed: action=#{action} task=#{task.id}")
 
+    previous = find_task(socket.assigns.columns, task.id)
     columns = reload_columns(socket.assigns.board.id)
 
     socket =
@@ -3002,6 +3368,7 @@ defmodule VibanWeb.BoardLive do
       |> assign(:columns, columns)
       |> maybe_update_selected_task(task, action)
       |> push_event("hook_executed", %{})
+      |> push_board_events(task_board_events(previous, task, columns), task.id)
 
     {:noreply, socket}
   end
@@ -3046,9 +3413,26 @@ defmodule VibanWeb.BoardLive do
     {:noreply, push_event(socket, "hook_executed", payload)}
   end
 
+  @impl true
+  def handle_info({:diff_stats, stats}, socket) do
+    {:noreply, assign(socket, :diff_stats, stats)}
+  end
+
   @impl true
   def handle_info({:hook_effect, payload}, socket) do
-    {:noreply, push_event(socket, "hook_effect", payload)}
+    {:noreply, push_event(socket, "hook_executed", payload)}
+  end
+
+  # The Play Sound hook has its own sound
+  @impl true
+  def handle_info({:hook_finished, %{hook_id: "system:play-sound", status: :completed}}, socket) do
+    {:noreply, socket}
+  end
+
+  @impl true
+  def handle_info({:hook_finished, payload}, socket) do
+    event = if payload.status == :completed, do: "hook_completed", else: "hook_failed"
+    {:noreply, push_board_events(socket, [event], payload.task_id)}
   end
 
   @impl true
@@ -3143,24 +3527,29 @@ defmodule VibanWeb.BoardLive do
     |> String.slice(0, 50)
   end
 
-  defp save_user_message(task_id, user_prompt) do
+  # Returns `user_message` with the id it was saved under, or a fresh one when saving failed
+  defp save_user_message(task_id, %{content: content, metadata: metadata} = user_message) do
     case Message.create(%{
            task_id: task_id,
            role: :user,
-           content: user_prompt,
+           content: content,
            status: :pending,
-           metadata: %{executor_type: :claude_code}
+           metadata: metadata
          }) do
-      {:ok, _message} ->
+      {:ok, message} ->
         Logger.info("[BoardLive] Saved user message for task #{task_id}")
+        Map.put(user_message, :id, message.id)
 
       {:error, error} ->
         Logger.warning("[BoardLive] Failed to save message: #{inspect(error)}")
+        Map.put(user_message, :id, Ecto.UUID.generate())
     end
   end
 
-  defp queue_and_move_task(task, user_prompt) do
-    case Task.queue_message(task, user_prompt, :claude_code, []) do
+  defp queue_and_move_task(task, user_message, images, agent) do
+    params = %{model: agent.model, mode: agent.mode, message_id: user_message.id}
+
+    case Task.queue_message(task, user_message.content, agent.executor_type, images, params) do
       {:ok, updated_task} ->
         Logger.info("[BoardLive] Queued message for task #{task.id}, queue size: #{length(updated_task.message_queue)}")
 
@@ -3171,6 +3560,197 @@ defmodule VibanWeb.BoardLive do
     end
   end
 
+  defp send_task_message(task_id, message, attachment_ids, agent) do
+    case Task.get(task_id) do
+      {:ok, task} -> send_to_task(task, message, attachment_ids, agent)
+      {:error, _} -> {:error, :not_found}
+    end
+  end
+
+  # A nil `agent` runs the message on the executor picked in the task's settings
+  defp send_to_task(task, message, attachment_ids, agent) do
+    agent = agent || task_agent(task)
+
+    case ImageManager.get_attachments(task.id, attachment_ids) do
+      {:ok, attachments} ->
+        user_message = save_user_message(task.id, user_message(message, attachments, agent))
+
+        # Queued by id only; ExecuteAIHook looks up their files when it runs the message
+        queued = Enum.map(attachments, &%{"attachment_id" => &1["id"]})
+
+        case queue_and_move_task(task, user_message, queued, agent) do
+          {:ok, updated_task} -> {:ok, updated_task, user_message}
+          error -> error
+        end
+
+      {:error, :not_found} ->
+        {:error, :attachment_not_found}
+    end
+  end
+
+  # Attachments are shown in the activity feed from the message metadata, without their local path
+  defp user_message(message, attachments, agent) do
+    %{
+      content: if(message == "", do: attachment_summary(attachments), else: message),
+      metadata: %{
+        executor_type: agent.executor_type,
+        model: agent.model,
+        mode: agent.mode,
+        attachments: Enum.map(attachments, &Map.delete(&1, "path"))
+      }
+    }
+  end
+
+  # Applies `queue_change` to the task's message queue, then `message_change` to the user message
+  # that queue entry `id` shows as in the activity feed
+  defp change_queued_message(socket, task_id, id, queue_change, message_change) do
+    with {:ok, task} <- Task.get(task_id),
+         {:ok, updated_task} <- queue_change.(task) do
+      entry = Enum.find(task.message_queue || [], &(&1.id == id))
+
+      socket
+      |> maybe_assign_selected_task(updated_task)
+      |> change_user_message(entry && entry.message_id, message_change)
+    else
+      {:error, error} ->
+        Logger.warning("[BoardLive] Failed to change message queue of #{task_id}: #{inspect(error)}")
+        put_flash(socket, :error, "The message is no longer queued")
+    end
+  end
+
+  defp change_user_message(socket, nil, _message_change), do: socket
+
+  defp change_user_message(socket, message_id, message_change) do
+    case Message.get(message_id) do
+      {:ok, message} -> apply_user_message_change(socket, message_id, message_change.(message))
+      {:error, _} -> socket
+    end
+  end
+
+  defp apply_user_message_change(socket, message_id, {:ok, message}) do
+    update(socket, :task_activity, fn activity ->
+      Enum.map(activity, fn item -> if item.id == message_id, do: %{item | content: message.content}, else: item end)
+    end)
+  end
+
+  defp apply_user_message_change(socket, message_id, :ok) do
+    update(socket, :task_activity, fn activity -> Enum.reject(activity, &(&1.id == message_id)) end)
+  end
+
+  defp apply_user_message_change(socket, _message_id, {:error, error}) do
+    Logger.warning("[BoardLive] Failed to change queued user message: #{inspect(error)}")
+    socket
+  end
+
+  # Fields the panel edits are compared as text; an empty description is stored as nil
+  defp check_unchanged(current, base) do
+    if (current || "") == (base || ""), do: :ok, else: {:conflict, current || ""}
+  end
+
+  defp maybe_assign_selected_task(socket, task) do
+    if socket.assigns.selected_task_id == task.id do
+      assign(socket, :selected_task, serialize_task(task))
+    else
+      socket
+    end
+  end
+
+  # The executor, model and mode picked in the composer, or nil for the task's own executor; an executor that isn't
+  # installed is refused here rather than failing once the message reaches the front of the queue
+  defp agent_choice(%{"executor" => executor} = params) when is_binary(executor) do
+    model = if params["model"] in [nil, ""], do: nil, else: params["model"]
+    mode = if params["mode"] == "plan", do: :plan, else: :execute
+
+    case Enum.find(ExecutorRegistry.all(), &(to_string(&1.type()) == executor)) do
+      nil ->
+        {:error, {:invalid_agent, "Unknown executor #{executor}"}}
+
+      module ->
+        validate_agent(module, %{executor_type: module.type(), model: model, mode: mode})
+    end
+  end
+
+  defp agent_choice(_params), do: {:ok, nil}
+
+  defp task_agent(task), do: %{@default_agent | executor_type: task.executor_type || @default_agent.executor_type}
+
+  defp validate_agent(module, agent) do
+    if module.available?() do
+      case ExecutorRegistry.validate_agent_opts(agent.executor_type, model: agent.model, mode: agent.mode) do
+        :ok -> {:ok, agent}
+        {:error, reason} -> {:error, {:invalid_agent, reason}}
+      end
+    else
+      {:error, {:invalid_agent, "#{module.name()} is not installed"}}
+    end
+  end
+
+  defp settings_executor(executor) when is_binary(executor) do
+    Enum.find_value(ExecutorRegistry.all(), fn module ->
+      if to_string(module.type()) == executor, do: module.type()
+    end)
+  end
+
+  defp settings_executor(_executor), do: nil
+
+  defp blank_to_nil(value) when is_binary(value) do
+    case String.trim(value) do
+      "" -> nil
+      value -> value
+    end
+  end
+
+  defp blank_to_nil(_value), do: nil
+
+  defp load_executors do
+    case SystemTools.list_executors() do
+      {:ok, executors} -> executors
+      {:error, _} -> []
+    end
+  end
+
+  defp attachment_summary([_attachment]), do: "[1 file attached]"
+  defp attachment_summary(attachments), do: "[#{length(attachments)} files attached]"
+
+  defp append_user_message_activity(socket, %{id: id, content: content, metadata: metadata}) do
+    now = DateTime.utc_now()
+
+    activity_item = %{
+      type: :message,
+      id: id,
+      content: content,
+      role: :user,
+      status: :pending,
+      metadata: metadata,
+      inserted_at: now,
+      timestamp: now
+    }
+
+    update(socket, :task_activity, fn activity -> activity ++ [activity_item] end)
+  end
+
+  defp create_task_worktree(task_id) do
+    alias Viban.Kanban.Task.WorktreeManager
+
+    with {:ok, task} <- Task.get(task_id),
+         {:ok, column} <- Column.get(task.column_id),
+         {:ok, worktree_path, branch_name} <-
+           WorktreeManager.create_worktree(column.board_id, task_id, task.custom_branch_name) do
+      Task.assign_worktree(task, %{worktree_path: worktree_path, worktree_branch: branch_name})
+    end
+  end
+
+  defp put_bulk_result_flash(socket, action, succeeded, total) when succeeded == total do
+    put_flash(socket, :info, "#{action} #{succeeded} #{pluralize_tasks(succeeded)}")
+  end
+
+  defp put_bulk_result_flash(socket, action, succeeded, total) do
+    put_flash(socket, :error, "#{action} #{succeeded} of #{total} #{pluralize_tasks(total)}")
+  end
+
+  defp pluralize_tasks(1), do: "task"
+  defp pluralize_tasks(_count), do: "tasks"
+
   defp maybe_move_to_in_progress(task) do
     alias Viban.Kanban.Actors.ColumnLookup
 
@@ -3207,6 +3787,14 @@ defmodule VibanWeb.BoardLive do
     end
   end
 
+  defp load_user_boards(nil), do: []
+
+  defp load_user_boards(user_id) do
+    user_id
+    |> Board.for_user!()
+    |> Enum.map(&serialize_board/1)
+  end
+
   defp load_columns_with_tasks(board_id) do
     board_id
     |> Column.for_board!()
@@ -3288,39 +3876,42 @@ defmodule VibanWeb.BoardLive do
     end
   end
 
-  defp load_task_activity(nil), do: {[], []}
-
-  defp load_task_activity(task_id) do
-    hook_executions =
-      case HookExecution.history_for_task(task_id) do
-        {:ok, execs} -> Enum.map(execs, &serialize_hook_execution/1)
-        _ -> []
-      end
+  # The newest page of the task's activity from before `before` (nil for the latest page),
+  # oldest first, and whether there is more before it
+  defp load_activity_page(nil, _before), do: {[], false}
 
-    messages =
-      case Message.for_task(task_id) do
-        {:ok, msgs} -> Enum.map(msgs, &serialize_message/1)
-        _ -> []
-      end
+  defp load_activity_page(task_id, before) do
+    # One more than a page, so a full page tells there is more
+    limit = @activity_page_size + 1
 
-    executor_messages =
-      case ExecutorMessage.for_task(task_id) do
-        {:ok, msgs} -> Enum.map(msgs, &serialize_executor_message/1)
-        _ -> []
-      end
+    sources = [
+      {HookExecution.page_for_task(task_id, before, limit), &serialize_hook_execution/1},
+      {Message.page_for_task(task_id, before, limit), &serialize_message/1},
+      {ExecutorMessage.page_for_task(task_id, before, limit), &serialize_executor_message/1}
+    ]
 
-    sessions =
-      case ExecutorSession.for_task(task_id) do
-        {:ok, sess} -> Enum.map(sess, &serialize_executor_session/1)
-        _ -> []
-      end
+    rows = Enum.map(sources, fn {result, serialize} -> page_rows(result, serialize) end)
 
     activity =
-      (hook_executions ++ messages ++ executor_messages)
+      rows
+      |> Enum.concat()
       |> Enum.reject(fn item -> is_nil(item.timestamp) or empty_message?(item) end)
       |> Enum.sort_by(& &1.timestamp, {:asc, DateTime})
 
-    {activity, sessions}
+    has_more? = length(activity) > @activity_page_size or Enum.any?(rows, &(length(&1) == limit))
+    {Enum.take(activity, -@activity_page_size), has_more?}
+  end
+
+  defp page_rows({:ok, records}, serialize), do: Enum.map(records, serialize)
+  defp page_rows(_error, _serialize), do: []
+
+  defp load_task_sessions(nil), do: []
+
+  defp load_task_sessions(task_id) do
+    case ExecutorSession.for_task(task_id) do
+      {:ok, sess} -> Enum.map(sess, &serialize_executor_session/1)
+      _ -> []
+    end
   end
 
   defp empty_message?(%{type: type, content: nil}) when type in [:message, :executor_message], do: true
@@ -3332,6 +3923,7 @@ defmodule VibanWeb.BoardLive do
 
   defp empty_message?(_), do: false
 
+  # Activity items are typed for Vue by VibanWeb.DomainTypes; keep the two in sync
   defp serialize_hook_execution(exec) do
     duration_ms = calculate_duration_ms(exec.started_at, exec.completed_at)
 
@@ -3385,22 +3977,6 @@ defmodule VibanWeb.BoardLive do
     }
   end
 
-  defp serialize_task_for_vue(task) do
-    %{
-      id: task.id,
-      title: task.title,
-      description: task.description,
-      agent_status: task.agent_status,
-      agent_status_message: task.agent_status_message,
-      worktree_path: task.worktree_path,
-      worktree_branch: task.worktree_branch,
-      pr_url: task.pr_url,
-      pr_number: task.pr_number,
-      pr_status: task.pr_status,
-      inserted_at: task.inserted_at
-    }
-  end
-
   defp serialize_executor_session(sess) do
     %{
       id: sess.id,
@@ -3432,11 +4008,64 @@ defmodule VibanWeb.BoardLive do
     end
   end
 
+  defp find_task(columns, task_id) do
+    Enum.find_value(columns, fn column -> Enum.find(column.tasks, &(&1.id == task_id)) end)
+  end
+
+  # Board events the browser plays sounds and shows notifications for, see
+  # assets/js/lib/sounds.ts and assets/js/lib/notifications.ts
+  defp push_board_events(socket, events, task_id) do
+    task_title = with %{title: title} <- find_task(socket.assigns.columns, task_id), do: title
+
+    Enum.reduce(events, socket, fn event, acc ->
+      push_event(acc, "board_event", %{event: event, task_id: task_id, task_title: task_title})
+    end)
+  end
+
+  # What changed on a task already on the board; `previous` is serialized
+  defp task_board_events(nil, _task, _columns), do: []
+
+  defp task_board_events(previous, task, columns) do
+    column = find_column(columns, task.column_id)
+
+    for {event, true} <- [
+          {"agent_finished", task.agent_status == :idle and previous.agent_status in ["thinking", "executing"]},
+          {"agent_error", task.agent_status == :error and previous.agent_status != "error"},
+          {"moved_to_review", previous.column_id != task.column_id and column != nil and column.name == "To Review"},
+          {"pr_merged", task.pr_status == :merged and previous.pr_status != "merged"}
+        ],
+        do: event
+  end
+
+  defp move_error_message(%{errors: [error | _]}), do: move_error_message(error)
+  defp move_error_message(error) when is_exception(error), do: Exception.message(error)
+  defp move_error_message(_error), do: "Failed to move task"
+
+  defp diff_section(section) do
+    case Enum.find(WorktreeDiff.sections(), &(to_string(&1) == section)) do
+      nil -> {:error, :unknown_section}
+      section -> {:ok, section}
+    end
+  end
+
+  defp diff_error_message({:error, :no_repository}), do: "The board has no repository"
+  defp diff_error_message({:error, :no_worktree}), do: "The task has no worktree"
+  defp diff_error_message({:error, :patch_too_large}), do: "The diff is too large to show"
+  defp diff_error_message({:error, {:git_error, _code, output}}), do: "Unable to calculate diff: #{String.trim(output)}"
+  defp diff_error_message(_error), do: "Unable to calculate diff"
+
   defp normalize_id(nil), do: nil
   defp normalize_id(""), do: nil
   defp normalize_id("null"), do: nil
   defp normalize_id(id) when is_binary(id), do: id
 
+  # The key the client placed a moved task at, kept by CalculatePosition while it still fits
+  defp put_client_position(move_params, position) when is_binary(position) and position != "",
+    do: Map.put(move_params, :position, position)
+
+  defp put_client_position(move_params, _position), do: move_params
+
+  # Typed for Vue by VibanWeb.DomainTypes; keep the two in sync
   defp serialize_board(board) do
     %{
       id: board.id,
@@ -3464,6 +4093,8 @@ defmodule VibanWeb.BoardLive do
       column_id: task.column_id,
       parent_task_id: task.parent_task_id,
       is_parent: task.is_parent,
+      subtask_position: task.subtask_position,
+      subtask_generation_status: task.subtask_generation_status && to_string(task.subtask_generation_status),
       worktree_path: task.worktree_path,
       worktree_branch: task.worktree_branch,
       agent_status: task.agent_status && to_string(task.agent_status),
@@ -3471,7 +4102,28 @@ defmodule VibanWeb.BoardLive do
       pr_url: task.pr_url,
       pr_number: task.pr_number,
       pr_status: task.pr_status && to_string(task.pr_status),
-      inserted_at: task.inserted_at
+      inserted_at: task.inserted_at,
+      auto_start: task.auto_start,
+      custom_branch_name: task.custom_branch_name,
+      executor_type: task.executor_type && to_string(task.executor_type),
+      skipped_hooks: task.skipped_hooks || [],
+      variant_group_id: task.variant_group_id,
+      variant_number: task.variant_number,
+      variant_status: task.variant_status && to_string(task.variant_status),
+      message_queue: Enum.map(task.message_queue || [], &serialize_queued_message/1)
+    }
+  end
+
+  defp serialize_queued_message(entry) do
+    %{
+      id: entry.id,
+      prompt: entry.prompt,
+      executor_type: to_string(entry.executor_type),
+      model: entry.model,
+      mode: to_string(entry.mode || :execute),
+      message_id: entry.message_id,
+      queued_at: entry.queued_at,
+      attachment_count: length(entry.images || [])
     }
   end
 
@@ -3576,6 +4228,22 @@ defmodule VibanWeb.BoardLive do
     system_hooks ++ custom_hooks
   end
 
+  # Every column hook on the board, for the hooks a task's settings can skip
+  defp load_task_panel_hooks(board_id, columns) do
+    available_hooks = load_available_hooks(board_id)
+
+    Enum.flat_map(columns, fn column ->
+      Enum.map(load_column_hooks(column.id), fn column_hook ->
+        %{
+          id: column_hook.id,
+          name: get_hook_name(column_hook.hook_id, available_hooks),
+          column_id: column.id,
+          column_name: column.name
+        }
+      end)
+    end)
+  end
+
   defp load_column_hooks(column_id) do
     column_id
     |> ColumnHook.for_column!()
@@ -0,0 +1,223 @@
+defmodule VibanWeb.LiveVue do
+  @moduledoc """
+  Server-to-Vue props channel for components rendered with `live_props`.
+
+  Instead of re-rendering the whole props JSON into `data-props` on every
+  change, the LiveView keeps the props it last sent to each component and, after
+  every render, pushes only what changed as a `"vue:patch"` event:
+
+      %{id: "kanban-board", ops: [%{op: "replace", path: ["columns", 0, "name"], value: "Done"}]}
+
+  Ops are applied in order by the VueHook to a reactive store, so only the parts
+  of the component that read a changed value re-render. Paths are lists of map
+  keys and list indices. The ops are:
+
+    * `replace` - sets the value at `path` (an empty path replaces all props)
+    * `remove` - deletes the map key at `path`
+    * `order` - rearranges the list at `path`, whose items are maps with an
+      `"id"`, into the order of `ids`; items not in the list yet come from
+      `added`. Changes inside kept items follow as separate ops, addressed by
+      their new index.
+
+  Hooks fetch a full snapshot with the `"vue:resync"` event when they mount,
+  after a reconnect and whenever a patch does not apply.
+
+  ## Slow replies
+
+  An event handler that would keep the LiveView busy, e.g. running git, replies
+  with `reply_async/2` instead. It answers at once with a ref, runs the work off
+  the LiveView process and pushes the reply as a `"vue:reply"` event with that
+  ref, which the hook's `pushEvent` promise resolves with. The LiveView hands
+  the result over in `handle_async/3`:
+
+      def handle_event("load_task_diff", params, socket) do
+        LiveVue.reply_async(socket, fn -> %{ok: true, diff: load_diff(params)} end)
+      end
+
+      def handle_async({:vue_reply, _ref} = name, result, socket) do
+        LiveVue.push_async_reply(name, result, socket)
+      end
+
+  ## Usage
+
+      socket =
+        LiveVue.attach(socket, [
+          {"kanban-board", [:columns], fn assigns -> %{columns: assigns.columns} end}
+        ])
+
+  Each entry names the component id, the assigns its props are built from and
+  the function that builds them (returning `nil` while the component is not
+  rendered). Props are only rebuilt when one of those assigns changed.
+  """
+
+  import Phoenix.Component, only: [assign: 3, changed?: 2]
+  import Phoenix.LiveView, only: [attach_hook: 4, push_event: 3, start_async: 3]
+
+  require Logger
+
+  @type path :: [String.t() | non_neg_integer()]
+  @type op :: %{required(:op) => String.t(), required(:path) => path(), optional(atom()) => term()}
+  @type component :: {String.t(), [atom()], (map() -> map() | nil)}
+
+  @doc """
+  Starts syncing the props of the given components after every render.
+  """
+  @spec attach(Phoenix.LiveView.Socket.t(), [component()]) :: Phoenix.LiveView.Socket.t()
+  def attach(socket, components) do
+    socket
+    |> assign(:vue_props, %{})
+    |> attach_hook(:live_vue, :after_render, &sync(&1, components))
+  end
+
+  @doc """
+  Replies to a hook's `"vue:resync"` event with the component's current props.
+  """
+  @spec resync(Phoenix.LiveView.Socket.t(), String.t()) :: {:reply, map(), Phoenix.LiveView.Socket.t()}
+  def resync(socket, id) do
+    case Map.fetch(socket.assigns.vue_props, id) do
+      {:ok, props} -> {:reply, %{props: props}, socket}
+      :error -> {:reply, %{}, socket}
+    end
+  end
+
+  @doc """
+  Replies to a hook's event with what `fun` returns, computed off the LiveView process.
+
+  See "Slow replies" above.
+  """
+  @spec reply_async(Phoenix.LiveView.Socket.t(), (-> map())) :: {:reply, map(), Phoenix.LiveView.Socket.t()}
+  def reply_async(socket, fun) do
+    ref = Integer.to_string(System.unique_integer([:positive]))
+    {:reply, %{async: ref}, start_async(socket, {:vue_reply, ref}, fun)}
+  end
+
+  @doc """
+  Pushes the result of a `reply_async/2` as the `"vue:reply"` its hook waits for.
+  """
+  @spec push_async_reply({:vue_reply, String.t()}, {:ok, map()} | {:exit, term()}, Phoenix.LiveView.Socket.t()) ::
+          {:noreply, Phoenix.LiveView.Socket.t()}
+  def push_async_reply({:vue_reply, ref}, result, socket) do
+    reply =
+      case result do
+        {:ok, reply} ->
+          reply
+
+        {:exit, reason} ->
+          Logger.warning("[LiveVue] Async reply failed: #{inspect(reason)}")
+          %{ok: false, error: "Something went wrong"}
+      end
+
+    {:noreply, push_event(socket, "vue:reply", %{ref: ref, reply: reply})}
+  end
+
+  defp sync(socket, components) do
+    sent = socket.assigns.vue_props
+
+    {socket, current} =
+      Enum.reduce(components, {socket, %{}}, fn {id, deps, build}, {socket, current} ->
+        props =
+          if Map.has_key?(sent, id) and not Enum.any?(deps, &changed?(socket.assigns, &1)) do
+            sent[id]
+          else
+            normalize(build.(socket.assigns))
+          end
+
+        {push_patch(socket, id, Map.get(sent, id), props), put_props(current, id, props)}
+      end)
+
+    assign(socket, :vue_props, current)
+  end
+
+  # A component seen for the first time fetches its props itself on mount
+  defp push_patch(socket, _id, nil, _props), do: socket
+  defp push_patch(socket, _id, _previous, nil), do: socket
+  defp push_patch(socket, _id, props, props), do: socket
+
+  defp push_patch(socket, id, previous, props) do
+    push_event(socket, "vue:patch", %{id: id, ops: diff(previous, props)})
+  end
+
+  defp put_props(current, _id, nil), do: current
+  defp put_props(current, id, props), do: Map.put(current, id, props)
+
+  # Props are compared the way the client sees them: string keys, no structs
+  defp normalize(nil), do: nil
+  defp normalize(props), do: props |> Jason.encode!() |> Jason.decode!()
+
+  @doc """
+  Returns the ops that turn `old` into `new`.
+
+  Both values are expected to be JSON-decoded terms.
+  """
+  @spec diff(term(), term(), path()) :: [op()]
+  def diff(old, new, path \\ [])
+
+  def diff(same, same, _path), do: []
+
+  def diff(%{} = old, %{} = new, path) do
+    removed =
+      for key <- Map.keys(old), not Map.has_key?(new, key) do
+        %{op: "remove", path: path ++ [key]}
+      end
+
+    changed =
+      Enum.flat_map(new, fn {key, value} ->
+        case Map.fetch(old, key) do
+          {:ok, previous} -> diff(previous, value, path ++ [key])
+          :error -> [replace(path ++ [key], value)]
+        end
+      end)
+
+    removed ++ changed
+  end
+
+  def diff(old, new, path) when is_list(old) and is_list(new) do
+    cond do
+      keyed?(old) and keyed?(new) -> diff_keyed(old, new, path)
+      length(old) == length(new) -> old |> Enum.zip(new) |> diff_items(path)
+      true -> [replace(path, new)]
+    end
+  end
+
+  def diff(_old, new, path), do: [replace(path, new)]
+
+  defp diff_keyed(old, new, path) do
+    old_by_id = Map.new(old, &{&1["id"], &1})
+    new_ids = Enum.map(new, & &1["id"])
+
+    order =
+      if Enum.map(old, & &1["id"]) == new_ids do
+        []
+      else
+        added = for item <- new, not Map.has_key?(old_by_id, item["id"]), into: %{}, do: {item["id"], item}
+        [%{op: "order", path: path, ids: new_ids, added: added}]
+      end
+
+    kept =
+      new
+      |> Enum.with_index()
+      |> Enum.flat_map(fn {item, index} ->
+        # Kept items are addressed by their index in the new list
+        case Map.fetch(old_by_id, item["id"]) do
+          {:ok, previous} -> diff(previous, item, path ++ [index])
+          :error -> []
+        end
+      end)
+
+    order ++ kept
+  end
+
+  defp diff_items(pairs, path) do
+    pairs
+    |> Enum.with_index()
+    |> Enum.flat_map(fn {{previous, value}, index} -> diff(previous, value, path ++ [index]) end)
+  end
+
+  # Lists of maps with distinct ids, such as tasks or columns
+  defp keyed?(list) do
+    Enum.all?(list, &(is_map(&1) and is_binary(&1["id"]))) and
+      length(Enum.uniq_by(list, & &1["id"])) == length(list)
+  end
+
+  defp replace(path, value), do: %{op: "replace", path: path, value: value}
+end
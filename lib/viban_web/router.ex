@@ -68,6 +68,7 @@ defmodule VibanWeb.Router do
 
     # Task actions
     get "/tasks/:task_id/images/:image_id", TaskController, :get_image
+    post "/tasks/:task_id/attachments", TaskController, :upload_attachment
 
     post "/editor/open", EditorController, :open
     post "/folder/open", FolderController, :open
@@ -0,0 +1,14 @@
+defmodule Viban.RepoSqlite.Migrations.AddTaskSettings do
+  @moduledoc """
+  Adds the per-task settings overrides: the executor that runs the task and the column hooks it skips.
+  """
+
+  use Ecto.Migration
+
+  def change do
+    alter table(:tasks) do
+      add :executor_type, :string
+      add :skipped_hooks, :map, default: []
+    end
+  end
+end
@@ -0,0 +1,15 @@
+defmodule Viban.RepoSqlite.Migrations.AddTaskVariants do
+  @moduledoc """
+  Adds parallel variants: tasks that run the same spec share a variant group until one is selected.
+  """
+
+  use Ecto.Migration
+
+  def change do
+    alter table(:tasks) do
+      add :variant_group_id, :uuid
+      add :variant_number, :integer
+      add :variant_status, :string
+    end
+  end
+end
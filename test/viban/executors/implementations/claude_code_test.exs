@@ -0,0 +1,72 @@
+defmodule Viban.Executors.Implementations.ClaudeCodeTest do
+  use ExUnit.Case, async: true
+
+  alias Viban.Executors.Implementations.ClaudeCode
+
+  defp parse(event), do: event |> Jason.encode!() |> ClaudeCode.parse_output()
+
+  # The command is wrapped in `script`, so check the joined arguments
+  defp command(opts), do: "claude-prompt" |> ClaudeCode.build_command(opts) |> elem(1) |> Enum.join(" ")
+
+  describe "parse_output/1 tool metadata" do
+    test "describes shell commands" do
+      {:ok, event} =
+        parse(%{type: "tool_use", id: "tu_1", name: "Bash", input: %{command: "mix test", description: "Run tests"}})
+
+      assert event.id == "tu_1"
+      assert event.metadata == %{type: "shell", command: "mix test", description: "Run tests"}
+    end
+
+    test "turns edits, multi-edits and writes into file edits" do
+      {:ok, edit} =
+        parse(%{type: "tool_use", name: "Edit", input: %{file_path: "lib/a.ex", old_string: "a", new_string: "b"}})
+
+      assert edit.metadata == %{type: "file_edit", path: "lib/a.ex", edits: [%{old_string: "a", new_string: "b"}]}
+
+      {:ok, multi} =
+        parse(%{
+          type: "tool_use",
+          name: "MultiEdit",
+          input: %{file_path: "lib/a.ex", edits: [%{old_string: "a", new_string: "b"}, %{old_string: "c"}]}
+        })
+
+      assert multi.metadata.edits == [%{old_string: "a", new_string: "b"}, %{old_string: "c", new_string: ""}]
+
+      {:ok, write} = parse(%{type: "tool_use", name: "Write", input: %{file_path: "new.txt", content: "hi"}})
+      assert write.metadata.edits == [%{old_string: "", new_string: "hi"}]
+    end
+
+    test "describes file reads and leaves other tools without a type" do
+      {:ok, read} = parse(%{type: "tool_use", name: "Read", input: %{file_path: "mix.exs"}})
+      assert read.metadata == %{type: "file_read", path: "mix.exs"}
+
+      {:ok, grep} = parse(%{type: "tool_use", name: "Grep", input: "not a map"})
+      assert grep.metadata == %{}
+    end
+
+    test "flattens tool results" do
+      {:ok, event} =
+        parse(%{
+          type: "tool_result",
+          tool_use_id: "tu_1",
+          is_error: true,
+          content: [%{type: "text", text: "Exit code 1\n"}, %{type: "text", text: "boom"}]
+        })
+
+      assert %{type: :tool_result, tool_use_id: "tu_1", is_error: true, content: "Exit code 1\nboom"} = event
+    end
+  end
+
+  describe "build_command/2" do
+    test "passes the model" do
+      assert command(model: "opus") =~ "--model opus"
+      refute command([]) =~ "--model"
+    end
+
+    test "plans without skipping permissions in plan mode" do
+      assert command(mode: :plan) =~ "--permission-mode plan"
+      refute command(mode: :plan) =~ "--dangerously-skip-permissions"
+      assert command(mode: :execute) =~ "--dangerously-skip-permissions"
+    end
+  end
+end
@@ -334,6 +334,37 @@ defmodule Viban.Kanban.HookExecutionTest do
     end
   end
 
+  # ============================================================================
+  # Board Broadcast Tests
+  # ============================================================================
+
+  describe "board broadcasts" do
+    setup do
+      create_test_task()
+    end
+
+    test "finished executions are broadcast to the board", %{task: task, column: column, board: board} do
+      Phoenix.PubSub.subscribe(Viban.PubSub, "board:#{board.id}")
+
+      {:ok, exec} =
+        HookExecution.queue(%{
+          task_id: task.id,
+          hook_name: "Test Hook",
+          hook_id: "test-hook-id",
+          triggering_column_id: column.id
+        })
+
+      {:ok, started_exec} = HookExecution.start(exec)
+      refute_receive {:hook_finished, _}
+
+      {:ok, _failed_exec} = HookExecution.fail(started_exec, %{error_message: "Script exited with code 1"})
+
+      assert_receive {:hook_finished, %{execution_id: execution_id, task_id: task_id, status: :failed}}
+      assert execution_id == exec.id
+      assert task_id == task.id
+    end
+  end
+
   # ============================================================================
   # Hook Settings Tests
   # ============================================================================
@@ -393,5 +393,16 @@ defmodule Viban.Kanban.HookSystemTest do
       assert column_hook1.id in task2.executed_hooks
       assert column_hook2.id in task2.executed_hooks
     end
+
+    test "task settings can skip column hooks", %{task: task, column_hook: column_hook} do
+      assert task.skipped_hooks == []
+
+      {:ok, updated_task} =
+        Task.update_settings(task, %{skipped_hooks: [column_hook.id], executor_type: :gemini_cli})
+
+      assert updated_task.skipped_hooks == [column_hook.id]
+      assert updated_task.executor_type == :gemini_cli
+      assert updated_task.auto_start == false
+    end
   end
 end
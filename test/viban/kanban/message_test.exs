@@ -180,6 +180,20 @@ defmodule Viban.Kanban.MessageTest do
       assert sequences == Enum.sort(sequences)
     end
 
+    test "page_for_task returns the newest messages before a time, newest first", %{task: task} do
+      [first, second, third] =
+        for content <- ["First", "Second", "Third"] do
+          {:ok, message} = Message.create(%{task_id: task.id, role: :user, content: content})
+          message
+        end
+
+      {:ok, latest} = Message.page_for_task(task.id, nil, 2)
+      assert Enum.map(latest, & &1.id) == [third.id, second.id]
+
+      {:ok, older} = Message.page_for_task(task.id, second.inserted_at, 2)
+      assert Enum.map(older, & &1.id) == [first.id]
+    end
+
     test "can delete a message", %{task: task} do
       {:ok, message} =
         Message.create(%{
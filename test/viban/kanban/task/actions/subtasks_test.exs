@@ -0,0 +1,46 @@
+defmodule Viban.Kanban.Task.Actions.SubtasksTest do
+  @moduledoc """
+  Tests for adding and reordering subtasks.
+  """
+  use Viban.DataCase, async: false
+
+  alias Viban.Kanban.Task
+
+  setup do
+    %{todo: todo} = create_board_with_columns()
+    {:ok, parent} = Task.create(%{title: "Parent Task", column_id: todo.id})
+
+    {:ok, parent: parent}
+  end
+
+  defp create_subtasks(parent, titles) do
+    Enum.map(titles, fn title ->
+      {:ok, subtask} = Task.create_subtask(parent.id, %{title: title})
+      subtask
+    end)
+  end
+
+  defp titles(parent) do
+    {:ok, subtasks} = Task.subtasks(parent.id)
+    Enum.map(subtasks, & &1.title)
+  end
+
+  test "adds subtasks at the end, in the parent's column", %{parent: parent} do
+    [first, second] = create_subtasks(parent, ["first", "second"])
+
+    assert first.column_id == parent.column_id
+    assert {first.subtask_position, second.subtask_position} == {0, 1}
+    assert first.position < second.position
+    assert {:ok, %{is_parent: true}} = Task.get(parent.id)
+  end
+
+  test "reorders subtasks, keeping unlisted ones at the end", %{parent: parent} do
+    [first, second, third] = create_subtasks(parent, ["first", "second", "third"])
+
+    {:ok, _} = Task.reorder_subtasks(parent.id, [third.id, first.id, second.id])
+    assert titles(parent) == ["third", "first", "second"]
+
+    {:ok, _} = Task.reorder_subtasks(parent.id, [second.id, Ecto.UUID.generate()])
+    assert titles(parent) == ["second", "third", "first"]
+  end
+end
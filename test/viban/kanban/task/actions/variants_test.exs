@@ -0,0 +1,52 @@
+defmodule Viban.Kanban.Task.Actions.VariantsTest do
+  @moduledoc """
+  Tests for creating parallel variants and selecting a winner.
+  """
+  use Viban.DataCase, async: false
+
+  alias Viban.Kanban.Task
+
+  setup do
+    %{todo: todo} = create_board_with_columns()
+
+    {:ok, %{variant_group_id: group_id, task_ids: task_ids}} =
+      Task.create_variants(todo.id, 3, %{title: "Spec", description: "Do it"})
+
+    {:ok, todo: todo, group_id: group_id, task_ids: task_ids}
+  end
+
+  defp statuses(group_id) do
+    {:ok, variants} = Task.variants(group_id)
+    Enum.map(variants, &{&1.variant_number, &1.variant_status})
+  end
+
+  test "creates numbered candidates of the same spec", %{todo: todo, group_id: group_id, task_ids: task_ids} do
+    {:ok, variants} = Task.variants(group_id)
+
+    assert Enum.map(variants, & &1.id) == task_ids
+    assert Enum.map(variants, &{&1.title, &1.description, &1.column_id}) ==
+             List.duplicate({"Spec", "Do it", todo.id}, 3)
+    assert statuses(group_id) == [{1, :candidate}, {2, :candidate}, {3, :candidate}]
+  end
+
+  test "rejects a single variant", %{todo: todo} do
+    assert {:error, _} = Task.create_variants(todo.id, 1, %{title: "Spec"})
+  end
+
+  test "archives the other variants when a winner is selected", %{todo: todo, group_id: group_id, task_ids: task_ids} do
+    [first, second, third] = task_ids
+
+    assert {:ok, %{selected: ^second, archived: [^first, ^third]}} = Task.select_variant(second)
+    assert statuses(group_id) == [{1, :archived}, {2, :selected}, {3, :archived}]
+
+    {:ok, tasks} = Task.for_column(todo.id)
+    assert Enum.map(tasks, & &1.id) == [second]
+  end
+
+  test "selects only one winner", %{task_ids: [first, second | _]} do
+    {:ok, _} = Task.select_variant(first)
+
+    assert {:error, _} = Task.select_variant(second)
+    assert {:error, _} = Task.select_variant(first)
+  end
+end
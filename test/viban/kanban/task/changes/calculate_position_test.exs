@@ -0,0 +1,59 @@
+defmodule Viban.Kanban.Task.Changes.CalculatePositionTest do
+  @moduledoc """
+  Tests for the positions CalculatePosition gives moved tasks.
+  """
+  use Viban.DataCase, async: false
+
+  alias Viban.Kanban.Task
+
+  # Also checked against the client's ordering keys, see assets/test/lib/ordering.test.ts
+  @order_keys Path.expand("../../../../support/order_keys.json", __DIR__)
+  @external_resource @order_keys
+
+  defp move(task, before, after_task, position) do
+    params = %{column_id: task.column_id, before_task_id: before.id, after_task_id: after_task.id}
+    params = if position, do: Map.put(params, :position, position), else: params
+    {:ok, moved} = Task.move(task, params)
+    moved.position
+  end
+
+  test "makes the keys the client makes for the same neighbours" do
+    for %{"before" => before, "after" => after_key, "key" => key} <- @order_keys |> File.read!() |> Jason.decode!() do
+      assert FractionalIndex.generate_key_between(before, after_key) == {:ok, key}
+    end
+  end
+
+  describe "moving within a column" do
+    setup do
+      %{todo: todo} = create_board_with_columns()
+
+      tasks =
+        for title <- ["First", "Second", "Third"] do
+          {:ok, task} = Task.create(%{title: title, column_id: todo.id})
+          task
+        end
+
+      {:ok, todo: todo, tasks: tasks}
+    end
+
+    test "keeps the client's position when it fits between the neighbours", %{tasks: [first, second, third]} do
+      assert {first.position, second.position} == {"a0", "a1"}
+      assert move(third, first, second, "a0x") == "a0x"
+    end
+
+    test "recalculates a position that doesn't fit", %{tasks: [first, second, third]} do
+      assert move(third, first, second, "a1V") == "a0V"
+      assert move(third, first, second, "a0V0") == "a0V"
+      assert move(third, first, second, "??") == "a0V"
+      assert move(third, first, second, nil) == "a0V"
+    end
+
+    test "recalculates a position another task has", %{todo: todo, tasks: [first, second, third]} do
+      {:ok, fourth} = Task.create(%{title: "Fourth", column_id: todo.id})
+      assert move(third, first, second, "a0x") == "a0x"
+
+      # Sent by a client that hasn't seen the third task move
+      assert move(fourth, first, second, "a0x") == "a0V"
+    end
+  end
+end
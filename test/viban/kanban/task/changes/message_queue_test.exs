@@ -0,0 +1,56 @@
+defmodule Viban.Kanban.Task.Changes.MessageQueueTest do
+  @moduledoc """
+  Tests for editing, cancelling and reordering queued messages.
+  """
+  use Viban.DataCase, async: false
+
+  alias Viban.Kanban.Task
+
+  setup do
+    %{todo: todo} = create_board_with_columns()
+    {:ok, task} = Task.create(%{title: "Queue Task", column_id: todo.id})
+
+    {:ok, task} = Task.queue_message(task, "first", :claude_code, [])
+    {:ok, task} = Task.queue_message(task, "second", :claude_code, [])
+    {:ok, task} = Task.queue_message(task, "third", :claude_code, [])
+
+    {:ok, task: task}
+  end
+
+  defp prompts(task), do: Enum.map(task.message_queue, & &1.prompt)
+  defp ids(task), do: Enum.map(task.message_queue, & &1.id)
+
+  test "edits a queued prompt", %{task: task} do
+    [_first, second_id, _third] = ids(task)
+
+    {:ok, task} = Task.update_queued_message(task, second_id, "second, edited")
+
+    assert prompts(task) == ["first", "second, edited", "third"]
+  end
+
+  test "cancels a queued message", %{task: task} do
+    [first_id, _second, _third] = ids(task)
+
+    {:ok, task} = Task.remove_queued_message(task, first_id)
+
+    assert prompts(task) == ["second", "third"]
+  end
+
+  test "refuses messages that are no longer queued", %{task: task} do
+    [first_id, _second, _third] = ids(task)
+    {:ok, task} = Task.pop_message(task)
+
+    assert {:error, _} = Task.update_queued_message(task, first_id, "too late")
+    assert {:error, _} = Task.remove_queued_message(task, first_id)
+  end
+
+  test "reorders the queue, keeping unlisted messages at the end", %{task: task} do
+    [first_id, second_id, third_id] = ids(task)
+
+    {:ok, reordered} = Task.reorder_message_queue(task, [third_id, first_id, second_id])
+    assert prompts(reordered) == ["third", "first", "second"]
+
+    {:ok, partial} = Task.reorder_message_queue(task, [third_id, "gone"])
+    assert prompts(partial) == ["third", "first", "second"]
+  end
+end
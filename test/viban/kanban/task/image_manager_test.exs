@@ -0,0 +1,44 @@
+defmodule Viban.Kanban.Task.ImageManagerTest do
+  use ExUnit.Case, async: true
+
+  alias Viban.Kanban.Task.ImageManager
+
+  @moduletag :tmp_dir
+
+  setup %{tmp_dir: dir} do
+    task_id = Ash.UUID.generate()
+    on_exit(fn -> ImageManager.delete_task_images(task_id) end)
+
+    source = Path.join(dir, "notes.txt")
+    File.write!(source, "notes")
+    {:ok, attachment} = ImageManager.save_attachment(task_id, source, "notes.txt")
+
+    {:ok, task_id: task_id, attachment: attachment}
+  end
+
+  describe "resolve_queued_images/2" do
+    test "gives queued attachments the path of their stored file", %{task_id: task_id, attachment: attachment} do
+      assert [%{"id" => id, "path" => path}] =
+               ImageManager.resolve_queued_images(task_id, [%{"attachment_id" => attachment["id"]}])
+
+      assert id == attachment["id"]
+      assert File.read!(path) == "notes"
+    end
+
+    test "rejects a client-supplied path", %{task_id: task_id} do
+      secret = Path.expand("~/.ssh/id_rsa")
+
+      assert [image] =
+               ImageManager.resolve_queued_images(task_id, [%{"name" => "id_rsa", "path" => secret}])
+
+      refute Map.has_key?(image, "path")
+    end
+
+    test "leaves out attachments that are gone or belong to another task", %{attachment: attachment} do
+      other_task_id = Ash.UUID.generate()
+
+      assert ImageManager.resolve_queued_images(other_task_id, [%{"attachment_id" => attachment["id"]}]) == []
+      assert ImageManager.resolve_queued_images(other_task_id, [%{"attachment_id" => "../../etc/passwd"}]) == []
+    end
+  end
+end
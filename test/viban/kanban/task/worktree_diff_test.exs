@@ -0,0 +1,139 @@
+defmodule Viban.Kanban.Task.WorktreeDiffTest do
+  use ExUnit.Case, async: true
+
+  alias Viban.Kanban.Task.WorktreeDiff
+
+  @moduletag :tmp_dir
+
+  defp git!(dir, args) do
+    config = ["-c", "user.name=Test", "-c", "user.email=test@example.com", "-c", "commit.gpgsign=false"]
+    {output, 0} = System.cmd("git", ["-C", dir | config ++ args], stderr_to_stdout: true)
+    output
+  end
+
+  # A worktree with one change of each kind on top of the `base` branch:
+  # a.txt committed, c.txt staged, b.txt unstaged, d.txt and e.bin untracked
+  defp setup_worktree(%{tmp_dir: dir}) do
+    git!(dir, ["init", "--quiet"])
+    File.write!(Path.join(dir, "a.txt"), "1\n2\n3\n")
+    File.write!(Path.join(dir, "b.txt"), "x\n")
+    git!(dir, ["add", "."])
+    git!(dir, ["commit", "--quiet", "-m", "Initial"])
+    git!(dir, ["branch", "base"])
+
+    File.write!(Path.join(dir, "a.txt"), "1\nTWO\n3\n")
+    git!(dir, ["commit", "--quiet", "-am", "Change a"])
+
+    File.write!(Path.join(dir, "c.txt"), "c1\nc2\n")
+    git!(dir, ["add", "c.txt"])
+
+    File.write!(Path.join(dir, "b.txt"), "x\ny\n")
+    File.write!(Path.join(dir, "d.txt"), "d")
+    File.write!(Path.join(dir, "e.bin"), <<0, 1, 2>>)
+
+    :ok
+  end
+
+  defp files(section), do: Enum.map(section.files, &{&1.path, &1.status, &1.additions, &1.deletions, &1.binary})
+
+  describe "summary/2" do
+    setup :setup_worktree
+
+    test "counts committed, staged, unstaged and untracked changes", %{tmp_dir: dir} do
+      assert WorktreeDiff.summary(dir, "base") == {:ok, %{additions: 5, deletions: 1, files: 5}}
+    end
+
+    test "ignores commits the base branch gained after the worktree forked", %{tmp_dir: dir} do
+      git!(dir, ["stash", "--include-untracked", "--quiet"])
+      git!(dir, ["checkout", "--quiet", "base"])
+      File.write!(Path.join(dir, "f.txt"), "f\n")
+      git!(dir, ["add", "f.txt"])
+      git!(dir, ["commit", "--quiet", "-m", "Base moves on"])
+      git!(dir, ["checkout", "--quiet", "-"])
+      git!(dir, ["stash", "pop", "--quiet"])
+
+      assert {:ok, %{additions: 5, deletions: 1}} = WorktreeDiff.summary(dir, "base")
+    end
+
+    test "fails without a worktree", %{tmp_dir: dir} do
+      assert WorktreeDiff.summary(nil, "base") == {:error, :no_worktree}
+      assert WorktreeDiff.summary(Path.join(dir, "missing"), "base") == {:error, :no_worktree}
+      assert {:error, {:git_error, _, _}} = WorktreeDiff.summary(dir, "no-such-branch")
+    end
+  end
+
+  describe "details/2" do
+    setup :setup_worktree
+
+    test "splits the changes into sections", %{tmp_dir: dir} do
+      assert {:ok, %{base_ref: "base", sections: [all, committed, staged, unstaged]}} =
+               WorktreeDiff.details(dir, "base")
+
+      assert {all.section, all.additions, all.deletions} == {:all, 5, 1}
+
+      assert files(all) == [
+               {"a.txt", :modified, 1, 1, false},
+               {"b.txt", :modified, 1, 0, false},
+               {"c.txt", :added, 2, 0, false},
+               {"d.txt", :added, 1, 0, false},
+               {"e.bin", :added, 0, 0, true}
+             ]
+
+      assert files(committed) == [{"a.txt", :modified, 1, 1, false}]
+      assert files(staged) == [{"c.txt", :added, 2, 0, false}]
+
+      assert files(unstaged) == [
+               {"b.txt", :modified, 1, 0, false},
+               {"d.txt", :added, 1, 0, false},
+               {"e.bin", :added, 0, 0, true}
+             ]
+    end
+
+    test "lists untracked files too large to read without line counts", %{tmp_dir: dir} do
+      File.write!(Path.join(dir, "big.txt"), String.duplicate("line\n", 250_000))
+
+      assert {:ok, %{sections: [all | _]}} = WorktreeDiff.details(dir, "base")
+      assert {"big.txt", :added, 0, 0, true} in files(all)
+    end
+  end
+
+  describe "file_patch/4" do
+    setup :setup_worktree
+
+    test "diffs one file within a section", %{tmp_dir: dir} do
+      assert {:ok, patch} = WorktreeDiff.file_patch(dir, "base", :committed, "a.txt")
+      assert patch =~ "-2\n+TWO\n"
+
+      assert {:ok, ""} = WorktreeDiff.file_patch(dir, "base", :staged, "a.txt")
+    end
+
+    test "diffs untracked files against an empty file", %{tmp_dir: dir} do
+      assert {:ok, patch} = WorktreeDiff.file_patch(dir, "base", :unstaged, "d.txt")
+      assert patch =~ "+d\n"
+
+      assert {:ok, ""} = WorktreeDiff.file_patch(dir, "base", :committed, "d.txt")
+    end
+
+    test "doesn't read files outside the worktree", %{tmp_dir: dir} do
+      assert {:error, _} = WorktreeDiff.file_patch(dir, "base", :all, "../outside.txt")
+    end
+  end
+
+  describe "parse_numstat/1" do
+    test "reads counts, binary files, statuses and quoted paths" do
+      output = """
+      3\t1\tlib/app.ex
+      -\t-\tlogo.png
+      0\t4\t"say \\"hi\\".txt"
+       create mode 100644 logo.png
+       delete mode 100644 "say \\"hi\\".txt"
+      """
+
+      assert WorktreeDiff.parse_numstat(output) == [
+               %{path: "lib/app.ex", status: :modified, additions: 3, deletions: 1, binary: false},
+               %{path: "logo.png", status: :added, additions: 0, deletions: 0, binary: true},
+               %{path: ~s(say "hi".txt), status: :deleted, additions: 0, deletions: 4, binary: false}
+             ]
+    end
+  end
+end
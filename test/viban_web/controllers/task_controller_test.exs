@@ -0,0 +1,49 @@
+defmodule VibanWeb.TaskControllerTest do
+  use VibanWeb.ConnCase, async: true
+
+  alias Viban.Kanban.Task.ImageManager
+
+  @moduletag :tmp_dir
+
+  setup %{tmp_dir: dir} do
+    task_id = Ash.UUID.generate()
+    on_exit(fn -> ImageManager.delete_task_images(task_id) end)
+
+    attach = fn name, content ->
+      source = Path.join(dir, name)
+      File.write!(source, content)
+      {:ok, attachment} = ImageManager.save_attachment(task_id, source, name)
+      attachment
+    end
+
+    {:ok, task_id: task_id, attach: attach}
+  end
+
+  describe "get_image" do
+    test "serves images inline", %{conn: conn, task_id: task_id, attach: attach} do
+      %{"id" => id} = attach.("shot.png", "png")
+      conn = get(conn, "/api/tasks/#{task_id}/images/#{id}")
+
+      assert response(conn, 200) == "png"
+      assert [content_type] = get_resp_header(conn, "content-type")
+      assert content_type =~ "image/png"
+      assert get_resp_header(conn, "content-disposition") == []
+      assert get_resp_header(conn, "x-content-type-options") == ["nosniff"]
+    end
+
+    test "serves other uploads, which could run as a page, as downloads", %{
+      conn: conn,
+      task_id: task_id,
+      attach: attach
+    } do
+      for name <- ["page.html", "icon.svg"] do
+        %{"id" => id} = attach.(name, "<script>alert(1)</script>")
+        conn = get(conn, "/api/tasks/#{task_id}/images/#{id}")
+
+        assert response(conn, 200)
+        assert [~s(attachment; filename="#{id}")] == get_resp_header(conn, "content-disposition")
+        assert get_resp_header(conn, "x-content-type-options") == ["nosniff"]
+      end
+    end
+  end
+end
@@ -0,0 +1,44 @@
+defmodule VibanWeb.BoardLiveTest do
+  use VibanWeb.ConnCase, async: false
+
+  alias Viban.Kanban.Task
+
+  setup %{conn: conn} do
+    user = create_user()
+    %{board: board, todo: todo} = create_board_with_columns(user)
+
+    {:ok, conn: log_in_user(conn, user), board: board, todo: todo}
+  end
+
+  describe "sending prompts without an explicit executor" do
+    setup %{todo: todo} do
+      task = create_task(todo, %{title: "Runs on Gemini"})
+      {:ok, task} = Task.update_settings(task, %{executor_type: :gemini_cli})
+      {:ok, task: task}
+    end
+
+    test "bulk prompts run on each task's executor", %{conn: conn, board: board, task: task, todo: todo} do
+      other = create_task(todo, %{title: "Default executor"})
+      {:ok, view, _html} = live(conn, "/boards/#{board.id}")
+
+      render_hook(view, "bulk_send_message", %{"taskIds" => [task.id, other.id], "message" => "Add tests"})
+
+      assert queued_executor(task) == :gemini_cli
+      assert queued_executor(other) == :claude_code
+    end
+
+    test "a prompt without an executor runs on the task's executor", %{conn: conn, board: board, task: task} do
+      {:ok, view, _html} = live(conn, "/boards/#{board.id}")
+
+      render_hook(view, "send_message", %{"taskId" => task.id, "message" => "Add tests"})
+
+      assert queued_executor(task) == :gemini_cli
+    end
+  end
+
+  defp queued_executor(task) do
+    {:ok, task} = Task.get(task.id)
+    [entry] = task.message_queue
+    entry.executor_type
+  end
+end
@@ -0,0 +1,45 @@
+defmodule VibanWeb.LiveVueTest do
+  use ExUnit.Case, async: true
+
+  alias VibanWeb.LiveVue
+
+  describe "diff/2" do
+    test "returns no ops for equal props" do
+      props = %{"columns" => [%{"id" => "c1", "tasks" => []}], "filter" => ""}
+      assert LiveVue.diff(props, props) == []
+    end
+
+    test "replaces changed values and removes dropped keys" do
+      old = %{"filter" => "", "selectedTaskId" => "t1", "board" => %{"name" => "A", "id" => "b"}}
+      new = %{"filter" => "bug", "board" => %{"name" => "B", "id" => "b"}}
+
+      assert LiveVue.diff(old, new) |> Enum.sort_by(& &1.path) == [
+               %{op: "replace", path: ["board", "name"], value: "B"},
+               %{op: "replace", path: ["filter"], value: "bug"},
+               %{op: "remove", path: ["selectedTaskId"]}
+             ]
+    end
+
+    test "patches items of keyed lists in place" do
+      old = %{"tasks" => [%{"id" => "a", "title" => "A"}, %{"id" => "b", "title" => "B"}]}
+      new = %{"tasks" => [%{"id" => "a", "title" => "A"}, %{"id" => "b", "title" => "B2"}]}
+
+      assert LiveVue.diff(old, new) == [%{op: "replace", path: ["tasks", 1, "title"], value: "B2"}]
+    end
+
+    test "reorders keyed lists, adding new items and patching kept ones by their new index" do
+      old = [%{"id" => "a", "title" => "A"}, %{"id" => "b", "title" => "B"}]
+      new = [%{"id" => "c", "title" => "C"}, %{"id" => "b", "title" => "B2"}]
+
+      assert LiveVue.diff(old, new) == [
+               %{op: "order", path: [], ids: ["c", "b"], added: %{"c" => %{"id" => "c", "title" => "C"}}},
+               %{op: "replace", path: [1, "title"], value: "B2"}
+             ]
+    end
+
+    test "replaces plain lists that change length" do
+      assert LiveVue.diff(%{"tags" => [1, 2]}, %{"tags" => [1]}) == [%{op: "replace", path: ["tags"], value: [1]}]
+      assert LiveVue.diff(%{"tags" => [1, 2]}, %{"tags" => [1, 3]}) == [%{op: "replace", path: ["tags", 1], value: 3}]
+    end
+  end
+end